@@ -1,4 +1,5 @@
-import { EndpointId } from '@layerzerolabs/lz-definitions';
+import type { ExplorerPaths } from './explorers';
+import { LAYERZERO, LayerZeroConfig } from './layerzero';
 
 export interface ChainConfig {
   id: number;
@@ -17,11 +18,13 @@ export interface ChainConfig {
     name: string;
     url: string;
     apiUrl: string;
+    // Env vars holding the explorer API key, first non-empty wins
+    apiKeyEnv?: string[];
+    // Link path overrides for explorers that are not Etherscan-style, see config/explorers.ts
+    paths?: Partial<ExplorerPaths>;
   };
-  layerZero: {
-    endpointId: EndpointId;
-    endpoint: string;
-  };
+  // Shared with config/layerzero.ts, edit the entry there
+  layerZero: LayerZeroConfig;
   testnet: boolean;
 }
 
@@ -43,11 +46,9 @@ export const CHAINS: Record<string, ChainConfig> = {
       name: 'Etherscan',
       url: 'https://etherscan.io',
       apiUrl: 'https://api.etherscan.io',
+      apiKeyEnv: ['ETHERSCAN_API_KEY'],
     },
-    layerZero: {
-      endpointId: EndpointId.ETHEREUM_MAINNET,
-      endpoint: '0x1a44076050125825900e736c501f859c50fE728c',
-    },
+    layerZero: LAYERZERO.ethereum,
     testnet: false,
   },
   arbitrum: {
@@ -66,11 +67,9 @@ export const CHAINS: Record<string, ChainConfig> = {
       name: 'Arbiscan',
       url: 'https://arbiscan.io',
       apiUrl: 'https://api.arbiscan.io',
+      apiKeyEnv: ['ARBISCAN_API_KEY'],
     },
-    layerZero: {
-      endpointId: EndpointId.ARBITRUM_MAINNET,
-      endpoint: '0x1a44076050125825900e736c501f859c50fE728c',
-    },
+    layerZero: LAYERZERO.arbitrum,
     testnet: false,
   },
   optimism: {
@@ -89,11 +88,9 @@ export const CHAINS: Record<string, ChainConfig> = {
       name: 'Optimistic Etherscan',
       url: 'https://optimistic.etherscan.io',
       apiUrl: 'https://api-optimistic.etherscan.io',
+      apiKeyEnv: ['OPTIMISM_API_KEY'],
     },
-    layerZero: {
-      endpointId: EndpointId.OPTIMISM_MAINNET,
-      endpoint: '0x1a44076050125825900e736c501f859c50fE728c',
-    },
+    layerZero: LAYERZERO.optimism,
     testnet: false,
   },
   polygon: {
@@ -112,11 +109,9 @@ export const CHAINS: Record<string, ChainConfig> = {
       name: 'PolygonScan',
       url: 'https://polygonscan.com',
       apiUrl: 'https://api.polygonscan.com',
+      apiKeyEnv: ['POLYGONSCAN_API_KEY'],
     },
-    layerZero: {
-      endpointId: EndpointId.POLYGON_MAINNET,
-      endpoint: '0x1a44076050125825900e736c501f859c50fE728c',
-    },
+    layerZero: LAYERZERO.polygon,
     testnet: false,
   },
   base: {
@@ -135,11 +130,9 @@ export const CHAINS: Record<string, ChainConfig> = {
       name: 'BaseScan',
       url: 'https://basescan.org',
       apiUrl: 'https://api.basescan.org',
+      apiKeyEnv: ['BASESCAN_API_KEY'],
     },
-    layerZero: {
-      endpointId: EndpointId.BASE_MAINNET,
-      endpoint: '0x1a44076050125825900e736c501f859c50fE728c',
-    },
+    layerZero: LAYERZERO.base,
     testnet: false,
   },
   bsc: {
@@ -158,11 +151,9 @@ export const CHAINS: Record<string, ChainConfig> = {
       name: 'BscScan',
       url: 'https://bscscan.com',
       apiUrl: 'https://api.bscscan.com',
+      apiKeyEnv: ['BSCSCAN_API_KEY'],
     },
-    layerZero: {
-      endpointId: EndpointId.BSC_MAINNET,
-      endpoint: '0x1a44076050125825900e736c501f859c50fE728c',
-    },
+    layerZero: LAYERZERO.bsc,
     testnet: false,
   },
   avalanche: {
@@ -181,11 +172,9 @@ export const CHAINS: Record<string, ChainConfig> = {
       name: 'Avalanche Explorer',
       url: 'https://snowtrace.io',
       apiUrl: 'https://api.snowtrace.io/api',
+      apiKeyEnv: ['SNOWTRACE_API_KEY'],
     },
-    layerZero: {
-      endpointId: EndpointId.AVALANCHE_MAINNET,
-      endpoint: '0x1a44076050125825900e736c501f859c50fE728c',
-    },
+    layerZero: LAYERZERO.avalanche,
     testnet: false,
   },
   sonic: {
@@ -204,13 +193,76 @@ export const CHAINS: Record<string, ChainConfig> = {
       name: 'Sonic Explorer',
       url: 'https://explorer.sonic.game',
       apiUrl: 'https://explorer.sonic.game/api',
+      apiKeyEnv: ['SONICSCAN_API_KEY'],
     },
-    layerZero: {
-      endpointId: EndpointId.SONIC_MAINNET,
-      endpoint: '0x6F475642a6e85809B1c36Fa62763669b1b48DD5B',
-    },
+    layerZero: LAYERZERO.sonic,
     testnet: false,
   },
+
+  // Testnet chains
+  sepolia: {
+    id: 11155111,
+    name: 'Sepolia',
+    network: 'sepolia',
+    nativeCurrency: {
+      name: 'Sepolia Ether',
+      symbol: 'ETH',
+      decimals: 18,
+    },
+    rpcUrls: {
+      http: ['https://ethereum-sepolia-rpc.publicnode.com', 'https://rpc.sepolia.org'],
+    },
+    blockExplorers: {
+      name: 'Etherscan',
+      url: 'https://sepolia.etherscan.io',
+      apiUrl: 'https://api-sepolia.etherscan.io',
+      apiKeyEnv: ['SEPOLIA_ETHERSCAN_API_KEY', 'ETHERSCAN_API_KEY'],
+    },
+    layerZero: LAYERZERO.sepolia,
+    testnet: true,
+  },
+  arbitrumSepolia: {
+    id: 421614,
+    name: 'Arbitrum Sepolia',
+    network: 'arbitrum-sepolia',
+    nativeCurrency: {
+      name: 'Sepolia Ether',
+      symbol: 'ETH',
+      decimals: 18,
+    },
+    rpcUrls: {
+      http: ['https://sepolia-rollup.arbitrum.io/rpc'],
+    },
+    blockExplorers: {
+      name: 'Arbiscan',
+      url: 'https://sepolia.arbiscan.io',
+      apiUrl: 'https://api-sepolia.arbiscan.io',
+      apiKeyEnv: ['ARBITRUM_SEPOLIA_ARBISCAN_API_KEY', 'ARBISCAN_API_KEY'],
+    },
+    layerZero: LAYERZERO.arbitrumSepolia,
+    testnet: true,
+  },
+  baseSepolia: {
+    id: 84532,
+    name: 'Base Sepolia',
+    network: 'base-sepolia',
+    nativeCurrency: {
+      name: 'Sepolia Ether',
+      symbol: 'ETH',
+      decimals: 18,
+    },
+    rpcUrls: {
+      http: ['https://sepolia.base.org'],
+    },
+    blockExplorers: {
+      name: 'BaseScan',
+      url: 'https://sepolia.basescan.org',
+      apiUrl: 'https://api-sepolia.basescan.org',
+      apiKeyEnv: ['BASE_SEPOLIA_BASESCAN_API_KEY', 'BASESCAN_API_KEY'],
+    },
+    layerZero: LAYERZERO.baseSepolia,
+    testnet: true,
+  },
 };
 
 export const MAINNET_CHAINS = Object.entries(CHAINS)
@@ -231,4 +283,12 @@ export const getChainByName = (name: string): ChainConfig | undefined => {
 
 export const getChainByNetwork = (network: string): ChainConfig | undefined => {
   return Object.values(CHAINS).find(chain => chain.network === network);
+};
+
+/**
+ * Key in CHAINS for a Hardhat network, by its chain ID so a fork or devnet node of a chain
+ * reads that chain's registries; a network of no configured chain keeps its own name
+ */
+export const getChainKey = (network: string, chainId?: number): string => {
+  return Object.keys(CHAINS).find(key => CHAINS[key].id === chainId) ?? network;
 }; 
\ No newline at end of file
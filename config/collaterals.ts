@@ -0,0 +1,404 @@
+import { getPriceFeedsForPair } from './priceFeeds';
+
+export type CollateralCategory = 'stable' | 'eth-derivative' | 'btc-derivative' | 'governance';
+
+export interface CollateralConfig {
+  symbol: string;
+  name: string;
+  decimals: number;
+  category: CollateralCategory;
+  // Liquidation threshold in percent, mirrors TorqueEngine LIQUIDATION_THRESHOLD_* constants
+  liquidationThreshold: number;
+  // Passed as `isVolatile` to TorqueEngine.addCollateralToken
+  isVolatile: boolean;
+  // True when the feed is quoted in ETH and must be multiplied by ETH/USD
+  needsEthConversion: boolean;
+  // Token decimals that differ from `decimals` on specific networks
+  networkDecimals?: Record<string, number>;
+  addresses: Record<string, string>;
+  // Registry pair priced by this collateral's feed, see config/priceFeeds.ts
+  feedPair: string;
+  // Derived from the price feed registry
+  priceFeeds: Record<string, string>;
+}
+
+export interface EngineCollateralPolicy {
+  // Only these symbols, when set
+  allow?: string[];
+  deny?: string[];
+  // False keeps volatile collateral off the engine
+  volatile?: boolean;
+}
+
+export const LIQUIDATION_THRESHOLD_STABLECOIN = 98;
+export const LIQUIDATION_THRESHOLD_VOLATILE = 80;
+
+const stable = {
+  category: 'stable' as const,
+  liquidationThreshold: LIQUIDATION_THRESHOLD_STABLECOIN,
+  isVolatile: false,
+  needsEthConversion: false,
+};
+
+const volatile = (category: Exclude<CollateralCategory, 'stable'>, needsEthConversion = false) => ({
+  category,
+  liquidationThreshold: LIQUIDATION_THRESHOLD_VOLATILE,
+  isVolatile: true,
+  needsEthConversion,
+});
+
+// Keys are upper-cased symbols so lookups can be case-insensitive
+const COLLATERAL_ENTRIES: Record<string, Omit<CollateralConfig, 'priceFeeds'>> = {
+  // Stablecoins (98% liquidation threshold)
+  USDC: {
+    symbol: 'USDC',
+    name: 'USD Coin',
+    decimals: 6,
+    ...stable,
+    networkDecimals: {
+      bsc: 18,
+    },
+    addresses: {
+      ethereum: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+      arbitrum: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+      optimism: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85',
+      polygon: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+      avalanche: '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E',
+      base: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      sonic: '0x29219dd400f2Bf60E5a23d13Be72B486D4038894',
+      bsc: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+      sepolia: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+      arbitrumSepolia: '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d',
+      baseSepolia: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+    },
+    feedPair: 'USDC_USD',
+  },
+  USDT: {
+    symbol: 'USDT',
+    name: 'Tether',
+    decimals: 6,
+    ...stable,
+    networkDecimals: {
+      bsc: 18,
+    },
+    addresses: {
+      ethereum: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+      arbitrum: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+      polygon: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+      avalanche: '0x9702230A8Ea53601f5cD2dc00fDBc13d4dF4A8c7',
+      base: '0xfde4C96c8593536E31F229EA8f37b2ADa2699bb2',
+      sonic: '0x6047828dc181963ba44974801FF68e538dA5eaF9',
+      optimism: '0x94b008aA00579c1307B0EF2c499aD98a8ce58e58',
+      bsc: '0x55d398326f99059fF775485246999027B3197955',
+    },
+    feedPair: 'USDT_USD',
+  },
+  USD0: {
+    symbol: 'USD0',
+    name: 'Usual USD',
+    decimals: 18,
+    ...stable,
+    addresses: {
+      ethereum: '0x73A15FeD60Bf67631dC6cd7Bc5B6e8da8190aCF5',
+      arbitrum: '0x35f1C5cB7Fb977E669fD244C567Da99d8a3a6850',
+      base: '0x758a3e0b1F842C9306B783f8A4078C6C8C03a270',
+    },
+    feedPair: 'USD0_USD',
+  },
+  SUSDS: {
+    symbol: 'sUSDS',
+    name: 'Savings USDS',
+    decimals: 18,
+    ...stable,
+    addresses: {
+      ethereum: '0xa3931d71877C0E7a3148CB7Eb4463524FEc27fbD',
+      arbitrum: '0xdDb46999F8891663a8F2828d25298f70416d7610',
+      base: '0x5875eEE11Cf8398102FdAd704C9E96607675467a',
+    },
+    feedPair: 'SUSDS_USD',
+  },
+  USDS: {
+    symbol: 'USDS',
+    name: 'Sky USD',
+    decimals: 18,
+    ...stable,
+    addresses: {
+      ethereum: '0xdC035D45d973E3EC169d2276DDab16f1e407384F',
+      arbitrum: '0x6491c05A82219b8D1479057361ff1654749b876b',
+      base: '0x820C137fa70C8691f0e44Dc420a5e53c168921Dc',
+    },
+    feedPair: 'USDS_USD',
+  },
+  PYUSD: {
+    symbol: 'PYUSD',
+    name: 'PayPal USD',
+    decimals: 6,
+    ...stable,
+    addresses: {
+      ethereum: '0x6c3ea9036406852006290770BEdFcAbA0e23A0e8',
+      arbitrum: '0x46850aD61C2B7d64d08c9C754F45254596696984',
+    },
+    feedPair: 'PYUSD_USD',
+  },
+  GHO: {
+    symbol: 'GHO',
+    name: 'Aave GHO',
+    decimals: 18,
+    ...stable,
+    addresses: {
+      ethereum: '0x40D16FC0246aD3160Ccc09B8D0D3A2cD28aE6C2f',
+      arbitrum: '0x7dfF72693f6A4149b17e7C6314655f6A9F7c8B33',
+    },
+    feedPair: 'GHO_USD',
+  },
+
+  // ETH derivatives (80% liquidation threshold)
+  WETH: {
+    symbol: 'WETH',
+    name: 'Wrapped Ether',
+    decimals: 18,
+    ...volatile('eth-derivative'),
+    addresses: {
+      ethereum: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+      arbitrum: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+      base: '0x4200000000000000000000000000000000000006',
+      optimism: '0x4200000000000000000000000000000000000006',
+      avalanche: '0x49D5c2BdFfac6CE2BFdB6640F4F80f226bc10bAB',
+      polygon: '0x7ceB23fD6bC0adD59E62ac25578270cFf1b9f619',
+      bsc: '0x2170Ed0880ac9A755fd29B2688956BD959F933F8',
+      sonic: '0x50c42dEAcD8Fc9773493ED674b675bE577f2634b',
+    },
+    feedPair: 'ETH_USD',
+  },
+  CBETH: {
+    symbol: 'cbETH',
+    name: 'Coinbase Ether',
+    decimals: 18,
+    ...volatile('eth-derivative', true),
+    addresses: {
+      ethereum: '0xBe9895146f7AF43049ca1c1AE358B0541Ea49704',
+      arbitrum: '0x1DEBd73E752bEaF79865Fd6446b0c970EaE7732f',
+      base: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22',
+    },
+    feedPair: 'CBETH_ETH',
+  },
+  WEETH: {
+    symbol: 'weETH',
+    name: 'Ether.fi ETH',
+    decimals: 18,
+    ...volatile('eth-derivative', true),
+    addresses: {
+      ethereum: '0xCd5fE23C85820F7B72D0926FC9b05b43E359b7ee',
+    },
+    // No weETH/ETH feed in the registry: the address previously listed failed checksum validation
+    feedPair: 'WEETH_ETH',
+  },
+  STETH: {
+    symbol: 'stETH',
+    name: 'Lido stETH',
+    decimals: 18,
+    ...volatile('eth-derivative'),
+    addresses: {
+      ethereum: '0xae7ab96520DE3A18E5e111B5EaAb095312D7fE84',
+    },
+    feedPair: 'STETH_USD',
+  },
+  WSTETH: {
+    symbol: 'wstETH',
+    name: 'Lido Wrapped stETH',
+    decimals: 18,
+    ...volatile('eth-derivative', true),
+    addresses: {
+      ethereum: '0x7f39C581F595B53c5cb19bD0b3f8dA6c935E2Ca0',
+      arbitrum: '0x5979D7b546E38E414F7E9822514be443A4800529',
+      base: '0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452',
+      optimism: '0x1F32b1c2345538c0c6f582fCB022739c4A194Ebb',
+    },
+    feedPair: 'WSTETH_ETH',
+  },
+  METH: {
+    symbol: 'mETH',
+    name: 'Mantle ETH',
+    decimals: 18,
+    ...volatile('eth-derivative', true),
+    addresses: {
+      ethereum: '0xd5F7838F5C461fefF7FE49ea5ebaF7728bB0ADfa',
+    },
+    feedPair: 'METH_ETH',
+  },
+
+  // BTC derivatives (80% liquidation threshold)
+  WBTC: {
+    symbol: 'WBTC',
+    name: 'Wrapped Bitcoin',
+    decimals: 8,
+    ...volatile('btc-derivative'),
+    addresses: {
+      ethereum: '0x2260FAC5E5542a773Aa44fBCfeDf7C193bc2C599',
+      arbitrum: '0x2f2a2543B76A4166549F7aaB2e75Bef0aefC5B0f',
+      base: '0x0555E30da8f98308EdB960aa94C0Db47230d2B9c',
+      optimism: '0x68f180fcCe6836688e9084f035309E29Bf0A2095',
+      avalanche: '0x0555E30da8f98308EdB960aa94C0Db47230d2B9c',
+      polygon: '0x0555E30da8f98308EdB960aa94C0Db47230d2B9c',
+      bsc: '0x0555E30da8f98308EdB960aa94C0Db47230d2B9c',
+      sonic: '0x0555E30da8f98308EdB960aa94C0Db47230d2B9c',
+    },
+    feedPair: 'BTC_USD',
+  },
+  CBBTC: {
+    symbol: 'cbBTC',
+    name: 'Coinbase Bitcoin',
+    decimals: 8,
+    ...volatile('btc-derivative'),
+    addresses: {
+      ethereum: '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf',
+      base: '0xcbB7C0000aB88B473b1f5aFd9ef808440eed33Bf',
+    },
+    feedPair: 'CBBTC_USD',
+  },
+  TBTC: {
+    symbol: 'tBTC',
+    name: 'Threshold BTC',
+    decimals: 18,
+    ...volatile('btc-derivative'),
+    addresses: {
+      ethereum: '0x18084fbA666a33d37592fA2633fD49a74DD93a88',
+      arbitrum: '0x6c84a8f1c29108F47a79964b5Fe888D4f4D0dE40',
+      base: '0x236aa50979D5f3De3Bd1Eeb40E81137F22ab794b',
+    },
+    feedPair: 'TBTC_USD',
+  },
+
+  // Governance tokens (80% liquidation threshold)
+  LINK: {
+    symbol: 'LINK',
+    name: 'Chainlink',
+    decimals: 18,
+    ...volatile('governance'),
+    addresses: {
+      ethereum: '0x514910771AF9Ca656af840dff83E8264EcF986CA',
+      arbitrum: '0xf97f4df75117a78c1A5a0DBb814Af92458539FB4',
+      avalanche: '0x5947BB275c521040051D82396192181b413227A3',
+      base: '0x88Fb150BDc53A65fe94Dea0c9BA0a6dAf8C6e196',
+      bsc: '0x404460C6A5EdE2D891e8297795264fDe62ADBB75',
+      optimism: '0x350a791Bfc2C21F9Ed5d10980Dad2e2638ffa7f6',
+      polygon: '0x53E0bca35eC356BD5ddDFebbD1Fc0fD03FaBad39',
+      sonic: '0x71052BAe71C25C78E37fD12E5ff1101A71d9018F',
+    },
+    feedPair: 'LINK_USD',
+  },
+  AAVE: {
+    symbol: 'AAVE',
+    name: 'Aave',
+    decimals: 18,
+    ...volatile('governance'),
+    addresses: {
+      ethereum: '0x7Fc66500c84A76Ad7e9c93437bFc5Ac33E2DDaE9',
+      base: '0x63706e401c06ac8513145b7687A14804d17f814b',
+      bsc: '0xfb6115445Bff7b52FeB98650C87f44907E58f802',
+      arbitrum: '0xba5DdD1f9d7F570dc94a51479a000E3BCE967196',
+      polygon: '0xD6DF932A45C0f255f85145f286eA0b292B21C90B',
+    },
+    feedPair: 'AAVE_USD',
+  },
+  MORPHO: {
+    symbol: 'MORPHO',
+    name: 'Morpho',
+    decimals: 18,
+    ...volatile('governance'),
+    addresses: {
+      ethereum: '0x58D97B57BB95320F9a05dC918Aef65434969c2B2',
+      base: '0xBAa5CC21fd487B8Fcc2F632f3F4E8D37262a0842',
+    },
+    feedPair: 'MORPHO_USD',
+  },
+  COMP: {
+    symbol: 'COMP',
+    name: 'Compound',
+    decimals: 18,
+    ...volatile('governance'),
+    addresses: {
+      ethereum: '0xc00e94Cb662C3520282E6f5717214004A7f26888',
+      base: '0x9e1028F5F1D5eDE59748FFceE5532509976840E0',
+      bsc: '0x52CE071Bd9b1C4B00A0b92D298c512478CaD67e8',
+      arbitrum: '0x354A6dA3fcde098F8389cad84b0182725c6C91dE',
+      polygon: '0x8505b9d2254A7Ae468c0E9dd10Ccea3A837aef5c',
+    },
+    feedPair: 'COMP_USD',
+  },
+};
+
+// Feed addresses come from the price feed registry, for networks where the token is listed
+export const COLLATERALS: Record<string, CollateralConfig> = Object.fromEntries(
+  Object.entries(COLLATERAL_ENTRIES).map(([key, collateral]) => {
+    const priceFeeds: Record<string, string> = {};
+    for (const [network, feed] of Object.entries(getPriceFeedsForPair(collateral.feedPair))) {
+      if (collateral.addresses[network]) priceFeeds[network] = feed.address;
+    }
+    return [key, { ...collateral, priceFeeds }];
+  })
+);
+
+export const STABLECOINS: string[] = Object.values(COLLATERALS)
+  .filter(collateral => collateral.category === 'stable')
+  .map(collateral => collateral.symbol);
+
+export const CRYPTO_COLLATERALS: string[] = Object.values(COLLATERALS)
+  .filter(collateral => collateral.category !== 'stable')
+  .map(collateral => collateral.symbol);
+
+export const getCollateral = (symbol: string): CollateralConfig | undefined => {
+  return COLLATERALS[symbol.toUpperCase()];
+};
+
+export const getCollateralsByCategory = (category: CollateralCategory): CollateralConfig[] => {
+  return Object.values(COLLATERALS).filter(collateral => collateral.category === category);
+};
+
+export const getCollateralAddress = (symbol: string, network: string): string | undefined => {
+  return getCollateral(symbol)?.addresses[network];
+};
+
+export const getCollateralPriceFeed = (symbol: string, network: string): string | undefined => {
+  return getCollateral(symbol)?.priceFeeds[network];
+};
+
+export const getCollateralDecimals = (symbol: string, network: string): number | undefined => {
+  const collateral = getCollateral(symbol);
+  if (!collateral) return undefined;
+
+  return collateral.networkDecimals?.[network] ?? collateral.decimals;
+};
+
+// Engines not listed accept every collateral available on their network
+export const ENGINE_COLLATERAL_POLICIES: Record<string, EngineCollateralPolicy> = {
+  // Gold-backed positions only take stablecoin collateral
+  XAU: { volatile: false },
+};
+
+/**
+ * Whether an engine's policy lets it accept a collateral
+ */
+export const isCollateralAllowed = (
+  currency: string,
+  collateral: CollateralConfig,
+  policies: Record<string, EngineCollateralPolicy> = ENGINE_COLLATERAL_POLICIES
+): boolean => {
+  const policy = policies[currency];
+  if (!policy) return true;
+  if (policy.allow && !policy.allow.some(symbol => symbol.toUpperCase() === collateral.symbol.toUpperCase())) return false;
+  if (policy.deny?.some(symbol => symbol.toUpperCase() === collateral.symbol.toUpperCase())) return false;
+  return policy.volatile !== false || !collateral.isVolatile;
+};
+
+/**
+ * Collaterals engines on a network should accept: listed with an address and a price feed there,
+ * and allowed by the engine's policy when a currency is given
+ */
+export const getEngineCollaterals = (network: string, currency?: string): CollateralConfig[] => {
+  return Object.values(COLLATERALS).filter(collateral =>
+    collateral.addresses[network] &&
+    collateral.priceFeeds[network] &&
+    (currency === undefined || isCollateralAllowed(currency, collateral))
+  );
+};
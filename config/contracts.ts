@@ -1,6 +1,9 @@
 import { CHAINS } from './chains';
+import { CURRENCIES, CURRENCY_CODES, CurrencyCode, isCurrencyCode } from './currencies';
+import { loadDeploymentRecord, recordContracts } from './deployments';
 
 export interface ContractAddresses {
+  torque: string;
   torqueFX: string;
   torqueRouter: string;
   torqueDEX: string;
@@ -8,478 +11,172 @@ export interface ContractAddresses {
   torqueRewards: string;
   torqueStake: string;
   torqueBatchHandler: string;
-  // Engine contracts for each currency
-  engines: {
-    USD: string;
-    EUR: string;
-    GBP: string;
-    JPY: string;
-    AUD: string;
-    CAD: string;
-    CHF: string;
-    NZD: string;
-    XAU: string;
-    XAG: string;
-    CNY: string;
-    KRW: string;
-  };
-  // Currency tokens
-  currencies: {
-    USD: string;
-    EUR: string;
-    GBP: string;
-    JPY: string;
-    AUD: string;
-    CAD: string;
-    CHF: string;
-    NZD: string;
-    XAU: string;
-    XAG: string;
-    CNY: string;
-    KRW: string;
-  };
+  // Engine contracts and currency tokens, keyed by CURRENCIES code
+  engines: Record<CurrencyCode, string>;
+  currencies: Record<CurrencyCode, string>;
 }
 
+export type ContractAddressesUpdate = Partial<Omit<ContractAddresses, 'engines' | 'currencies'>> & {
+  engines?: Partial<Record<CurrencyCode, string>>;
+  currencies?: Partial<Record<CurrencyCode, string>>;
+};
+
 export interface DeploymentConfig {
   chainId: number;
   network: string;
   addresses: ContractAddresses;
   deployed: boolean;
+  // Registry record version, 0 when nothing has been recorded
+  version: number;
   deploymentDate?: string;
   deployer?: string;
   transactionHash?: string;
 }
 
-// Mainnet deployments
-export const MAINNET_DEPLOYMENTS: Record<string, DeploymentConfig> = {
-  ethereum: {
-    chainId: 1,
-    network: 'ethereum',
-    addresses: {
-      torqueFX: '0x0000000000000000000000000000000000000000',
-      torqueRouter: '0x0000000000000000000000000000000000000000',
-      torqueDEX: '0x0000000000000000000000000000000000000000',
-      torqueLP: '0x0000000000000000000000000000000000000000',
-      torqueRewards: '0x0000000000000000000000000000000000000000',
-      torqueStake: '0x0000000000000000000000000000000000000000',
-      torqueBatchHandler: '0x0000000000000000000000000000000000000000',
-      engines: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-      currencies: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-    },
-    deployed: false,
-  },
-  arbitrum: {
-    chainId: 42161,
-    network: 'arbitrum',
-    addresses: {
-      torqueFX: '0x0000000000000000000000000000000000000000',
-      torqueRouter: '0x0000000000000000000000000000000000000000',
-      torqueDEX: '0x0000000000000000000000000000000000000000',
-      torqueLP: '0x0000000000000000000000000000000000000000',
-      torqueRewards: '0x0000000000000000000000000000000000000000',
-      torqueStake: '0x0000000000000000000000000000000000000000',
-      torqueBatchHandler: '0x0000000000000000000000000000000000000000',
-      engines: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-      currencies: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-    },
-    deployed: false,
-  },
-  optimism: {
-    chainId: 10,
-    network: 'optimism',
-    addresses: {
-      torqueFX: '0x0000000000000000000000000000000000000000',
-      torqueRouter: '0x0000000000000000000000000000000000000000',
-      torqueDEX: '0x0000000000000000000000000000000000000000',
-      torqueLP: '0x0000000000000000000000000000000000000000',
-      torqueRewards: '0x0000000000000000000000000000000000000000',
-      torqueStake: '0x0000000000000000000000000000000000000000',
-      torqueBatchHandler: '0x0000000000000000000000000000000000000000',
-      engines: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-      currencies: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-    },
-    deployed: false,
-  },
-  polygon: {
-    chainId: 137,
-    network: 'polygon',
-    addresses: {
-      torqueFX: '0x0000000000000000000000000000000000000000',
-      torqueRouter: '0x0000000000000000000000000000000000000000',
-      torqueDEX: '0x0000000000000000000000000000000000000000',
-      torqueLP: '0x0000000000000000000000000000000000000000',
-      torqueRewards: '0x0000000000000000000000000000000000000000',
-      torqueStake: '0x0000000000000000000000000000000000000000',
-      torqueBatchHandler: '0x0000000000000000000000000000000000000000',
-      engines: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-      currencies: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-    },
-    deployed: false,
-  },
-  base: {
-    chainId: 8453,
-    network: 'base',
-    addresses: {
-      torqueFX: '0x0000000000000000000000000000000000000000',
-      torqueRouter: '0x0000000000000000000000000000000000000000',
-      torqueDEX: '0x0000000000000000000000000000000000000000',
-      torqueLP: '0x0000000000000000000000000000000000000000',
-      torqueRewards: '0x0000000000000000000000000000000000000000',
-      torqueStake: '0x0000000000000000000000000000000000000000',
-      torqueBatchHandler: '0x0000000000000000000000000000000000000000',
-      engines: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-      currencies: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-    },
-    deployed: false,
-  },
-  bsc: {
-    chainId: 56,
-    network: 'bsc',
-    addresses: {
-      torqueFX: '0x0000000000000000000000000000000000000000',
-      torqueRouter: '0x0000000000000000000000000000000000000000',
-      torqueDEX: '0x0000000000000000000000000000000000000000',
-      torqueLP: '0x0000000000000000000000000000000000000000',
-      torqueRewards: '0x0000000000000000000000000000000000000000',
-      torqueStake: '0x0000000000000000000000000000000000000000',
-      torqueBatchHandler: '0x0000000000000000000000000000000000000000',
-      engines: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-      currencies: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-    },
-    deployed: false,
-  },
-  avalanche: {
-    chainId: 43114,
-    network: 'avalanche',
-    addresses: {
-      torqueFX: '0x0000000000000000000000000000000000000000',
-      torqueRouter: '0x0000000000000000000000000000000000000000',
-      torqueDEX: '0x0000000000000000000000000000000000000000',
-      torqueLP: '0x0000000000000000000000000000000000000000',
-      torqueRewards: '0x0000000000000000000000000000000000000000',
-      torqueStake: '0x0000000000000000000000000000000000000000',
-      torqueBatchHandler: '0x0000000000000000000000000000000000000000',
-      engines: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-      currencies: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-    },
-    deployed: false,
-  },
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const createEmptyAddresses = (): ContractAddresses => {
+  const perCurrency = () =>
+    Object.fromEntries(CURRENCY_CODES.map(code => [code, ZERO_ADDRESS])) as Record<CurrencyCode, string>;
+
+  return {
+    torque: ZERO_ADDRESS,
+    torqueFX: ZERO_ADDRESS,
+    torqueRouter: ZERO_ADDRESS,
+    torqueDEX: ZERO_ADDRESS,
+    torqueLP: ZERO_ADDRESS,
+    torqueRewards: ZERO_ADDRESS,
+    torqueStake: ZERO_ADDRESS,
+    torqueBatchHandler: ZERO_ADDRESS,
+    engines: perCurrency(),
+    currencies: perCurrency(),
+  };
+};
+
+/**
+ * Flatten addresses into registry slots, e.g. `torqueDEX`, `engines.EUR`, `currencies.USD`
+ */
+export const getContractSlots = (addresses: ContractAddressesUpdate): [string, string][] => {
+  const { engines, currencies, ...core } = addresses;
+
+  return [
+    ...Object.entries(core).filter((entry): entry is [string, string] => typeof entry[1] === 'string'),
+    ...Object.entries(engines ?? {}).map(([currency, address]): [string, string] => [`engines.${currency}`, address!]),
+    ...Object.entries(currencies ?? {}).map(([currency, address]): [string, string] => [`currencies.${currency}`, address!]),
+  ];
+};
+
+/**
+ * Every slot a complete deployment fills: core contracts, then engines and currency tokens
+ */
+export const getDeploymentSlots = (): string[] => {
+  return getContractSlots(createEmptyAddresses()).map(([slot]) => slot);
+};
+
+/**
+ * Slots holding LayerZero OApps that exchange messages with the same slot on other chains:
+ * the OFTs, TorqueDEX, TorqueStake, TorqueBatchHandler and every currency token
+ */
+export const getOAppSlots = (): string[] => {
+  return [
+    'torque',
+    'torqueLP',
+    'torqueDEX',
+    'torqueStake',
+    'torqueBatchHandler',
+    ...CURRENCY_CODES.map(code => `currencies.${code}`),
+  ];
+};
+
+/**
+ * OApp slots that address other chains by the legacy uint16 chain ID instead of the LayerZero
+ * eid: they send to the destination's `legacyChainId` and read their source as `uint16(srcEid)`
+ */
+export const LEGACY_CHAIN_ID_SLOTS = ['torqueDEX', 'torqueStake', 'torqueBatchHandler'];
+
+/**
+ * Solidity contract name deployed in a registry slot, e.g. `TorqueDEX` or `TorqueEUREngine`
+ */
+export const getSlotContractName = (slot: string): string | undefined => {
+  const [group, currency] = slot.split('.');
+  if (currency) {
+    if (!isCurrencyCode(currency)) return undefined;
+    if (group === 'engines') return CURRENCIES[currency].engineContract;
+    if (group === 'currencies') return CURRENCIES[currency].tokenContract;
+    return undefined;
+  }
+  return `${group.charAt(0).toUpperCase()}${group.slice(1)}`;
+};
+
+const applySlot = (addresses: ContractAddresses, slot: string, address: string): void => {
+  const [group, currency] = slot.split('.');
+  if ((group === 'engines' || group === 'currencies') && currency && isCurrencyCode(currency)) {
+    addresses[group][currency] = address;
+  } else if (!currency && group in addresses) {
+    (addresses as unknown as Record<string, string>)[group] = address;
+  }
+};
+
+/**
+ * Build the deployment for a network from its registry file, zero addresses when nothing is recorded
+ */
+const loadDeployment = (network: string): DeploymentConfig | undefined => {
+  const chain = CHAINS[network];
+  if (!chain) return undefined;
+
+  const record = loadDeploymentRecord(network);
+  const addresses = createEmptyAddresses();
+  for (const [slot, contract] of Object.entries(record?.contracts ?? {})) {
+    applySlot(addresses, slot, contract.address);
+  }
+
+  return {
+    chainId: chain.id,
+    network: chain.network,
+    addresses,
+    deployed: addresses.torqueDEX !== ZERO_ADDRESS,
+    version: record?.version ?? 0,
+    deploymentDate: record?.updatedAt,
+    deployer: record?.deployer,
+    transactionHash: record?.contracts.torqueDEX?.transactionHash,
+  };
 };
 
-// Testnet deployments
-export const TESTNET_DEPLOYMENTS: Record<string, DeploymentConfig> = {
-  sepolia: {
-    chainId: 11155111,
-    network: 'sepolia',
-    addresses: {
-      torqueFX: '0x0000000000000000000000000000000000000000',
-      torqueRouter: '0x0000000000000000000000000000000000000000',
-      torqueDEX: '0x0000000000000000000000000000000000000000',
-      torqueLP: '0x0000000000000000000000000000000000000000',
-      torqueRewards: '0x0000000000000000000000000000000000000000',
-      torqueStake: '0x0000000000000000000000000000000000000000',
-      torqueBatchHandler: '0x0000000000000000000000000000000000000000',
-      engines: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-      currencies: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-    },
-    deployed: false,
-  },
-  arbitrumSepolia: {
-    chainId: 421614,
-    network: 'arbitrum-sepolia',
-    addresses: {
-      torqueFX: '0x0000000000000000000000000000000000000000',
-      torqueRouter: '0x0000000000000000000000000000000000000000',
-      torqueDEX: '0x0000000000000000000000000000000000000000',
-      torqueLP: '0x0000000000000000000000000000000000000000',
-      torqueRewards: '0x0000000000000000000000000000000000000000',
-      torqueStake: '0x0000000000000000000000000000000000000000',
-      torqueBatchHandler: '0x0000000000000000000000000000000000000000',
-      engines: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-      currencies: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-    },
-    deployed: false,
-  },
-
-  baseSepolia: {
-    chainId: 84532,
-    network: 'base-sepolia',
-    addresses: {
-      torqueFX: '0x0000000000000000000000000000000000000000',
-      torqueRouter: '0x0000000000000000000000000000000000000000',
-      torqueDEX: '0x0000000000000000000000000000000000000000',
-      torqueLP: '0x0000000000000000000000000000000000000000',
-      torqueRewards: '0x0000000000000000000000000000000000000000',
-      torqueStake: '0x0000000000000000000000000000000000000000',
-      torqueBatchHandler: '0x0000000000000000000000000000000000000000',
-      engines: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-      currencies: {
-        USD: '0x0000000000000000000000000000000000000000',
-        EUR: '0x0000000000000000000000000000000000000000',
-        GBP: '0x0000000000000000000000000000000000000000',
-        JPY: '0x0000000000000000000000000000000000000000',
-        AUD: '0x0000000000000000000000000000000000000000',
-        CAD: '0x0000000000000000000000000000000000000000',
-        CHF: '0x0000000000000000000000000000000000000000',
-        NZD: '0x0000000000000000000000000000000000000000',
-        XAU: '0x0000000000000000000000000000000000000000',
-        XAG: '0x0000000000000000000000000000000000000000',
-        CNY: '0x0000000000000000000000000000000000000000',
-        KRW: '0x0000000000000000000000000000000000000000',
-      },
-    },
-    deployed: false,
-  },
+const loadDeployments = (testnet: boolean): Record<string, DeploymentConfig> => {
+  const deployments: Record<string, DeploymentConfig> = {};
+
+  for (const [network, chain] of Object.entries(CHAINS)) {
+    if (chain.testnet !== testnet) continue;
+    const deployment = loadDeployment(network);
+    if (deployment) deployments[network] = deployment;
+  }
+
+  return deployments;
 };
 
-export const ALL_DEPLOYMENTS = { ...MAINNET_DEPLOYMENTS, ...TESTNET_DEPLOYMENTS };
+// Loaded from config/deployments/<network>.json, one entry per chain in CHAINS
+export const MAINNET_DEPLOYMENTS: Record<string, DeploymentConfig> = loadDeployments(false);
+
+export const TESTNET_DEPLOYMENTS: Record<string, DeploymentConfig> = loadDeployments(true);
+
+export const ALL_DEPLOYMENTS: Record<string, DeploymentConfig> = { ...MAINNET_DEPLOYMENTS, ...TESTNET_DEPLOYMENTS };
+
+/**
+ * Re-read a network's registry file so changes written by scripts in this process are visible
+ */
+export const reloadDeployment = (network: string): DeploymentConfig | undefined => {
+  const deployment = loadDeployment(network);
+  if (!deployment) return undefined;
+
+  ALL_DEPLOYMENTS[network] = deployment;
+  if (CHAINS[network].testnet) {
+    TESTNET_DEPLOYMENTS[network] = deployment;
+  } else {
+    MAINNET_DEPLOYMENTS[network] = deployment;
+  }
+
+  return deployment;
+};
 
 export const getDeploymentByChainId = (chainId: number): DeploymentConfig | undefined => {
   return Object.values(ALL_DEPLOYMENTS).find(deployment => deployment.chainId === chainId);
@@ -503,51 +200,53 @@ export const getTestnetDeployments = (): DeploymentConfig[] => {
   return Object.values(TESTNET_DEPLOYMENTS);
 };
 
+/**
+ * Persist addresses to the network's registry file and refresh ALL_DEPLOYMENTS
+ */
 export const updateDeployment = (
   network: string,
-  addresses: Partial<ContractAddresses>,
-  deployed: boolean = true,
-  deploymentDate?: string,
+  addresses: ContractAddressesUpdate,
   deployer?: string,
   transactionHash?: string
-): void => {
-  if (ALL_DEPLOYMENTS[network]) {
-    ALL_DEPLOYMENTS[network] = {
-      ...ALL_DEPLOYMENTS[network],
-      addresses: {
-        ...ALL_DEPLOYMENTS[network].addresses,
-        ...addresses,
-      },
-      deployed,
-      deploymentDate,
-      deployer,
-      transactionHash,
-    };
+): DeploymentConfig => {
+  const chain = CHAINS[network];
+  if (!chain) {
+    throw new Error(`Unknown network: ${network}`);
   }
+
+  const contracts = getContractSlots(addresses)
+    .filter(([, address]) => address !== ZERO_ADDRESS)
+    .map(([contract, address]) => ({ contract, address, transactionHash }));
+  recordContracts(network, chain.id, contracts, { deployer });
+
+  return reloadDeployment(network)!;
 };
 
 export const getContractAddress = (network: string, contract: keyof ContractAddresses): string => {
-  const deployment = ALL_DEPLOYMENTS[network];
+  const deployment = reloadDeployment(network);
   if (!deployment) {
     throw new Error(`No deployment found for network: ${network}`);
   }
   
   const address = deployment.addresses[contract];
-  if (typeof address === 'string') {
-    return address;
+  if (typeof address !== 'string') {
+    throw new Error(`Contract ${contract} not found for network: ${network}`);
+  }
+  if (address === ZERO_ADDRESS) {
+    throw new Error(`Contract ${contract} not deployed on network: ${network}`);
   }
   
-  throw new Error(`Contract ${contract} not found for network: ${network}`);
+  return address;
 };
 
 export const getEngineAddress = (network: string, currency: string): string => {
-  const deployment = ALL_DEPLOYMENTS[network];
+  const deployment = reloadDeployment(network);
   if (!deployment) {
     throw new Error(`No deployment found for network: ${network}`);
   }
   
   const engineAddress = deployment.addresses.engines[currency as keyof typeof deployment.addresses.engines];
-  if (!engineAddress || engineAddress === '0x0000000000000000000000000000000000000000') {
+  if (!engineAddress || engineAddress === ZERO_ADDRESS) {
     throw new Error(`Engine for ${currency} not deployed on network: ${network}`);
   }
   
@@ -555,13 +254,13 @@ export const getEngineAddress = (network: string, currency: string): string => {
 };
 
 export const getCurrencyAddress = (network: string, currency: string): string => {
-  const deployment = ALL_DEPLOYMENTS[network];
+  const deployment = reloadDeployment(network);
   if (!deployment) {
     throw new Error(`No deployment found for network: ${network}`);
   }
   
   const currencyAddress = deployment.addresses.currencies[currency as keyof typeof deployment.addresses.currencies];
-  if (!currencyAddress || currencyAddress === '0x0000000000000000000000000000000000000000') {
+  if (!currencyAddress || currencyAddress === ZERO_ADDRESS) {
     throw new Error(`Currency ${currency} not deployed on network: ${network}`);
   }
   
@@ -0,0 +1,153 @@
+export type CurrencyKind = 'fiat' | 'metal';
+
+export interface CurrencyConfig {
+  // ISO 4217 code, also the key in CURRENCIES and in ContractAddresses.engines/currencies
+  code: string;
+  name: string;
+  kind: CurrencyKind;
+  tokenName: string;
+  tokenSymbol: string;
+  // Solidity contract names under contracts/currencies and contracts/engines
+  tokenContract: string;
+  engineContract: string;
+  // Key of the engine's price feed in the per-chain feed tables, e.g. `EUR_USD`
+  feedPair: string;
+  // Decimals shown in UIs; token amounts always use 18 on-chain
+  displayDecimals: number;
+}
+
+const torqueContracts = <Code extends string>(code: Code) => ({
+  code,
+  tokenName: `Torque ${code}`,
+  tokenSymbol: `T${code}`,
+  tokenContract: `Torque${code}`,
+  engineContract: `Torque${code}Engine`,
+});
+
+// Keys are ISO codes; adding a currency here adds it to every script and config type
+export const CURRENCIES = {
+  // Quote asset for every DEX pool; its engine is priced off USDC/USD
+  USD: {
+    ...torqueContracts('USD'),
+    name: 'US Dollar',
+    kind: 'fiat',
+    feedPair: 'USDC_USD',
+    displayDecimals: 2,
+  },
+  EUR: {
+    ...torqueContracts('EUR'),
+    name: 'Euro',
+    kind: 'fiat',
+    feedPair: 'EUR_USD',
+    displayDecimals: 2,
+  },
+  GBP: {
+    ...torqueContracts('GBP'),
+    name: 'British Pound',
+    kind: 'fiat',
+    feedPair: 'GBP_USD',
+    displayDecimals: 2,
+  },
+  JPY: {
+    ...torqueContracts('JPY'),
+    name: 'Japanese Yen',
+    kind: 'fiat',
+    feedPair: 'JPY_USD',
+    displayDecimals: 0,
+  },
+  AUD: {
+    ...torqueContracts('AUD'),
+    name: 'Australian Dollar',
+    kind: 'fiat',
+    feedPair: 'AUD_USD',
+    displayDecimals: 2,
+  },
+  CAD: {
+    ...torqueContracts('CAD'),
+    name: 'Canadian Dollar',
+    kind: 'fiat',
+    feedPair: 'CAD_USD',
+    displayDecimals: 2,
+  },
+  CHF: {
+    ...torqueContracts('CHF'),
+    name: 'Swiss Franc',
+    kind: 'fiat',
+    feedPair: 'CHF_USD',
+    displayDecimals: 2,
+  },
+  NZD: {
+    ...torqueContracts('NZD'),
+    name: 'New Zealand Dollar',
+    kind: 'fiat',
+    feedPair: 'NZD_USD',
+    displayDecimals: 2,
+  },
+  CNY: {
+    ...torqueContracts('CNY'),
+    name: 'Chinese Yuan',
+    kind: 'fiat',
+    feedPair: 'CNY_USD',
+    displayDecimals: 2,
+  },
+  KRW: {
+    ...torqueContracts('KRW'),
+    name: 'South Korean Won',
+    kind: 'fiat',
+    feedPair: 'KRW_USD',
+    displayDecimals: 0,
+  },
+  // Metals are quoted per troy ounce and have no ISO minor unit
+  XAU: {
+    ...torqueContracts('XAU'),
+    name: 'Gold',
+    kind: 'metal',
+    feedPair: 'XAU_USD',
+    displayDecimals: 4,
+  },
+  XAG: {
+    ...torqueContracts('XAG'),
+    name: 'Silver',
+    kind: 'metal',
+    feedPair: 'XAG_USD',
+    displayDecimals: 2,
+  },
+} satisfies Record<string, CurrencyConfig>;
+
+export type CurrencyCode = keyof typeof CURRENCIES;
+
+export const CURRENCY_CODES = Object.keys(CURRENCIES) as CurrencyCode[];
+
+export const QUOTE_CURRENCY: CurrencyCode = 'USD';
+
+// A catalog entry, with `code` narrowed to a known currency
+export type CatalogCurrency = CurrencyConfig & { code: CurrencyCode };
+
+export const CURRENCY_LIST: CatalogCurrency[] = Object.values(CURRENCIES);
+
+export const isCurrencyCode = (code: string): code is CurrencyCode => {
+  return code in CURRENCIES;
+};
+
+export const getCurrency = (code: string): CatalogCurrency | undefined => {
+  const upper = code.toUpperCase();
+  return isCurrencyCode(upper) ? CURRENCIES[upper] : undefined;
+};
+
+/**
+ * Look up a currency by its token symbol, e.g. `TEUR`
+ */
+export const getCurrencyBySymbol = (symbol: string): CatalogCurrency | undefined => {
+  return CURRENCY_LIST.find(currency => currency.tokenSymbol === symbol);
+};
+
+export const getCurrenciesByKind = (kind: CurrencyKind): CatalogCurrency[] => {
+  return CURRENCY_LIST.filter(currency => currency.kind === kind);
+};
+
+/**
+ * Currencies traded against the quote currency, one DEX pool each
+ */
+export const getPoolCurrencies = (): CatalogCurrency[] => {
+  return CURRENCY_LIST.filter(currency => currency.code !== QUOTE_CURRENCY);
+};
@@ -0,0 +1,287 @@
+import { execSync } from 'child_process';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import path from 'path';
+
+/**
+ * On-disk deployment registry, one versioned JSON file per network.
+ * Deploy, link and collateral scripts write here; config/contracts.ts reads from here.
+ */
+
+export const DEPLOYMENT_RECORD_SCHEMA_VERSION = 1;
+
+export type DeploymentAction = 'deploy' | 'link' | 'collateral' | 'config' | 'ownership';
+
+export interface DeployedContractRecord {
+  address: string;
+  // Constructor arguments, for source verification
+  args?: unknown[];
+  transactionHash?: string;
+  blockNumber?: number;
+  deployer?: string;
+  gitCommit?: string;
+  updatedAt: string;
+}
+
+export interface DeploymentHistoryEntry {
+  // Record version this entry produced
+  version: number;
+  action: DeploymentAction;
+  // Contract slot, e.g. `torqueDEX`, `engines.EUR` or `currencies.USD`
+  contract?: string;
+  address?: string;
+  previousAddress?: string;
+  description?: string;
+  deployer?: string;
+  transactionHash?: string;
+  blockNumber?: number;
+  gitCommit?: string;
+  timestamp: string;
+}
+
+export type CheckpointStatus = 'pending' | 'done';
+
+export interface DeploymentCheckpoint {
+  status: CheckpointStatus;
+  // Contract slot the step deploys or configures
+  contract?: string;
+  // For deploy steps, the address the transaction creates, predicted from the deployer nonce before sending
+  address?: string;
+  // For deploy steps, the constructor arguments sent
+  args?: unknown[];
+  transactionHash?: string;
+  updatedAt: string;
+}
+
+export interface DeploymentRecord {
+  schemaVersion: number;
+  network: string;
+  chainId: number;
+  // Incremented on every write that changes the record
+  version: number;
+  updatedAt: string;
+  deployer?: string;
+  // Keyed by contract slot, e.g. `torqueDEX`, `engines.EUR` or `currencies.USD`
+  contracts: Record<string, DeployedContractRecord>;
+  history: DeploymentHistoryEntry[];
+  // Progress of deploy steps keyed by step, e.g. `deploy:engines.EUR` or `torqueDEX.setDefaultQuoteAsset`
+  checkpoints?: Record<string, DeploymentCheckpoint>;
+}
+
+export interface ContractDeployment {
+  contract: string;
+  address: string;
+  args?: unknown[];
+  transactionHash?: string;
+  blockNumber?: number;
+}
+
+export interface DeploymentActionInput {
+  action: Exclude<DeploymentAction, 'deploy'>;
+  contract?: string;
+  description: string;
+  transactionHash?: string;
+  blockNumber?: number;
+}
+
+export interface DeploymentMetadata {
+  deployer?: string;
+  gitCommit?: string;
+}
+
+/**
+ * Directory holding the registry files, overridable with TORQUE_DEPLOYMENTS_DIR
+ */
+export const getDeploymentsDir = (): string => {
+  return process.env.TORQUE_DEPLOYMENTS_DIR || path.resolve(__dirname, 'deployments');
+};
+
+export const getDeploymentRecordPath = (network: string): string => {
+  return path.join(getDeploymentsDir(), `${network}.json`);
+};
+
+let cachedGitCommit: string | null | undefined;
+
+/**
+ * Current git commit of the working tree, undefined outside a git checkout
+ */
+export const getGitCommit = (): string | undefined => {
+  if (cachedGitCommit === undefined) {
+    try {
+      cachedGitCommit = execSync('git rev-parse HEAD', { stdio: ['ignore', 'pipe', 'ignore'] })
+        .toString()
+        .trim();
+    } catch {
+      cachedGitCommit = null;
+    }
+  }
+  return cachedGitCommit ?? undefined;
+};
+
+export const loadDeploymentRecord = (network: string): DeploymentRecord | undefined => {
+  const file = getDeploymentRecordPath(network);
+  if (!existsSync(file)) return undefined;
+
+  const record = JSON.parse(readFileSync(file, 'utf8')) as DeploymentRecord;
+  if (record.schemaVersion > DEPLOYMENT_RECORD_SCHEMA_VERSION) {
+    throw new Error(
+      `Deployment record ${file} uses schema v${record.schemaVersion}, this tooling supports v${DEPLOYMENT_RECORD_SCHEMA_VERSION}`
+    );
+  }
+
+  return record;
+};
+
+export const saveDeploymentRecord = (record: DeploymentRecord): void => {
+  const file = getDeploymentRecordPath(record.network);
+  mkdirSync(path.dirname(file), { recursive: true });
+
+  // Write-then-rename so an interrupted run never leaves a truncated record
+  const tmp = `${file}.tmp`;
+  writeFileSync(tmp, `${JSON.stringify(record, null, 2)}\n`);
+  renameSync(tmp, file);
+};
+
+const loadOrCreateRecord = (network: string, chainId: number): DeploymentRecord => {
+  const record = loadDeploymentRecord(network);
+  if (record) {
+    if (record.chainId !== chainId) {
+      throw new Error(`Deployment record for ${network} is for chain ${record.chainId}, not ${chainId}`);
+    }
+    return record;
+  }
+
+  return {
+    schemaVersion: DEPLOYMENT_RECORD_SCHEMA_VERSION,
+    network,
+    chainId,
+    version: 0,
+    updatedAt: new Date().toISOString(),
+    contracts: {},
+    history: [],
+  };
+};
+
+/**
+ * Record deployed contract addresses. Unchanged addresses are ignored, changed ones
+ * bump the record version and append a history entry.
+ */
+export const recordContracts = (
+  network: string,
+  chainId: number,
+  contracts: ContractDeployment[],
+  metadata: DeploymentMetadata = {}
+): DeploymentRecord => {
+  const record = loadOrCreateRecord(network, chainId);
+  const timestamp = new Date().toISOString();
+  const gitCommit = metadata.gitCommit ?? getGitCommit();
+  let changed = false;
+
+  for (const deployment of contracts) {
+    const previous = record.contracts[deployment.contract];
+    if (previous && previous.address.toLowerCase() === deployment.address.toLowerCase()) {
+      continue;
+    }
+
+    if (!changed) {
+      record.version += 1;
+      changed = true;
+    }
+
+    record.contracts[deployment.contract] = {
+      address: deployment.address,
+      args: deployment.args,
+      transactionHash: deployment.transactionHash,
+      blockNumber: deployment.blockNumber,
+      deployer: metadata.deployer,
+      gitCommit,
+      updatedAt: timestamp,
+    };
+    record.history.push({
+      version: record.version,
+      action: 'deploy',
+      contract: deployment.contract,
+      address: deployment.address,
+      previousAddress: previous?.address,
+      deployer: metadata.deployer,
+      transactionHash: deployment.transactionHash,
+      blockNumber: deployment.blockNumber,
+      gitCommit,
+      timestamp,
+    });
+  }
+
+  if (changed) {
+    record.updatedAt = timestamp;
+    record.deployer = metadata.deployer ?? record.deployer;
+    saveDeploymentRecord(record);
+  }
+
+  return record;
+};
+
+/**
+ * Record a configuration transaction (linking, collateral onboarding, ...) against a deployment
+ */
+export const recordDeploymentAction = (
+  network: string,
+  chainId: number,
+  input: DeploymentActionInput,
+  metadata: DeploymentMetadata = {}
+): DeploymentRecord => {
+  const record = loadOrCreateRecord(network, chainId);
+  const timestamp = new Date().toISOString();
+
+  record.version += 1;
+  record.updatedAt = timestamp;
+  record.history.push({
+    version: record.version,
+    ...input,
+    deployer: metadata.deployer,
+    gitCommit: metadata.gitCommit ?? getGitCommit(),
+    timestamp,
+  });
+
+  saveDeploymentRecord(record);
+  return record;
+};
+
+/**
+ * History entries for one contract slot, oldest first
+ */
+export const getContractHistory = (network: string, contract: string): DeploymentHistoryEntry[] => {
+  const record = loadDeploymentRecord(network);
+  if (!record) return [];
+
+  return record.history.filter(entry => entry.contract === contract);
+};
+
+/**
+ * Save the progress of a deploy step. Checkpoints do not bump the record version.
+ */
+export const recordCheckpoint = (
+  network: string,
+  chainId: number,
+  step: string,
+  checkpoint: Omit<DeploymentCheckpoint, 'updatedAt'>
+): DeploymentRecord => {
+  const record = loadOrCreateRecord(network, chainId);
+  record.checkpoints = {
+    ...record.checkpoints,
+    [step]: { ...checkpoint, updatedAt: new Date().toISOString() },
+  };
+
+  saveDeploymentRecord(record);
+  return record;
+};
+
+export const getCheckpoint = (network: string, step: string): DeploymentCheckpoint | undefined => {
+  return loadDeploymentRecord(network)?.checkpoints?.[step];
+};
+
+/**
+ * Steps a previous run started but did not finish
+ */
+export const getPendingCheckpoints = (network: string): [string, DeploymentCheckpoint][] => {
+  return Object.entries(loadDeploymentRecord(network)?.checkpoints ?? {})
+    .filter(([, checkpoint]) => checkpoint.status === 'pending');
+};
@@ -0,0 +1,86 @@
+import { AbiCoder, concat, getAddress, getCreate2Address, getCreateAddress, keccak256, toUtf8Bytes, zeroPadValue } from 'ethers';
+
+/**
+ * Deterministic deployment through the CreateX factory: slots with a salt land at an address
+ * that depends on the deployer and the salt only (CREATE3), or also on the init code (CREATE2),
+ * so the same contract has the same address on every chain.
+ */
+
+export type DeterministicMode = 'create2' | 'create3';
+
+export interface DeterministicDeploymentConfig {
+  // Deploy the salted slots through the factory; off, every contract deploys from the deployer nonce
+  enabled: boolean;
+  factory: string;
+  // create3 ignores the constructor arguments, which differ per chain (e.g. the Sonic endpoint)
+  mode: DeterministicMode;
+  // Salt label per registry slot, change it to deploy a fresh instance at a new address
+  salts: Record<string, string>;
+}
+
+// CreateX, deployed at this address on every supported chain
+export const CREATEX_FACTORY = '0xba5Ed099633D3B313e4D5F7bdc1305d3c28ba5Ed';
+
+// Init code of the proxy CreateX deploys with CREATE2 for each CREATE3 deployment
+const CREATE3_PROXY_INIT_CODE = '0x67363d3d37363d34f03d5260086018f3';
+
+// Only contracts taking their owner as a constructor argument: a contract that makes msg.sender
+// its owner would be owned by the factory
+export const DETERMINISTIC_DEPLOYMENT: DeterministicDeploymentConfig = {
+  enabled: false,
+  factory: CREATEX_FACTORY,
+  mode: 'create3',
+  salts: {
+    torque: 'torque:v1',
+    torqueLP: 'torqueLP:v1',
+    torqueDEX: 'torqueDEX:v1',
+    torqueStake: 'torqueStake:v1',
+    torqueBatchHandler: 'torqueBatchHandler:v1',
+  },
+};
+
+/**
+ * Salt label of a slot when deterministic deployment is on, undefined for nonce deployments
+ */
+export const getDeterministicSalt = (
+  slot: string,
+  config: DeterministicDeploymentConfig = DETERMINISTIC_DEPLOYMENT
+): string | undefined => {
+  return config.enabled ? config.salts[slot] : undefined;
+};
+
+/**
+ * CreateX salt for a label: the deployer in the first 20 bytes so no one else can take the
+ * address, a zero byte that keeps it the same across chains, then 11 bytes of the label hash
+ */
+export const getFactorySalt = (deployer: string, label: string): string => {
+  return concat([getAddress(deployer), '0x00', keccak256(toUtf8Bytes(label)).slice(0, 24)]);
+};
+
+/**
+ * Salt CreateX derives from a deployer-guarded salt before deploying
+ */
+export const getGuardedSalt = (deployer: string, salt: string): string => {
+  return keccak256(AbiCoder.defaultAbiCoder().encode(['bytes32', 'bytes32'], [zeroPadValue(getAddress(deployer), 32), salt]));
+};
+
+/**
+ * Address a salted deployment lands at. `initCode` is only needed for create2.
+ */
+export const predictDeterministicAddress = (
+  mode: DeterministicMode,
+  factory: string,
+  deployer: string,
+  label: string,
+  initCode?: string
+): string => {
+  const guardedSalt = getGuardedSalt(deployer, getFactorySalt(deployer, label));
+  if (mode === 'create2') {
+    if (!initCode) {
+      throw new Error('CREATE2 addresses depend on the init code');
+    }
+    return getCreate2Address(factory, guardedSalt, keccak256(initCode));
+  }
+  const proxy = getCreate2Address(factory, guardedSalt, keccak256(CREATE3_PROXY_INIT_CODE));
+  return getCreateAddress({ from: proxy, nonce: 1 });
+};
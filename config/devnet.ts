@@ -0,0 +1,142 @@
+import path from 'path';
+import type { NetworksUserConfig } from 'hardhat/types';
+import { CHAINS } from './chains';
+import { getNetworkEnvPrefix } from './hardhat';
+import { getLayerZeroConfig } from './layerzero';
+
+/**
+ * Local multi-chain devnet: one hardhat node per network, running with the network's real
+ * chain ID so CHAINS, LAYERZERO and the registries resolve as they do live. `torque:devnet`
+ * installs a LayerZero endpoint at the configured address of each chain and relays the
+ * messages between them. The endpoints run with the legacy uint16 chain IDs as their eids, so
+ * TorqueBatchHandler, TorqueDEX and TorqueStake reach each other.
+ */
+
+type Env = Record<string, string | undefined>;
+
+export interface DevnetRelayerConfig {
+  // Delay between a packet being sent and its first delivery attempt
+  latencyMs: number;
+  // Native fee the message library charges per message, in wei
+  nativeFee: bigint;
+  // Probability that a packet is lost; later packets on its pathway cannot execute after it
+  dropRate: number;
+  // Probability that a delivery attempt fails before reaching the destination
+  failureRate: number;
+  retryDelayMs: number;
+  // Attempts before a packet is marked failed, receiver reverts count as attempts too
+  maxAttempts: number;
+  pollIntervalMs: number;
+}
+
+export interface DevnetConfig {
+  networks: string[];
+  // RPC port of the first network, the others follow
+  basePort: number;
+  // Registry and hardhat-deploy files of the devnet, kept apart from the live deployments
+  dir: string;
+  // Answer of the mock price feeds by pair, 1.0 for pairs not listed
+  prices: Record<string, number>;
+  relayer: DevnetRelayerConfig;
+}
+
+// Hardhat's first default account, funded on every hardhat node
+export const DEVNET_PRIVATE_KEY = '0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80';
+
+// Hardhat's second default account, only the relayer sends from it so their nonces never clash
+export const DEVNET_RELAYER_PRIVATE_KEY = '0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d';
+
+export const DEVNET: DevnetConfig = {
+  // Mainnets, the legacy contracts need their uint16 chain IDs
+  networks: ['arbitrum', 'base', 'optimism'],
+  basePort: 9545,
+  dir: path.resolve(__dirname, '../.devnet'),
+  prices: {
+    EUR_USD: 1.08,
+    GBP_USD: 1.27,
+    JPY_USD: 0.0067,
+    AUD_USD: 0.66,
+    CAD_USD: 0.73,
+    CHF_USD: 1.12,
+    CNY_USD: 0.14,
+    KRW_USD: 0.00073,
+    NZD_USD: 0.6,
+    XAU_USD: 2350,
+    XAG_USD: 29,
+    ETH_USD: 3000,
+    BTC_USD: 60000,
+    CBBTC_USD: 60000,
+    TBTC_USD: 60000,
+    LINK_USD: 15,
+    AAVE_USD: 100,
+    COMP_USD: 50,
+  },
+  relayer: {
+    latencyMs: 2000,
+    // The legacy contracts send without paying a fee, batchMint is not even payable
+    nativeFee: 0n,
+    dropRate: 0,
+    failureRate: 0,
+    retryDelayMs: 5000,
+    maxAttempts: 3,
+    pollIntervalMs: 500,
+  },
+};
+
+export const getDevnetRpcUrl = (index: number, config: DevnetConfig = DEVNET): string => {
+  return `http://127.0.0.1:${config.basePort + index}`;
+};
+
+/**
+ * Environment of the processes working against the devnet: the devnet networks point at
+ * their nodes and sign with the devnet key, and the registry lives in the devnet directory
+ */
+export const getDevnetEnv = (networks: string[], config: DevnetConfig = DEVNET): Record<string, string> => {
+  const env: Record<string, string> = {
+    TORQUE_DEVNET: networks.join(','),
+    TORQUE_DEVNET_DIR: config.dir,
+    TORQUE_DEPLOYMENTS_DIR: path.join(config.dir, 'registry'),
+  };
+  networks.forEach((network, index) => {
+    env[`${getNetworkEnvPrefix(network)}_RPC_URL`] = getDevnetRpcUrl(index, config);
+    env[`${getNetworkEnvPrefix(network)}_PRIVATE_KEY`] = DEVNET_PRIVATE_KEY;
+  });
+  return env;
+};
+
+/**
+ * LayerZero eid of a network's endpoint. Devnet endpoints use the legacy chain ID, which the
+ * legacy contracts send to and read their source as; live endpoints, and devnet networks
+ * without a legacy chain ID, use the v2 eid.
+ */
+export const getEndpointEid = (network: string, env: Env = process.env): number | undefined => {
+  const config = getLayerZeroConfig(network);
+  const devnet = env.TORQUE_DEVNET?.split(',').includes(network);
+  return devnet ? config?.legacyChainId ?? config?.eid : config?.eid;
+};
+
+/**
+ * Hardhat networks with the devnet applied: a node started for a devnet network
+ * (`TORQUE_DEVNET_NODE`) runs with its chain ID and accepts TorqueDEX over the contract size
+ * limit, and devnet networks are not live, so nothing is verified on their explorers
+ */
+export const applyDevnetNetworks = (networks: NetworksUserConfig, env: Env = process.env): NetworksUserConfig => {
+  const applied = { ...networks };
+  const node = env.TORQUE_DEVNET_NODE;
+  if (node && CHAINS[node]) {
+    applied.hardhat = { ...applied.hardhat, chainId: CHAINS[node].id, allowUnlimitedContractSize: true };
+  }
+  for (const network of env.TORQUE_DEVNET?.split(',') ?? []) {
+    if (applied[network]) {
+      applied[network] = { ...applied[network], live: false };
+    }
+  }
+  return applied;
+};
+
+/**
+ * hardhat-deploy directory, inside the devnet directory while the devnet is active
+ */
+export const getDeploymentsPath = (env: Env = process.env): string => {
+  return env.TORQUE_DEVNET && env.TORQUE_DEVNET_DIR ? path.join(env.TORQUE_DEVNET_DIR, 'hardhat-deploy') : 'deployments';
+};
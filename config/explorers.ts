@@ -0,0 +1,105 @@
+import { CHAINS } from './chains';
+
+/**
+ * Block explorer and LayerZeroScan link builders. Scripts print these next to raw
+ * addresses and hashes so their output is clickable.
+ */
+
+export type ExplorerLinkKind = 'tx' | 'address' | 'token' | 'block' | 'code';
+
+// Path templates appended to `blockExplorers.url`, `{value}` is replaced by the hash, address or block
+export type ExplorerPaths = Record<ExplorerLinkKind, string>;
+
+export const ETHERSCAN_PATHS: ExplorerPaths = {
+  tx: '/tx/{value}',
+  address: '/address/{value}',
+  token: '/token/{value}',
+  block: '/block/{value}',
+  code: '/address/{value}#code',
+};
+
+export const LAYERZERO_SCAN_URLS = {
+  mainnet: 'https://layerzeroscan.com',
+  testnet: 'https://testnet.layerzeroscan.com',
+};
+
+// LayerZero Scan API, the web UI only resolves source transaction hashes
+export const LAYERZERO_SCAN_API_URLS = {
+  mainnet: 'https://scan.layerzero-api.com/v1',
+  testnet: 'https://scan-testnet.layerzero-api.com/v1',
+};
+
+/**
+ * Explorer link for a network, undefined for networks without an explorer (hardhat, localhost)
+ */
+export const getExplorerLink = (
+  network: string,
+  kind: ExplorerLinkKind,
+  value: string | number | bigint
+): string | undefined => {
+  const explorer = CHAINS[network]?.blockExplorers;
+  if (!explorer?.url) return undefined;
+
+  const template = explorer.paths?.[kind] ?? ETHERSCAN_PATHS[kind];
+  return `${explorer.url.replace(/\/+$/, '')}${template.replace('{value}', value.toString())}`;
+};
+
+export const getTxUrl = (network: string, hash: string): string | undefined => {
+  return getExplorerLink(network, 'tx', hash);
+};
+
+export const getAddressUrl = (network: string, address: string): string | undefined => {
+  return getExplorerLink(network, 'address', address);
+};
+
+export const getTokenUrl = (network: string, address: string): string | undefined => {
+  return getExplorerLink(network, 'token', address);
+};
+
+export const getBlockUrl = (network: string, block: number | bigint): string | undefined => {
+  return getExplorerLink(network, 'block', block);
+};
+
+/**
+ * Page showing a contract's verified source
+ */
+export const getVerificationUrl = (network: string, address: string): string | undefined => {
+  return getExplorerLink(network, 'code', address);
+};
+
+const layerZeroStage = (network: string): keyof typeof LAYERZERO_SCAN_URLS => {
+  return CHAINS[network]?.testnet ? 'testnet' : 'mainnet';
+};
+
+/**
+ * LayerZeroScan page for the messages sent by a source-chain transaction
+ */
+export const getLayerZeroScanTxUrl = (network: string, txHash: string): string => {
+  return `${LAYERZERO_SCAN_URLS[layerZeroStage(network)]}/tx/${txHash}`;
+};
+
+/**
+ * LayerZeroScan record for a single message, looked up by its GUID
+ */
+export const getLayerZeroScanGuidUrl = (network: string, guid: string): string => {
+  return `${LAYERZERO_SCAN_API_URLS[layerZeroStage(network)]}/messages/guid/${guid}`;
+};
+
+/**
+ * `0xabc… (https://explorer/address/0xabc…)`, or the bare address without an explorer
+ */
+export const formatAddress = (network: string, address: string): string => {
+  const url = getAddressUrl(network, address);
+  return url ? `${address} (${url})` : address;
+};
+
+export const formatToken = (network: string, address: string): string => {
+  const url = getTokenUrl(network, address);
+  return url ? `${address} (${url})` : address;
+};
+
+export const formatTx = (network: string, hash: string | undefined): string => {
+  if (!hash) return 'n/a';
+  const url = getTxUrl(network, hash);
+  return url ? `${hash} (${url})` : hash;
+};
@@ -0,0 +1,138 @@
+import type { HttpNetworkAccountsUserConfig, HttpNetworkUserConfig } from 'hardhat/types';
+import { CHAINS, ChainConfig } from './chains';
+
+/**
+ * Hardhat `networks` and `etherscan` sections generated from CHAINS
+ */
+
+type Env = Record<string, string | undefined>;
+
+export interface HardhatEtherscanCustomChain {
+  network: string;
+  chainId: number;
+  urls: {
+    apiURL: string;
+    browserURL: string;
+  };
+}
+
+export interface HardhatEtherscanConfig {
+  apiKey: Record<string, string>;
+  customChains: HardhatEtherscanCustomChain[];
+}
+
+/**
+ * Env var prefix for a network key, e.g. `arbitrumSepolia` -> `ARBITRUM_SEPOLIA`
+ */
+export const getNetworkEnvPrefix = (network: string): string => {
+  return network
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9]+/g, '_')
+    .toUpperCase();
+};
+
+const firstEnv = (env: Env, names: string[]): string | undefined => {
+  for (const name of names) {
+    const value = env[name]?.trim();
+    if (value) return value;
+  }
+  return undefined;
+};
+
+/**
+ * RPC URL for a network: `<NETWORK>_RPC_URL` when set, otherwise the first public RPC in CHAINS
+ */
+export const getNetworkRpcUrl = (network: string, chain: ChainConfig, env: Env = process.env): string => {
+  return firstEnv(env, [`${getNetworkEnvPrefix(network)}_RPC_URL`]) ?? chain.rpcUrls.http[0] ?? '';
+};
+
+/**
+ * Signer accounts for a network, resolved from `<NETWORK>_PRIVATE_KEY`, `PRIVATE_KEY` or `MNEMONIC`.
+ * Returns no accounts when nothing is set so read-only tasks still load the config.
+ */
+export const getNetworkAccounts = (network: string, env: Env = process.env): HttpNetworkAccountsUserConfig => {
+  const privateKey = firstEnv(env, [`${getNetworkEnvPrefix(network)}_PRIVATE_KEY`, 'PRIVATE_KEY']);
+  if (privateKey) {
+    return [privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`];
+  }
+
+  const mnemonic = firstEnv(env, ['MNEMONIC']);
+  if (mnemonic) {
+    return { mnemonic };
+  }
+
+  return [];
+};
+
+/**
+ * Explorer API base URL without the trailing `/api`, as expected by hardhat-deploy
+ */
+export const getExplorerApiBase = (chain: ChainConfig): string => {
+  return chain.blockExplorers.apiUrl.replace(/\/+$/, '').replace(/\/api$/, '');
+};
+
+export const getExplorerApiKey = (network: string, chain: ChainConfig, env: Env = process.env): string => {
+  return firstEnv(env, [
+    `${getNetworkEnvPrefix(network)}_EXPLORER_API_KEY`,
+    ...(chain.blockExplorers.apiKeyEnv ?? []),
+  ]) ?? '';
+};
+
+export const buildHardhatNetwork = (
+  network: string,
+  chain: ChainConfig,
+  env: Env = process.env
+): HttpNetworkUserConfig => {
+  return {
+    url: getNetworkRpcUrl(network, chain, env),
+    chainId: chain.id,
+    accounts: getNetworkAccounts(network, env),
+    live: true,
+    saveDeployments: true,
+    tags: [chain.testnet ? 'testnet' : 'mainnet'],
+    verify: {
+      etherscan: {
+        apiUrl: getExplorerApiBase(chain),
+        apiKey: getExplorerApiKey(network, chain, env) || undefined,
+      },
+    },
+  };
+};
+
+export const buildHardhatNetworks = (
+  chains: Record<string, ChainConfig> = CHAINS,
+  env: Env = process.env
+): Record<string, HttpNetworkUserConfig> => {
+  const networks: Record<string, HttpNetworkUserConfig> = {};
+
+  for (const [network, chain] of Object.entries(chains)) {
+    networks[network] = buildHardhatNetwork(network, chain, env);
+  }
+
+  return networks;
+};
+
+/**
+ * hardhat-verify config with one custom chain per network, keyed by the hardhat network name
+ */
+export const buildEtherscanConfig = (
+  chains: Record<string, ChainConfig> = CHAINS,
+  env: Env = process.env
+): HardhatEtherscanConfig => {
+  const apiKey: Record<string, string> = {};
+  const customChains: HardhatEtherscanCustomChain[] = [];
+
+  for (const [network, chain] of Object.entries(chains)) {
+    apiKey[network] = getExplorerApiKey(network, chain, env);
+    customChains.push({
+      network,
+      chainId: chain.id,
+      urls: {
+        apiURL: `${getExplorerApiBase(chain)}/api`,
+        browserURL: chain.blockExplorers.url,
+      },
+    });
+  }
+
+  return { apiKey, customChains };
+};
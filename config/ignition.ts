@@ -0,0 +1,49 @@
+import { getCollateralAddress } from './collaterals';
+import { CURRENCY_LIST, CurrencyCode } from './currencies';
+import { getLayerZeroConfig } from './layerzero';
+import { getPriceFeedAddress } from './priceFeeds';
+
+/**
+ * Parameters for the Ignition modules in ignition/modules, keyed by module ID. Values shared
+ * by every module go under `$global`.
+ */
+export type IgnitionParameters = Record<string, Record<string, string>>;
+
+// Collateral every engine is deployed against, as in deploy/02_engines.ts
+export const IGNITION_COLLATERAL = 'USDC';
+
+/**
+ * Module ID of a currency's engine, also its key in IgnitionParameters
+ */
+export const getEngineModuleId = (code: CurrencyCode): string => `Engine${code}`;
+
+/**
+ * Currencies whose engine can be deployed on a network, i.e. whose price feed is listed there
+ */
+export const getIgnitionEngines = (network: string): CurrencyCode[] => {
+  return CURRENCY_LIST
+    .filter(currency => getPriceFeedAddress(network, currency.feedPair) !== undefined)
+    .map(currency => currency.code);
+};
+
+/**
+ * Ignition parameters for a network key in CHAINS, throws when the network has no
+ * LayerZero endpoint or collateral token
+ */
+export const buildIgnitionParameters = (network: string): IgnitionParameters => {
+  const lzEndpoint = getLayerZeroConfig(network)?.endpoint;
+  if (!lzEndpoint) {
+    throw new Error(`No LayerZero endpoint configured for ${network}`);
+  }
+  const collateralToken = getCollateralAddress(IGNITION_COLLATERAL, network);
+  if (!collateralToken) {
+    throw new Error(`No ${IGNITION_COLLATERAL} address configured for ${network}`);
+  }
+
+  const parameters: IgnitionParameters = { $global: { lzEndpoint, collateralToken } };
+  for (const code of getIgnitionEngines(network)) {
+    const currency = CURRENCY_LIST.find(entry => entry.code === code)!;
+    parameters[getEngineModuleId(code)] = { priceFeed: getPriceFeedAddress(network, currency.feedPair)! };
+  }
+  return parameters;
+};
@@ -1,17 +1,53 @@
 // Export all configuration modules
 export * from './chains';
 export * from './collateral';
+export * from './collaterals';
 export * from './contracts';
+export * from './currencies';
+export * from './priceFeeds';
+export * from './layerzero';
+export * from './providers';
+export * from './explorers';
+export * from './deployments';
+export * from './deterministic';
+export * from './devnet';
+export * from './snapshots';
+export * from './ignition';
+export * from './invariants';
+export * from './messaging';
+export * from './safes';
 export * from './utils';
+export * from './validate';
 
 // Re-export commonly used types and constants
 export type { ChainConfig } from './chains';
 export type { CollateralToken } from './collateral';
+export type { CollateralConfig, CollateralCategory } from './collaterals';
 export type { ContractAddresses, DeploymentConfig } from './contracts';
+export type { CurrencyConfig, CurrencyCode, CurrencyKind, CatalogCurrency } from './currencies';
+export type { PriceFeedConfig } from './priceFeeds';
+export type { LayerZeroConfig } from './layerzero';
+export type { RpcProviderOptions, RpcEndpointHealth } from './providers';
+export type { ExplorerLinkKind, ExplorerPaths } from './explorers';
+export type { DeploymentRecord, DeploymentHistoryEntry, DeploymentCheckpoint } from './deployments';
+export type { DeterministicDeploymentConfig, DeterministicMode } from './deterministic';
+export type { DevnetConfig, DevnetRelayerConfig } from './devnet';
+export type { DeploymentSnapshot, DeploymentDiff, DeploymentChange } from './snapshots';
+export type { IgnitionParameters } from './ignition';
+export type { InvariantCheck, ChainInvariantReport } from './invariants';
+export type { LayerZeroProtocolConfig, OAppMessageType, OAppPathway } from './messaging';
 
 // Export commonly used constants
 export { CHAINS, MAINNET_CHAINS, TESTNET_CHAINS } from './chains';
 export { collateralTokens } from './collateral';
+export { COLLATERALS, STABLECOINS, CRYPTO_COLLATERALS } from './collaterals';
+export { CURRENCIES, CURRENCY_CODES, CURRENCY_LIST, QUOTE_CURRENCY } from './currencies';
+export { PRICE_FEEDS, ORACLE_LIB_TIMEOUT } from './priceFeeds';
+export { LAYERZERO } from './layerzero';
+export { LAYERZERO_PROTOCOL, OAPP_MESSAGING } from './messaging';
+export { CREATEX_FACTORY, DETERMINISTIC_DEPLOYMENT } from './deterministic';
+export { DEVNET } from './devnet';
+export { SAFES } from './safes';
 export { 
   MAINNET_DEPLOYMENTS, 
   TESTNET_DEPLOYMENTS, 
@@ -32,7 +68,54 @@ export {
   getMainnetDeployments,
   getTestnetDeployments,
   updateDeployment,
+  reloadDeployment,
   getContractAddress,
   getEngineAddress,
   getCurrencyAddress,
-} from './contracts'; 
\ No newline at end of file
+} from './contracts';
+
+export {
+  getPriceFeed,
+  getPriceFeedAddress,
+  getPriceFeedsForPair,
+  getStalenessTimeout,
+  isPriceStale,
+} from './priceFeeds';
+
+export {
+  getEndpointForChainId,
+  getLegacyChainId,
+  getNetworkByEndpointId,
+} from './layerzero';
+
+export {
+  createChainProvider,
+  getNetworkProvider,
+  getRpcHealth,
+} from './providers';
+
+export {
+  getTxUrl,
+  getAddressUrl,
+  getTokenUrl,
+  getBlockUrl,
+  getVerificationUrl,
+  getLayerZeroScanTxUrl,
+  getLayerZeroScanGuidUrl,
+} from './explorers';
+
+export {
+  loadDeploymentRecord,
+  recordContracts,
+  recordDeploymentAction,
+  getContractHistory,
+  recordCheckpoint,
+  getPendingCheckpoints,
+} from './deployments'; 
+
+export {
+  loadSnapshot,
+  readLiveSnapshot,
+  diffSnapshots,
+  formatDeploymentDiff,
+} from './snapshots';
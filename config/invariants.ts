@@ -0,0 +1,267 @@
+import { Contract, Provider, solidityPackedKeccak256 } from 'ethers';
+import { getChainKey } from './chains';
+import { getEngineCollaterals } from './collaterals';
+import { CURRENCIES, CURRENCY_LIST, QUOTE_CURRENCY, getPoolCurrencies } from './currencies';
+import { loadDeploymentRecord } from './deployments';
+import { getLayerZeroConfig } from './layerzero';
+import { getPriceFeedAddress } from './priceFeeds';
+
+/**
+ * Post-deployment invariants: on-chain wiring of a recorded deployment read back and
+ * compared with the config registries, reported as a pass/fail matrix per chain.
+ */
+
+export type InvariantStatus = 'pass' | 'fail' | 'skip';
+
+export interface InvariantCheck {
+  // Matrix row, e.g. `dex.pool.EUR` or `owner.engines.EUR`
+  id: string;
+  status: InvariantStatus;
+  expected?: string;
+  actual?: string;
+  // Why the check failed or was skipped
+  message?: string;
+}
+
+export interface ChainInvariantReport {
+  network: string;
+  chainId: number;
+  checks: InvariantCheck[];
+  passed: boolean;
+}
+
+export interface InvariantOptions {
+  // Expected owner of every contract, defaults to the recorded deployer
+  admin?: string;
+}
+
+const DEX_ABI = [
+  'function defaultQuoteAsset() view returns (address)',
+  'function hasPool(address baseToken, address quoteToken) view returns (bool)',
+];
+const BATCH_HANDLER_ABI = [
+  'function supportedCurrencies(address currency) view returns (bool)',
+  'function engineAddresses(address currency, uint16 chainId) view returns (address)',
+];
+const ENGINE_ABI = [
+  'function getPriceFeed() view returns (address)',
+  'function getSupportedCollateral() view returns (address[])',
+];
+const FX_ABI = [
+  'function dexPools(bytes32 pair) view returns (address)',
+  'function priceFeeds(bytes32 pair) view returns (address)',
+];
+const OWNER_ABI = ['function owner() view returns (address)'];
+
+/**
+ * TorqueFX pair ID of a base/quote token pair, as computed by TorqueFX.openPosition
+ */
+export const getFxPairId = (baseToken: string, quoteToken: string): string => {
+  return solidityPackedKeccak256(['address', 'address'], [baseToken, quoteToken]);
+};
+
+const sameAddress = (a?: string, b?: string): boolean => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+const readError = (error: unknown): string => {
+  const { shortMessage, message } = (error ?? {}) as { shortMessage?: string; message?: string };
+  return shortMessage ?? message ?? String(error);
+};
+
+type CheckOutcome = Omit<InvariantCheck, 'id' | 'status'> & { pass: boolean };
+
+/**
+ * Check the deployment recorded for a CHAINS network against its live state
+ */
+export const checkDeploymentInvariants = async (
+  network: string,
+  provider: Provider,
+  options: InvariantOptions = {}
+): Promise<ChainInvariantReport> => {
+  const record = loadDeploymentRecord(network);
+  if (!record) {
+    throw new Error(`No deployment recorded for ${network}`);
+  }
+  // A fork or devnet node of a chain is checked against that chain's registries
+  const chainKey = getChainKey(network, record.chainId);
+
+  const checks: InvariantCheck[] = [];
+  const address = (slot: string) => record.contracts[slot]?.address;
+  const skip = (id: string, message: string) => checks.push({ id, status: 'skip', message });
+  const check = async (id: string, slots: string[], read: () => Promise<CheckOutcome>) => {
+    const missing = slots.filter(slot => !address(slot));
+    if (missing.length > 0) {
+      checks.push({ id, status: 'fail', message: `${missing.join(', ')} not recorded` });
+      return;
+    }
+    try {
+      const { pass, ...details } = await read();
+      checks.push({ id, status: pass ? 'pass' : 'fail', ...details });
+    } catch (error) {
+      checks.push({ id, status: 'fail', message: `read failed: ${readError(error)}` });
+    }
+  };
+
+  const quoteSlot = `currencies.${QUOTE_CURRENCY}`;
+  const torqueUSD = address(quoteSlot);
+  const dex = new Contract(address('torqueDEX') ?? '', DEX_ABI, provider);
+  const batchHandler = new Contract(address('torqueBatchHandler') ?? '', BATCH_HANDLER_ABI, provider);
+  const fx = new Contract(address('torqueFX') ?? '', FX_ABI, provider);
+
+  await check('dex.defaultQuoteAsset', ['torqueDEX', quoteSlot], async () => {
+    const actual: string = await dex.defaultQuoteAsset();
+    return { pass: sameAddress(actual, torqueUSD), expected: torqueUSD, actual };
+  });
+
+  for (const currency of getPoolCurrencies()) {
+    const slot = `currencies.${currency.code}`;
+    await check(`dex.pool.${currency.code}`, ['torqueDEX', slot, quoteSlot], async () => {
+      const pass: boolean = await dex.hasPool(address(slot), torqueUSD);
+      return { pass, message: pass ? undefined : `no ${currency.tokenSymbol}/${CURRENCIES[QUOTE_CURRENCY].tokenSymbol} pool` };
+    });
+  }
+
+  for (const currency of getPoolCurrencies()) {
+    const slot = `currencies.${currency.code}`;
+    await check(`batchHandler.supportedCurrency.${currency.code}`, ['torqueBatchHandler', slot], async () => {
+      const pass: boolean = await batchHandler.supportedCurrencies(address(slot));
+      return { pass, message: pass ? undefined : `${currency.tokenSymbol} not supported` };
+    });
+  }
+
+  // TorqueBatchHandler keys engines by uint16 chain ID, which testnets do not have
+  const legacyChainId = getLayerZeroConfig(chainKey)?.legacyChainId;
+  for (const currency of CURRENCY_LIST) {
+    const engineSlot = `engines.${currency.code}`;
+    const id = `batchHandler.engine.${currency.code}`;
+    if (!address(engineSlot)) {
+      skip(id, 'engine not deployed');
+      continue;
+    }
+    if (legacyChainId === undefined) {
+      skip(id, `no legacy chain ID, TorqueBatchHandler does not map engines on ${network}`);
+      continue;
+    }
+    await check(id, ['torqueBatchHandler', `currencies.${currency.code}`], async () => {
+      // getEngineAddresses only scans chain IDs up to 1000
+      const actual: string = await batchHandler.engineAddresses(address(`currencies.${currency.code}`), legacyChainId);
+      return { pass: sameAddress(actual, address(engineSlot)), expected: address(engineSlot), actual };
+    });
+  }
+
+  for (const currency of CURRENCY_LIST) {
+    const engineSlot = `engines.${currency.code}`;
+    const expectedFeed = getPriceFeedAddress(chainKey, currency.feedPair);
+    if (!address(engineSlot)) {
+      const reason = expectedFeed ? 'engine not deployed' : `no ${currency.feedPair} price feed`;
+      skip(`engine.${currency.code}.priceFeed`, reason);
+      skip(`engine.${currency.code}.collateral`, reason);
+      continue;
+    }
+    const engine = new Contract(address(engineSlot)!, ENGINE_ABI, provider);
+    const collaterals = getEngineCollaterals(chainKey, currency.code);
+
+    await check(`engine.${currency.code}.priceFeed`, [engineSlot], async () => {
+      const actual: string = await engine.getPriceFeed();
+      return { pass: sameAddress(actual, expectedFeed), expected: expectedFeed, actual };
+    });
+    await check(`engine.${currency.code}.collateral`, [engineSlot], async () => {
+      const actual: string[] = await engine.getSupportedCollateral();
+      const expected = collaterals.map(collateral => collateral.addresses[chainKey]);
+      const missing = collaterals.filter(collateral => !actual.some(token => sameAddress(token, collateral.addresses[chainKey])));
+      const unexpected = actual.filter(token => !expected.some(entry => sameAddress(entry, token)));
+      return {
+        pass: missing.length === 0 && unexpected.length === 0,
+        expected: collaterals.map(collateral => collateral.symbol).join(', '),
+        actual: `${actual.length} token(s)`,
+        message: [
+          missing.length > 0 ? `missing ${missing.map(collateral => collateral.symbol).join(', ')}` : '',
+          unexpected.length > 0 ? `unexpected ${unexpected.join(', ')}` : '',
+        ].filter(Boolean).join('; ') || undefined,
+      };
+    });
+  }
+
+  for (const currency of getPoolCurrencies()) {
+    const slot = `currencies.${currency.code}`;
+    const feed = getPriceFeedAddress(chainKey, currency.feedPair);
+    await check(`fx.dexPool.${currency.code}`, ['torqueFX', 'torqueDEX', slot, quoteSlot], async () => {
+      const actual: string = await fx.dexPools(getFxPairId(address(slot)!, torqueUSD!));
+      return { pass: sameAddress(actual, address('torqueDEX')), expected: address('torqueDEX'), actual };
+    });
+    if (!feed) {
+      skip(`fx.priceFeed.${currency.code}`, `no ${currency.feedPair} price feed`);
+      continue;
+    }
+    await check(`fx.priceFeed.${currency.code}`, ['torqueFX', slot, quoteSlot], async () => {
+      const actual: string = await fx.priceFeeds(getFxPairId(address(slot)!, torqueUSD!));
+      return { pass: sameAddress(actual, feed), expected: feed, actual };
+    });
+  }
+
+  const admin = options.admin ?? record.deployer;
+  for (const slot of Object.keys(record.contracts)) {
+    const id = `owner.${slot}`;
+    if (!admin) {
+      skip(id, 'no expected admin, pass one or record a deployer');
+      continue;
+    }
+    await check(id, [slot], async () => {
+      const actual: string = await new Contract(address(slot)!, OWNER_ABI, provider).owner();
+      return { pass: sameAddress(actual, admin), expected: admin, actual };
+    });
+  }
+
+  return {
+    network,
+    chainId: record.chainId,
+    checks,
+    passed: checks.every(entry => entry.status !== 'fail'),
+  };
+};
+
+const STATUS_CELLS: Record<InvariantStatus, string> = {
+  pass: '✅',
+  fail: '❌',
+  skip: '➖',
+};
+
+/**
+ * Pass/fail matrix with one column per chain, followed by the failures
+ */
+export const formatInvariantMatrix = (reports: ChainInvariantReport[]): string => {
+  const ids = [...new Set(reports.flatMap(report => report.checks.map(entry => entry.id)))];
+  const width = Math.max('Check'.length, ...ids.map(id => id.length));
+  const cell = (text: string, network: string) => text.padEnd(Math.max(network.length, 2));
+
+  const lines = [
+    ['Check'.padEnd(width), ...reports.map(report => report.network)].join('  '),
+    ...ids.map(id => [
+      id.padEnd(width),
+      ...reports.map(report => {
+        const entry = report.checks.find(candidate => candidate.id === id);
+        return cell(entry ? STATUS_CELLS[entry.status] : '', report.network);
+      }),
+    ].join('  ').trimEnd()),
+  ];
+
+  const failures = reports.flatMap(report =>
+    report.checks
+      .filter(entry => entry.status === 'fail')
+      .map(entry => {
+        const values = entry.expected !== undefined || entry.actual !== undefined
+          ? ` expected ${entry.expected ?? '-'}, got ${entry.actual ?? '-'}`
+          : '';
+        return `  ${report.network} ${entry.id}:${values}${entry.message ? `${values ? ';' : ''} ${entry.message}` : ''}`;
+      })
+  );
+
+  lines.push('');
+  lines.push(...reports.map(report => {
+    const failed = report.checks.filter(entry => entry.status === 'fail').length;
+    return `${report.passed ? '✅' : '❌'} ${report.network}: ${report.checks.length - failed} of ${report.checks.length} checks passed or skipped`;
+  }));
+  if (failures.length > 0) {
+    lines.push('', 'Failures:', ...failures);
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,153 @@
+import { EndpointId } from '@layerzerolabs/lz-definitions';
+
+/**
+ * LayerZero identifiers and endpoints per network. CHAINS, the deployment scripts and the
+ * tests all read from here; config:validate checks it against lz-definitions and the contracts.
+ */
+
+export interface LayerZeroConfig {
+  // EVM chain ID, must match CHAINS[network].id
+  chainId: number;
+  // LayerZero v2 endpoint ID (uint32), used by OApp peers and the OFT currencies
+  eid: EndpointId;
+  // LayerZero v1 endpoint ID, kept for mapping older tooling and explorer links
+  v1EndpointId: EndpointId;
+  // EndpointV2 address passed to every OApp constructor
+  endpoint: string;
+  // uint16 chain ID TorqueBatchHandler, TorqueDEX and TorqueStake use; undefined when it does not fit
+  legacyChainId?: number;
+}
+
+// EndpointV2 is deployed at the same address on most chains
+const ENDPOINT_V2 = '0x1a44076050125825900e736c501f859c50fE728c';
+const ENDPOINT_V2_TESTNET = '0x6EDCE65403992e310A62460808c4b910D972f10f';
+
+export const LAYERZERO: Record<string, LayerZeroConfig> = {
+  // Mainnet chains
+  ethereum: {
+    chainId: 1,
+    eid: EndpointId.ETHEREUM_V2_MAINNET,
+    v1EndpointId: EndpointId.ETHEREUM_MAINNET,
+    endpoint: ENDPOINT_V2,
+    legacyChainId: 1,
+  },
+  arbitrum: {
+    chainId: 42161,
+    eid: EndpointId.ARBITRUM_V2_MAINNET,
+    v1EndpointId: EndpointId.ARBITRUM_MAINNET,
+    endpoint: ENDPOINT_V2,
+    legacyChainId: 42161,
+  },
+  optimism: {
+    chainId: 10,
+    eid: EndpointId.OPTIMISM_V2_MAINNET,
+    v1EndpointId: EndpointId.OPTIMISM_MAINNET,
+    endpoint: ENDPOINT_V2,
+    legacyChainId: 10,
+  },
+  polygon: {
+    chainId: 137,
+    eid: EndpointId.POLYGON_V2_MAINNET,
+    v1EndpointId: EndpointId.POLYGON_MAINNET,
+    endpoint: ENDPOINT_V2,
+    legacyChainId: 137,
+  },
+  base: {
+    chainId: 8453,
+    eid: EndpointId.BASE_V2_MAINNET,
+    v1EndpointId: EndpointId.BASE_MAINNET,
+    endpoint: ENDPOINT_V2,
+    legacyChainId: 8453,
+  },
+  bsc: {
+    chainId: 56,
+    eid: EndpointId.BSC_V2_MAINNET,
+    v1EndpointId: EndpointId.BSC_MAINNET,
+    endpoint: ENDPOINT_V2,
+    legacyChainId: 56,
+  },
+  avalanche: {
+    chainId: 43114,
+    eid: EndpointId.AVALANCHE_V2_MAINNET,
+    v1EndpointId: EndpointId.AVALANCHE_MAINNET,
+    endpoint: ENDPOINT_V2,
+    legacyChainId: 43114,
+  },
+  sonic: {
+    chainId: 146,
+    eid: EndpointId.SONIC_V2_MAINNET,
+    v1EndpointId: EndpointId.SONIC_MAINNET,
+    // Sonic launched after the shared EndpointV2 address was taken
+    endpoint: '0x6F475642a6e85809B1c36Fa62763669b1b48DD5B',
+    legacyChainId: 146,
+  },
+
+  // Testnet chains, their EVM chain IDs do not fit the legacy uint16 IDs
+  sepolia: {
+    chainId: 11155111,
+    eid: EndpointId.SEPOLIA_V2_TESTNET,
+    v1EndpointId: EndpointId.SEPOLIA_TESTNET,
+    endpoint: ENDPOINT_V2_TESTNET,
+  },
+  arbitrumSepolia: {
+    chainId: 421614,
+    eid: EndpointId.ARBSEP_V2_TESTNET,
+    v1EndpointId: EndpointId.ARBSEP_TESTNET,
+    endpoint: ENDPOINT_V2_TESTNET,
+  },
+  baseSepolia: {
+    chainId: 84532,
+    eid: EndpointId.BASESEP_V2_TESTNET,
+    v1EndpointId: EndpointId.BASESEP_TESTNET,
+    endpoint: ENDPOINT_V2_TESTNET,
+  },
+};
+
+const LAYERZERO_ENTRIES = Object.entries(LAYERZERO);
+
+export const getLayerZeroConfig = (network: string): LayerZeroConfig | undefined => {
+  return LAYERZERO[network];
+};
+
+export const getLayerZeroConfigByChainId = (chainId: number): LayerZeroConfig | undefined => {
+  return LAYERZERO_ENTRIES.find(([, config]) => config.chainId === chainId)?.[1];
+};
+
+/**
+ * Network key for a v2 EID or a v1 endpoint ID
+ */
+export const getNetworkByEndpointId = (endpointId: number): string | undefined => {
+  return LAYERZERO_ENTRIES.find(
+    ([, config]) => config.eid === endpointId || config.v1EndpointId === endpointId
+  )?.[0];
+};
+
+export const getNetworkByLegacyChainId = (legacyChainId: number): string | undefined => {
+  return LAYERZERO_ENTRIES.find(([, config]) => config.legacyChainId === legacyChainId)?.[0];
+};
+
+/**
+ * EndpointV2 address for a chain ID, throws for chains without LayerZero
+ */
+export const getEndpointForChainId = (chainId: number): string => {
+  const config = getLayerZeroConfigByChainId(chainId);
+  if (!config) {
+    throw new Error(`LayerZero endpoint not found for chain ID ${chainId}`);
+  }
+  return config.endpoint;
+};
+
+export const getEidForChainId = (chainId: number): number | undefined => {
+  return getLayerZeroConfigByChainId(chainId)?.eid;
+};
+
+/**
+ * uint16 chain ID the legacy cross-chain contracts expect for a network, throws when there is none
+ */
+export const getLegacyChainId = (network: string): number => {
+  const legacyChainId = LAYERZERO[network]?.legacyChainId;
+  if (legacyChainId === undefined) {
+    throw new Error(`No legacy uint16 chain ID configured for ${network}`);
+  }
+  return legacyChainId;
+};
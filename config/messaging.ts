@@ -0,0 +1,468 @@
+import type { OAppEdgeConfig, OAppOmniGraph } from '@layerzerolabs/ua-devtools';
+import { AbiCoder, Contract, Provider, concat, toBeHex, zeroPadValue } from 'ethers';
+import { CHAINS } from './chains';
+import { getOAppSlots } from './contracts';
+import { loadDeploymentRecord } from './deployments';
+import { ChainInvariantReport, InvariantCheck } from './invariants';
+import { getLayerZeroConfig } from './layerzero';
+
+/**
+ * LayerZero messaging config of the Torque OApps: message libraries, DVNs, block confirmations
+ * and executor gas per pathway, generated from the chain registry and the deployment records,
+ * and checked against what the endpoints return on-chain.
+ */
+
+export interface LayerZeroProtocolConfig {
+  // SendUln302 and ReceiveUln302 message libraries
+  sendLibrary: string;
+  receiveLibrary: string;
+  executor: string;
+  // DVN address on this chain by provider
+  dvns: Record<string, string>;
+  // Blocks DVNs wait on this chain before verifying a message it sent
+  confirmations: number;
+}
+
+export interface OAppMessageType {
+  name: string;
+  // Message type number the options are keyed by
+  msgType: number;
+  // lzReceive gas on the destination chain
+  gas: number;
+}
+
+export interface OAppMessagingConfig {
+  // The contract inherits OAppOptionsType3 and enforces the options on-chain; otherwise
+  // callers pass them as adapterParams
+  enforced: boolean;
+  messages: OAppMessageType[];
+}
+
+export interface OAppPathway {
+  slot: string;
+  from: string;
+  to: string;
+  fromEid: number;
+  toEid: number;
+  // OApp on `from` and its peer on `to`
+  address: string;
+  peer: string;
+  config: OAppEdgeConfig;
+}
+
+// DVN providers every pathway requires, in this order of preference
+export const REQUIRED_DVN_PROVIDERS = ['layerZeroLabs', 'nethermind'];
+export const MAX_MESSAGE_SIZE = 10000;
+
+// Endpoint getConfig types of the ULN302 libraries
+const CONFIG_TYPE_EXECUTOR = 1;
+const CONFIG_TYPE_ULN = 2;
+const EXECUTOR_CONFIG = 'tuple(uint32 maxMessageSize, address executor)';
+const ULN_CONFIG =
+  'tuple(uint64 confirmations, uint8 requiredDVNCount, uint8 optionalDVNCount, uint8 optionalDVNThreshold, address[] requiredDVNs, address[] optionalDVNs)';
+
+// Type 3 options: executor worker, lzReceive option carrying a uint128 gas limit
+const OPTIONS_TYPE_3 = '0x0003';
+const EXECUTOR_WORKER_ID = 1;
+const EXECUTOR_OPTION_LZ_RECEIVE = 1;
+
+export const LAYERZERO_PROTOCOL: Record<string, LayerZeroProtocolConfig> = {
+  // Mainnet chains
+  ethereum: {
+    sendLibrary: '0xbB2Ea70C9E858123480642Cf96acbcCE1372dCe1',
+    receiveLibrary: '0xc02Ab410f0734EFa3F14628780e6e695156024C2',
+    executor: '0x173272739Bd7Aa6e4e214714048a9fE699453059',
+    dvns: {
+      layerZeroLabs: '0x589dEDbD617e0CBcB916A9223F4d1300c294236b',
+      nethermind: '0xa59BA433ac34D2927232918Ef5B2eaAfcF130BA5',
+    },
+    confirmations: 15,
+  },
+  arbitrum: {
+    sendLibrary: '0x975bcD720be66659e3EB3C0e4F1866a3020E493A',
+    receiveLibrary: '0x7B9E184e07a6EE1aC23eAe0fe8D6Be2f663f05e6',
+    executor: '0x31CAe3B7fB82d847621859fb1585353c5720660D',
+    dvns: {
+      layerZeroLabs: '0x2f55C492897526677C5B68fb199ea31E2c126416',
+      nethermind: '0xa7b5189bcA84Cd304D8553977c7C614329750d99',
+    },
+    confirmations: 20,
+  },
+  optimism: {
+    sendLibrary: '0x1322871e4ab09Bc7f5717189434f97bBD9546e95',
+    receiveLibrary: '0x3c4962Ff6258dcfCafD23a814237B7d6Eb712063',
+    executor: '0x2D2ea0697bdbede3F01553D2Ae4B8d0c486B666e',
+    dvns: {
+      layerZeroLabs: '0x6A02D83e8d433304bba74EF1c427913958187142',
+      nethermind: '0xa7b5189bcA84Cd304D8553977c7C614329750d99',
+    },
+    confirmations: 20,
+  },
+  polygon: {
+    sendLibrary: '0x6c26c61a97006888ea9E4FA36584c7df57Cd9dA3',
+    receiveLibrary: '0x1322871e4ab09Bc7f5717189434f97bBD9546e95',
+    executor: '0xCd3F213AD101472e1713C72B1697E727C803885b',
+    dvns: {
+      layerZeroLabs: '0x23DE2FE932d9043291f870324B74F820e11dc81A',
+      nethermind: '0x31F748a368a893Bdb5aBB67ec95F232507601A73',
+    },
+    // Polygon PoS reorgs run deeper than the other chains
+    confirmations: 512,
+  },
+  base: {
+    sendLibrary: '0xB5320B0B3a13cC860893E2Bd79FCd7e13484Dda2',
+    receiveLibrary: '0xc70AB6f32772f59fBfc23889Caf4Ba3376C84bAf',
+    executor: '0x2CCA08ae69E0C44b18a57Ab2A87644234dAebaE4',
+    dvns: {
+      layerZeroLabs: '0x9e059a54699a285714207b43B055483E78FAac25',
+      nethermind: '0xcd37CA043f8479064e10635020c65FfC005d36f6',
+    },
+    confirmations: 10,
+  },
+  bsc: {
+    sendLibrary: '0x9F8C645f2D0b2159767Bd6E0839DE4BE49e823DE',
+    receiveLibrary: '0xB217266c3A98C8B2709Ee26836C98cf12f6cCEC1',
+    executor: '0x3ebD570ed38B1b3b4BC886999fcF507e9D584859',
+    dvns: {
+      layerZeroLabs: '0xfD6865c841c2d64565562fCc7e05e619A30615f0',
+      nethermind: '0x31F748a368a893Bdb5aBB67ec95F232507601A73',
+    },
+    confirmations: 20,
+  },
+  avalanche: {
+    sendLibrary: '0x197D1333DEA5Fe0D6600E9b396c7f1B1cFCc558a',
+    receiveLibrary: '0xbf3521d309642FA9B1c91A08609505BA09752c61',
+    executor: '0x90E595783E43eb89fF07f63d27B8430e6B44bD9c',
+    dvns: {
+      layerZeroLabs: '0x962F502A63F5FBeB44DC9ab932122648E8352959',
+      nethermind: '0xa59BA433ac34D2927232918Ef5B2eaAfcF130BA5',
+    },
+    confirmations: 12,
+  },
+  sonic: {
+    sendLibrary: '0xC39161c743D0307EB9BCc9FEF03eeb9Dc4802de7',
+    receiveLibrary: '0xe1844c5D63a9543023008D332Bd3d2e6f1FE1043',
+    executor: '0x4208D6E27538189bB48E603D6123A94b8Abe0A0b',
+    dvns: {
+      layerZeroLabs: '0x282b3386571f7f794450d5789911a9804FA346b4',
+      nethermind: '0x05AaEfDf9dB6E0f7d27FA3b6EE099EDB33dA029E',
+    },
+    confirmations: 20,
+  },
+
+  // Testnet chains, verified by the LayerZero Labs DVN only
+  sepolia: {
+    sendLibrary: '0xcc1ae8Cf5D3904Cef3360A9532B477529b177cCE',
+    receiveLibrary: '0xdAf00F5eE2158dD58E0d3857851c432E34A3A851',
+    executor: '0x718B92b5CB0a5552039B593faF724D182A881eDA',
+    dvns: { layerZeroLabs: '0x8eebf8b423B73bFCa51a1Db4B7354AA0bFCA9193' },
+    confirmations: 2,
+  },
+  arbitrumSepolia: {
+    sendLibrary: '0x4f7cd4DA19ABB31b0eC98b9066B9e857B1bf9C0E',
+    receiveLibrary: '0x75Db67CDab2824970131D5aa9CECfC9F69c69636',
+    executor: '0x5Df3a1cEbBD9c8BA7F8dF51Fd632A9aef8308897',
+    dvns: { layerZeroLabs: '0x53f488E93b4f1b60E8E83aa374dBe1780A1EE8a8' },
+    confirmations: 1,
+  },
+  baseSepolia: {
+    sendLibrary: '0xC1868e054425D378095A003EcbA3823a5D0135C9',
+    receiveLibrary: '0x12523de19dc41c91F7d2093E0CFbB76b17012C8d',
+    executor: '0x8A3D588D9f6AC041476b094f97FF94ec30169d3D',
+    dvns: { layerZeroLabs: '0xe1a12515F9AB2764b887bF60B923Ca494EBbB2d6' },
+    confirmations: 1,
+  },
+};
+
+// OFTs send with SEND (1) and SEND_AND_CALL (2) from OFTCore
+const OFT_MESSAGING: OAppMessagingConfig = {
+  enforced: true,
+  messages: [
+    { name: 'send', msgType: 1, gas: 80000 },
+    { name: 'sendAndCall', msgType: 2, gas: 200000 },
+  ],
+};
+
+export const OAPP_MESSAGING: Record<string, OAppMessagingConfig> = {
+  torque: OFT_MESSAGING,
+  torqueLP: OFT_MESSAGING,
+  currencies: OFT_MESSAGING,
+  torqueBatchHandler: {
+    enforced: false,
+    messages: [
+      { name: 'batchMint', msgType: 1, gas: 300000 },
+      { name: 'batchBurn', msgType: 2, gas: 250000 },
+    ],
+  },
+  torqueDEX: {
+    enforced: false,
+    messages: [
+      { name: 'liquidityAdd', msgType: 1, gas: 400000 },
+      { name: 'liquidityRemove', msgType: 2, gas: 350000 },
+    ],
+  },
+  torqueStake: {
+    enforced: false,
+    messages: [
+      { name: 'stake', msgType: 1, gas: 250000 },
+      { name: 'unstake', msgType: 2, gas: 300000 },
+    ],
+  },
+};
+
+export const getLayerZeroProtocol = (network: string): LayerZeroProtocolConfig | undefined => {
+  return LAYERZERO_PROTOCOL[network];
+};
+
+/**
+ * Message types of the OApp in a registry slot, every currency token shares the OFT entry
+ */
+export const getOAppMessaging = (slot: string): OAppMessagingConfig | undefined => {
+  return OAPP_MESSAGING[slot] ?? OAPP_MESSAGING[slot.split('.')[0]];
+};
+
+/**
+ * Type 3 executor options giving lzReceive `gas` on the destination chain
+ */
+export const encodeLzReceiveOption = (gas: number | bigint): string => {
+  const option = zeroPadValue(toBeHex(gas), 16);
+  return concat([
+    OPTIONS_TYPE_3,
+    toBeHex(EXECUTOR_WORKER_ID, 1),
+    toBeHex(1 + 16, 2),
+    toBeHex(EXECUTOR_OPTION_LZ_RECEIVE, 1),
+    option,
+  ]);
+};
+
+/**
+ * Options for one message type of an OApp, what the contracts without enforced options
+ * expect from callers as adapterParams
+ */
+export const getMessageOptions = (slot: string, name: string): string => {
+  const message = getOAppMessaging(slot)?.messages.find(entry => entry.name === name);
+  if (!message) {
+    throw new Error(`No ${name} message configured for ${slot}`);
+  }
+  return encodeLzReceiveOption(message.gas);
+};
+
+/**
+ * DVNs required on `network` for its pathway with `remote`, by the providers both chains have,
+ * sorted as the ULN expects them
+ */
+export const getPathwayDVNs = (
+  network: string,
+  remote: string,
+  protocol: Record<string, LayerZeroProtocolConfig> = LAYERZERO_PROTOCOL
+): string[] => {
+  const local = protocol[network];
+  const other = protocol[remote];
+  if (!local || !other) {
+    throw new Error(`No LayerZero protocol config for ${local ? remote : network}`);
+  }
+  const dvns = REQUIRED_DVN_PROVIDERS
+    .filter(provider => local.dvns[provider] && other.dvns[provider])
+    .map(provider => local.dvns[provider]);
+  if (dvns.length === 0) {
+    throw new Error(`${network} and ${remote} share no DVN provider`);
+  }
+  return dvns.sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+};
+
+/**
+ * Edge config of `slot` from `network` to `remote`: the send side uses the confirmations of
+ * `network`, the receive side those of `remote`, which sends the other way
+ */
+export const getPathwayConfig = (
+  slot: string,
+  network: string,
+  remote: string,
+  protocol: Record<string, LayerZeroProtocolConfig> = LAYERZERO_PROTOCOL
+): OAppEdgeConfig => {
+  const local = protocol[network];
+  const other = protocol[remote];
+  if (!local || !other) {
+    throw new Error(`No LayerZero protocol config for ${local ? remote : network}`);
+  }
+  const requiredDVNs = getPathwayDVNs(network, remote, protocol);
+  const messaging = getOAppMessaging(slot);
+
+  const config: OAppEdgeConfig = {
+    sendLibrary: local.sendLibrary,
+    receiveLibraryConfig: { receiveLibrary: local.receiveLibrary, gracePeriod: BigInt(0) },
+    sendConfig: {
+      executorConfig: { maxMessageSize: MAX_MESSAGE_SIZE, executor: local.executor },
+      ulnConfig: { confirmations: BigInt(local.confirmations), requiredDVNs, optionalDVNs: [], optionalDVNThreshold: 0 },
+    },
+    receiveConfig: {
+      ulnConfig: { confirmations: BigInt(other.confirmations), requiredDVNs, optionalDVNs: [], optionalDVNThreshold: 0 },
+    },
+  };
+  if (messaging?.enforced) {
+    config.enforcedOptions = messaging.messages.map(message => ({
+      msgType: message.msgType,
+      // ExecutorOptionType.LZ_RECEIVE
+      optionType: EXECUTOR_OPTION_LZ_RECEIVE,
+      gas: message.gas,
+    })) as OAppEdgeConfig['enforcedOptions'];
+  }
+  return config;
+};
+
+/**
+ * Every directed pathway between the OApps recorded on `networks`, defaulting to every
+ * CHAINS network with a deployment record
+ */
+export const generateOAppPathways = (
+  networks: string[] = Object.keys(CHAINS).filter(network => loadDeploymentRecord(network)),
+  options: { protocol?: Record<string, LayerZeroProtocolConfig>; eids?: Record<string, number> } = {}
+): OAppPathway[] => {
+  const protocol = options.protocol ?? LAYERZERO_PROTOCOL;
+  const chains = networks.map(network => {
+    const eid = options.eids?.[network] ?? getLayerZeroConfig(network)?.eid;
+    if (eid === undefined) {
+      throw new Error(`No LayerZero endpoint configured for ${network}`);
+    }
+    return { network, eid, contracts: loadDeploymentRecord(network)?.contracts ?? {} };
+  });
+
+  const pathways: OAppPathway[] = [];
+  for (const slot of getOAppSlots()) {
+    for (const from of chains) {
+      for (const to of chains) {
+        const address = from.contracts[slot]?.address;
+        const peer = to.contracts[slot]?.address;
+        if (from === to || !address || !peer) continue;
+        pathways.push({
+          slot,
+          from: from.network,
+          to: to.network,
+          fromEid: from.eid,
+          toEid: to.eid,
+          address,
+          peer,
+          config: getPathwayConfig(slot, from.network, to.network, protocol),
+        });
+      }
+    }
+  }
+  return pathways;
+};
+
+/**
+ * Pathways as the OApp graph the LayerZero devtools wire from layerzero.config.ts
+ */
+export const toOAppOmniGraph = (pathways: OAppPathway[]): OAppOmniGraph => {
+  const points = new Map<string, { eid: number; address: string }>();
+  for (const pathway of pathways) {
+    points.set(`${pathway.fromEid}:${pathway.address.toLowerCase()}`, { eid: pathway.fromEid, address: pathway.address });
+  }
+  return {
+    contracts: [...points.values()].map(point => ({ point })),
+    connections: pathways.map(pathway => ({
+      vector: {
+        from: { eid: pathway.fromEid, address: pathway.address },
+        to: { eid: pathway.toEid, address: pathway.peer },
+      },
+      config: pathway.config,
+    })),
+  } as OAppOmniGraph;
+};
+
+const ENDPOINT_ABI = [
+  'function getSendLibrary(address sender, uint32 dstEid) view returns (address)',
+  'function getReceiveLibrary(address receiver, uint32 srcEid) view returns (address lib, bool isDefault)',
+  'function getConfig(address oapp, address lib, uint32 eid, uint32 configType) view returns (bytes)',
+];
+const ENFORCED_OPTIONS_ABI = ['function enforcedOptions(uint32 eid, uint16 msgType) view returns (bytes)'];
+
+const readError = (error: unknown): string => {
+  const { shortMessage, message } = (error ?? {}) as { shortMessage?: string; message?: string };
+  return shortMessage ?? message ?? String(error);
+};
+
+const describeUln = (uln: { confirmations?: bigint | number; requiredDVNs: string[] }): string => {
+  return `${uln.confirmations ?? 0} confirmations, DVNs ${uln.requiredDVNs.map(dvn => dvn.toLowerCase()).join(',') || 'none'}`;
+};
+
+/**
+ * Check the pathways leaving `network` against its endpoint: libraries, executor and ULN
+ * config, and the enforced options of the OApps that enforce them
+ */
+export const checkMessagingConfig = async (
+  network: string,
+  provider: Provider,
+  pathways: OAppPathway[],
+  options: { endpoint?: string } = {}
+): Promise<ChainInvariantReport> => {
+  const chainId = Number((await provider.getNetwork()).chainId);
+  const endpointAddress = options.endpoint ?? getLayerZeroConfig(network)?.endpoint;
+  if (!endpointAddress) {
+    throw new Error(`No LayerZero endpoint configured for ${network}`);
+  }
+  const endpoint = new Contract(endpointAddress, ENDPOINT_ABI, provider);
+  const coder = AbiCoder.defaultAbiCoder();
+  const checks: InvariantCheck[] = [];
+  const check = async (id: string, read: () => Promise<{ expected: string; actual: string }>) => {
+    try {
+      const { expected, actual } = await read();
+      checks.push({ id, status: expected.toLowerCase() === actual.toLowerCase() ? 'pass' : 'fail', expected, actual });
+    } catch (error) {
+      checks.push({ id, status: 'fail', message: `read failed: ${readError(error)}` });
+    }
+  };
+
+  for (const pathway of pathways.filter(entry => entry.from === network)) {
+    const { config } = pathway;
+    const prefix = `${pathway.slot}.${pathway.to}`;
+    const sendLibrary = config.sendLibrary!;
+    const receiveLibrary = config.receiveLibraryConfig!.receiveLibrary;
+    const sendUln = config.sendConfig!.ulnConfig!;
+    const executor = config.sendConfig!.executorConfig!;
+    const receiveUln = config.receiveConfig!.ulnConfig!;
+
+    await check(`${prefix}.sendLibrary`, async () => ({
+      expected: sendLibrary,
+      actual: await endpoint.getSendLibrary(pathway.address, pathway.toEid),
+    }));
+    await check(`${prefix}.receiveLibrary`, async () => ({
+      expected: receiveLibrary,
+      actual: (await endpoint.getReceiveLibrary(pathway.address, pathway.toEid))[0],
+    }));
+    await check(`${prefix}.executor`, async () => {
+      const raw: string = await endpoint.getConfig(pathway.address, sendLibrary, pathway.toEid, CONFIG_TYPE_EXECUTOR);
+      const [actual] = coder.decode([EXECUTOR_CONFIG], raw);
+      return {
+        expected: `${executor.maxMessageSize} bytes via ${executor.executor}`,
+        actual: `${actual.maxMessageSize} bytes via ${actual.executor}`,
+      };
+    });
+    await check(`${prefix}.sendUln`, async () => {
+      const raw: string = await endpoint.getConfig(pathway.address, sendLibrary, pathway.toEid, CONFIG_TYPE_ULN);
+      const [actual] = coder.decode([ULN_CONFIG], raw);
+      return { expected: describeUln(sendUln), actual: describeUln({ confirmations: actual.confirmations, requiredDVNs: [...actual.requiredDVNs] }) };
+    });
+    await check(`${prefix}.receiveUln`, async () => {
+      const raw: string = await endpoint.getConfig(pathway.address, receiveLibrary, pathway.toEid, CONFIG_TYPE_ULN);
+      const [actual] = coder.decode([ULN_CONFIG], raw);
+      return { expected: describeUln(receiveUln), actual: describeUln({ confirmations: actual.confirmations, requiredDVNs: [...actual.requiredDVNs] }) };
+    });
+
+    const oapp = new Contract(pathway.address, ENFORCED_OPTIONS_ABI, provider);
+    const messaging = getOAppMessaging(pathway.slot);
+    for (const message of messaging?.messages ?? []) {
+      const id = `${prefix}.options.${message.name}`;
+      if (!messaging?.enforced) {
+        checks.push({ id, status: 'skip', message: 'not enforced on-chain, callers pass the options' });
+        continue;
+      }
+      await check(id, async () => ({
+        expected: encodeLzReceiveOption(message.gas),
+        actual: await oapp.enforcedOptions(pathway.toEid, message.msgType),
+      }));
+    }
+  }
+
+  return { network, chainId, checks, passed: checks.every(entry => entry.status !== 'fail') };
+};
@@ -0,0 +1,266 @@
+import { CHAINS } from './chains';
+
+/**
+ * Chainlink feed registry, one entry per (network, pair).
+ * Heartbeat and deviation follow Chainlink's parameters for each feed class;
+ * check data.chain.link and override per entry when a feed differs.
+ */
+
+export interface PriceFeedConfig {
+  network: string;
+  // `BASE_QUOTE`, e.g. `EUR_USD` or `CBETH_ETH`
+  pair: string;
+  base: string;
+  quote: string;
+  address: string;
+  decimals: number;
+  // Maximum seconds between updates when the price does not move
+  heartbeat: number;
+  // Price change in percent that triggers an update before the heartbeat
+  deviation: number;
+}
+
+type FeedParams = Pick<PriceFeedConfig, 'address' | 'decimals' | 'heartbeat' | 'deviation'>;
+
+const HOUR = 60 * 60;
+const DAY = 24 * HOUR;
+
+// Mirrors OracleLib.TIMEOUT: engines reject any answer older than this, whatever the feed heartbeat
+export const ORACLE_LIB_TIMEOUT = 3 * HOUR;
+
+const fx = (address: string): FeedParams => ({ address, decimals: 8, heartbeat: DAY, deviation: 0.15 });
+const metal = (address: string): FeedParams => ({ address, decimals: 8, heartbeat: DAY, deviation: 0.3 });
+const stable = (address: string): FeedParams => ({ address, decimals: 8, heartbeat: DAY, deviation: 0.25 });
+const crypto = (address: string): FeedParams => ({ address, decimals: 8, heartbeat: HOUR, deviation: 0.5 });
+const governance = (address: string): FeedParams => ({ address, decimals: 8, heartbeat: HOUR, deviation: 1 });
+// Exchange-rate feeds quoted in ETH, used with needsEthConversion
+const ratio = (address: string): FeedParams => ({ address, decimals: 18, heartbeat: DAY, deviation: 0.5 });
+
+// Networks are CHAINS keys; leave a pair out when no feed exists rather than adding a placeholder
+const FEEDS: Record<string, Record<string, FeedParams>> = {
+  ethereum: {
+    EUR_USD: fx('0xb49f677943BC038e9857d61E7d053CaA2C1734C1'),
+    GBP_USD: fx('0x5c0Ab2d9b5a7ed9f470386e82BB36A3613cDd4b5'),
+    JPY_USD: fx('0xBcE206caE7f0ec07b545EddE332A47C2F75bbeb3'),
+    AUD_USD: fx('0x77F9710E7d0A19669A13c055F62cd80d313dF022'),
+    CAD_USD: fx('0xa34317DB73e77d453b1B8d04550c44D10e981C8e'),
+    CHF_USD: fx('0x449d117117838fFA61263B61dA6301AA2a88B13A'),
+    NZD_USD: fx('0x3977CFc9e4f29C184D4675f4EB8e0013236e5f3e'),
+    CNY_USD: fx('0xeF8A4aF35cd47424672E3C590aBD37FBB7A7759a'),
+    KRW_USD: fx('0x01435677FB11763550905594A16B645847C1d0F3'),
+    XAU_USD: metal('0x214eD9Da11D2fbe465a6fc601a91E62EbEc1a0D6'),
+    XAG_USD: metal('0x379589227b15F1a12195D3f2d90bBc9F31f95235'),
+    USDC_USD: stable('0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6'), // USD-quoted; 0x986b…bbD4 is USDC/ETH
+    USDT_USD: stable('0x3E7d1eAB13ad0104d2750B8863b489D65364e32D'),
+    USDS_USD: stable('0xfF30586cD0F29eD462364C7e81375FC0C71219b1'),
+    PYUSD_USD: stable('0x8f1dF6D7F2db73eECE86a18b4381F4707b918FB1'),
+    GHO_USD: stable('0x3f12643D3f6f874d39C2a4c9f2Cd6f2DbAC877FC'),
+    ETH_USD: crypto('0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419'),
+    BTC_USD: crypto('0xF4030086522a5bEEa4988F8cA5B36dbC97BeE88c'),
+    CBBTC_USD: crypto('0x2665701293fCbEB223D11A08D826563EDcCE423A'),
+    TBTC_USD: crypto('0x8350b7De6a6a2C1368E7D4Bd968190e13E354297'),
+    CBETH_ETH: ratio('0xF017fcB346A1885194689bA23Eff2fE6fA5C483b'),
+    METH_ETH: ratio('0x5b563107C8666d2142C216114228443B94152362'),
+    LINK_USD: governance('0x2c1d072e956AFFC0D435Cb7AC38EF18d24d9127c'),
+    AAVE_USD: governance('0x547a514d5e3769680Ce22B2361c10Ea13619e8a9'),
+    COMP_USD: governance('0xdbd020CAeF83eFd542f4De03e3cF0C28A4428bd5'),
+  },
+  arbitrum: {
+    EUR_USD: fx('0xA14d53bC1F1c0F31B4aA3BD109344E5009051a84'),
+    GBP_USD: fx('0x9C4424Fd84C6661F97D8d6b3fc3C1aAc2BeDd137'),
+    JPY_USD: fx('0x3dD6e51CB9caE717d5a8778CF79A04029f9cFDF8'),
+    AUD_USD: fx('0x9854e9a850e7C354c1de177eA953a6b1fba8Fc22'),
+    CAD_USD: fx('0xf6DA27749484843c4F02f5Ad1378ceE723dD61d4'),
+    CHF_USD: fx('0xe32AccC8c4eC03F6E75bd3621BfC9Fbb234E1FC3'),
+    CNY_USD: fx('0xcC3370Bde6AFE51e1205a5038947b9836371eCCb'),
+    KRW_USD: fx('0x85bb02E0Ae286600d1c68Bb6Ce22Cc998d411916'),
+    XAU_USD: metal('0x1F954Dc24a49708C26E0C1777f16750B5C6d5a2c'),
+    XAG_USD: metal('0xC56765f04B248394CF1619D20dB8082Edbfa75b1'),
+    USDC_USD: stable('0x50834F3163758fcC1Df9973b6e91f0F0F0434aD3'),
+    USDT_USD: stable('0x3f3f5dF88dC9F13eac63DF89EC16ef6e7E25DdE7'),
+    USDS_USD: stable('0x37833E5b3fbbEd4D613a3e0C354eF91A42B81eeB'),
+    ETH_USD: crypto('0x639Fe6ab55C921f74e7fac1ee960C0B6293ba612'),
+    BTC_USD: crypto('0x6ce185860a4963106506C203335A2910413708e9'),
+    TBTC_USD: crypto('0xE808488e8627F6531bA79a13A9E0271B39abEb1C'),
+    CBETH_ETH: ratio('0xa668682974E3f121185a3cD94f00322beC674275'),
+    WSTETH_ETH: ratio('0xb523AE262D20A936BC152e6023996e46FDC2A95D'),
+    LINK_USD: governance('0x86E53CF1B870786351Da77A57575e79CB55812CB'),
+    AAVE_USD: governance('0xaD1d5344AaDE45F43E596773Bcc4c423EAbdD034'),
+    COMP_USD: governance('0xe7C53FFd03Eb6ceF7d208bC4C13446c76d1E5884'),
+  },
+  optimism: {
+    EUR_USD: fx('0x3626369857A10CcC6cc3A6e4f5C2f5984a519F20'),
+    JPY_USD: fx('0x536944c3A71FEb7c1E5C66Ee37d1a148d8D8f619'),
+    AUD_USD: fx('0x39be70E93D2D285C9E71be7f70FC5a45A7777B14'),
+    XAU_USD: metal('0x8F7bFb42Bf7421c2b34AAD619be4654bFa7B3B8B'),
+    XAG_USD: metal('0x290dd71254874f0d4356443607cb8234958DEe49'),
+    USDC_USD: stable('0x16a9FA2FDa030272Ce99B29CF780dFA30361E0f3'),
+    USDT_USD: stable('0xECef79E109e997bCA29c1c0897ec9d7b03647F5E'),
+    ETH_USD: crypto('0x13e3Ee699D1909E989722E753853AE30b17e08c5'),
+    BTC_USD: crypto('0xD702DD976Fb76Fffc2D3963D037dfDae5b04E593'),
+    WSTETH_ETH: ratio('0x524299Ab0987a7c4B3c8022a35669DdcdC715a10'),
+    LINK_USD: governance('0xCc232dcFAAE6354cE191Bd574108c1aD03f86450'),
+  },
+  polygon: {
+    EUR_USD: fx('0x73366Fe0AA0Ded304479862808e02506FE556a98'),
+    GBP_USD: fx('0x099a2540848573e94fb1Ca0Fa420b00acbBc845a'),
+    JPY_USD: fx('0xD647a6fC9BC6402301583C91decC5989d8Bc382D'),
+    AUD_USD: fx('0x062Df9C4efd2030e243ffCc398b652e8b8F95C6f'),
+    CAD_USD: fx('0xACA44ABb8B04D07D883202F99FA5E3c53ed57Fb5'),
+    CHF_USD: fx('0xc76f762CedF0F78a439727861628E0fdfE1e70c2'),
+    NZD_USD: fx('0xa302a0B8a499fD0f00449df0a490DedE21105955'),
+    CNY_USD: fx('0x04bB437Aa63E098236FA47365f0268547f6EAB32'),
+    KRW_USD: fx('0x24B820870F726dA9B0D83B0B28a93885061dbF50'),
+    XAU_USD: metal('0x0C466540B2ee1a31b441671eac0ca886e051E410'),
+    XAG_USD: metal('0x461c7B8D370a240DdB46B402748381C3210136b3'),
+    USDC_USD: stable('0xfE4A8cc5b5B2366C1B58Bea3858e81843581b2F7'),
+    USDT_USD: stable('0x0A6513e40db6EB1b165753AD52E80663aeA50545'),
+    ETH_USD: crypto('0xF9680D99D6C9589e2a93a78A04A279e509205945'),
+    BTC_USD: crypto('0xc907E116054Ad103354f2D350FD2514433D57F6f'),
+    LINK_USD: governance('0xd9FFdb71EbE7496cC440152d43986Aae0AB76665'),
+    AAVE_USD: governance('0x72484B12719E23115761D5DA1646945632979bB6'),
+    COMP_USD: governance('0x2A8758b7257102461BC958279054e372C2b1bDE6'),
+  },
+  base: {
+    EUR_USD: fx('0xc91D87E81faB8f93699ECf7Ee9B44D11e1D53F0F'),
+    GBP_USD: fx('0xCceA6576904C118037695eB71195a5425E69Fa15'),
+    AUD_USD: fx('0x46e51B8cA41d709928EdA9Ae43e42193E6CDf229'),
+    CAD_USD: fx('0xA840145F87572E82519d578b1F36340368a25D5d'),
+    CHF_USD: fx('0x3A1d6444fb6a402470098E23DaD0B7E86E14252F'),
+    NZD_USD: fx('0x06bdFe07E71C476157FC025d3cCD4BBe08e83EF9'),
+    XAU_USD: metal('0x5213eBB69743b85644dbB6E25cdF994aFBb8cF31'),
+    USDC_USD: stable('0x7e860098F58bBFC8648a4311b374B1D669a2bc6B'),
+    USDT_USD: stable('0xf19d560eB8d2ADf07BD6D13ed03e1D11215721F9'),
+    USDS_USD: stable('0x2330aaE3bca5F05169d5f4597964D44522F62930'),
+    ETH_USD: crypto('0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70'),
+    BTC_USD: crypto('0x64c911996D3c6aC71f9b455B1E8E7266BcbD848F'),
+    CBBTC_USD: crypto('0x07DA0E54543a844a80ABE69c8A12F22B3aA59f9D'),
+    TBTC_USD: crypto('0x6D75BFB5A5885f841b132198C9f0bE8c872057BF'),
+    CBETH_ETH: ratio('0x806b4Ac04501c29769051e42783cF04dCE41440b'),
+    WSTETH_ETH: ratio('0x43a5C292A453A3bF3606fa856197f09D7B74251a'),
+    LINK_USD: governance('0x17CAb8FE31E32f08326e5E27412894e49B0f9D65'),
+    AAVE_USD: governance('0x3d6774EF702A10b20FCa8Ed40FC022f7E4938e07'),
+    COMP_USD: governance('0x9DDa783DE64A9d1A60c49ca761EbE528C35BA428'),
+  },
+  bsc: {
+    EUR_USD: fx('0x0bf79F617988C472DcA68ff41eFe1338955b9A80'),
+    GBP_USD: fx('0x8FAf16F710003E538189334541F5D4a391Da46a0'),
+    JPY_USD: fx('0x22Db8397a6E77E41471dE256a7803829fDC8bC57'),
+    AUD_USD: fx('0x498F912B09B5dF618c77fcC9E8DA503304Df92bF'),
+    CHF_USD: fx('0x964261740356cB4aaD0C3D2003Ce808A4176a46d'),
+    XAU_USD: metal('0x86896fEB19D8A607c3b11f2aF50A0f239Bd71CD0'),
+    XAG_USD: metal('0x817326922c909b16944817c207562B25C4dF16aD'),
+    USDC_USD: stable('0x51597f405303C4377E36123cBc172b13269EA163'),
+    USDT_USD: stable('0xB97Ad0E74fa7d920791E90258A6E2085088b4320'),
+    ETH_USD: crypto('0x9ef1B8c0E4F7dc8bF5719Ea496883DC6401d5b2e'),
+    BTC_USD: crypto('0x264990fbd0A4796A3E3d8E37C4d5F87a3aCa5Ebf'),
+    LINK_USD: governance('0xca236E327F629f9Fc2c30A4E95775EbF0B89fac8'),
+    AAVE_USD: governance('0xA8357BF572460fC40f4B0aCacbB2a6A61c89f475'),
+    COMP_USD: governance('0x0Db8945f9aEf5651fa5bd52314C5aAe78DfDe540'),
+  },
+  avalanche: {
+    EUR_USD: fx('0x192f2DBA961Bb0277520C082d6bfa87D5961333E'),
+    JPY_USD: fx('0xf8B283aD4d969ECFD70005714DD5910160565b94'),
+    CHF_USD: fx('0xA418573AB5226711c8564Eeb449c3618ABFaf677'),
+    XAU_USD: metal('0x1F41EF93dece881Ad0b98082B2d44D3f6F0C515B'),
+    XAG_USD: metal('0xA771e0D1e9E1eCc07C56CC38240779E54337d682'),
+    USDC_USD: stable('0xF096872672F44d6EBA71458D74fe67F9a77a23B9'),
+    USDT_USD: stable('0xEBE676ee90Fe1112671f19b6B7459bC678B67e8a'),
+    ETH_USD: crypto('0x976B3D034E162d8bD72D6b9C989d545b839003b0'),
+    BTC_USD: crypto('0x2779D32d5166BAaa2B2b658333bA7e6Ec0C65743'),
+    LINK_USD: governance('0x49ccd9ca821EfEab2b98c60dC60F518E765EDe9a'),
+  },
+  sonic: {
+    EUR_USD: fx('0x0fceF1123FDBEdC89a0189B15D35B7A33B7694c0'),
+    USDC_USD: stable('0x55bCa887199d5520B3Ce285D41e6dC10C08716C9'),
+    USDT_USD: stable('0x76F4C040A792aFB7F6dBadC7e30ca3EEa140D216'),
+    ETH_USD: crypto('0x9ef1B8c0E4F7dc8bF5719Ea496883DC6401d5b2e'), // Same address as the BSC feed, unverified on Sonic
+    BTC_USD: crypto('0x8Bcd59Cb7eEEea8e2Da3080C891609483dae53EF'),
+    LINK_USD: governance('0x26e450ca14D7bF598C89f212010c691434486119'),
+  },
+  sepolia: {
+    EUR_USD: fx('0x1a81afB8146aeFfCFc5E50e8479e826E7D55b910'),
+    GBP_USD: fx('0x91FAB41F5f3bE955963a986366edAcff1aaeaa83'),
+    JPY_USD: fx('0x8A6af2B75F23831ADc973ce6288e5329F63D86c6'),
+    AUD_USD: fx('0xB0C712f98daE15264c8E26132BCC91C40aD4d5F9'),
+    XAU_USD: metal('0xC5981F461d74c46eB4b0CF3f4Ec79f025573B0Ea'),
+  },
+  arbitrumSepolia: {},
+  baseSepolia: {},
+};
+
+/**
+ * Normalise `EUR/USD`, `eur_usd` or `EUR_USD` to the registry key `EUR_USD`
+ */
+export const normalizePair = (pair: string): string => {
+  return pair.trim().toUpperCase().replace(/[/-]/g, '_');
+};
+
+export const PRICE_FEEDS: Record<string, Record<string, PriceFeedConfig>> = Object.fromEntries(
+  Object.entries(FEEDS).map(([network, feeds]) => [
+    network,
+    Object.fromEntries(
+      Object.entries(feeds).map(([pair, params]) => {
+        const [base, quote] = pair.split('_');
+        return [pair, { network, pair, base, quote, ...params }];
+      })
+    ),
+  ])
+);
+
+export const getPriceFeed = (network: string, pair: string): PriceFeedConfig | undefined => {
+  return PRICE_FEEDS[network]?.[normalizePair(pair)];
+};
+
+export const getPriceFeedAddress = (network: string, pair: string): string | undefined => {
+  return getPriceFeed(network, pair)?.address;
+};
+
+export const getPriceFeedByChainId = (chainId: number, pair: string): PriceFeedConfig | undefined => {
+  const network = Object.keys(CHAINS).find(key => CHAINS[key].id === chainId);
+  return network ? getPriceFeed(network, pair) : undefined;
+};
+
+export const getNetworkPriceFeeds = (network: string): PriceFeedConfig[] => {
+  return Object.values(PRICE_FEEDS[network] ?? {});
+};
+
+/**
+ * Feed for a pair on every network that has one, keyed by network
+ */
+export const getPriceFeedsForPair = (pair: string): Record<string, PriceFeedConfig> => {
+  const key = normalizePair(pair);
+  const feeds: Record<string, PriceFeedConfig> = {};
+
+  for (const [network, networkFeeds] of Object.entries(PRICE_FEEDS)) {
+    if (networkFeeds[key]) feeds[network] = networkFeeds[key];
+  }
+
+  return feeds;
+};
+
+/**
+ * Seconds after which an answer from this feed should be treated as stale
+ */
+export const getStalenessTimeout = (feed: PriceFeedConfig): number => {
+  return Math.min(feed.heartbeat, ORACLE_LIB_TIMEOUT);
+};
+
+/**
+ * Whether OracleLib accepts this feed through a quiet market. Feeds with a heartbeat
+ * above ORACLE_LIB_TIMEOUT make the engine revert once the price stops moving.
+ */
+export const isOracleLibCompatible = (feed: PriceFeedConfig): boolean => {
+  return feed.heartbeat <= ORACLE_LIB_TIMEOUT;
+};
+
+/**
+ * Mirrors OracleLib.staleCheckLatestRoundData for an answer's `updatedAt` (seconds)
+ */
+export const isPriceStale = (
+  feed: PriceFeedConfig,
+  updatedAt: number,
+  now: number = Math.floor(Date.now() / 1000)
+): boolean => {
+  return updatedAt === 0 || now - updatedAt > getStalenessTimeout(feed);
+};
@@ -0,0 +1,327 @@
+import {
+  AbstractProvider,
+  FallbackProvider,
+  FetchRequest,
+  HDNodeWallet,
+  isError,
+  JsonRpcProvider,
+  Network,
+  PerformActionRequest,
+  Signer,
+  Wallet,
+  WebSocketProvider,
+} from 'ethers';
+import { CHAINS, ChainConfig } from './chains';
+import { getNetworkAccounts, getNetworkEnvPrefix } from './hardhat';
+
+/**
+ * Shared RPC provider factory. Keepers, scripts and SDK code build their read providers here
+ * so every consumer gets the same fallback, timeout and batching behaviour.
+ */
+
+type Env = Record<string, string | undefined>;
+
+export interface RpcProviderOptions {
+  // HTTP endpoints in priority order, defaults to the chain's rpcUrls.http
+  urls?: string[];
+  // WebSocket endpoints, defaults to the chain's rpcUrls.webSocket
+  webSocketUrls?: string[];
+  // Total endpoint weight that must agree on a result
+  quorum?: number;
+  // Milliseconds before a single HTTP request fails
+  timeout?: number;
+  // Milliseconds before the next endpoint is asked in parallel
+  stallTimeout?: number;
+  // JSON-RPC calls per batch, 1 disables batching
+  batchMaxCount?: number;
+  // Milliseconds to collect calls into a batch
+  batchStallTime?: number;
+  pollingInterval?: number;
+  // Milliseconds a failed endpoint is tried last when quorum is 1
+  failureCooldown?: number;
+}
+
+export interface RpcEndpointHealth {
+  url: string;
+  priority: number;
+  weight: number;
+  // Last block the endpoint reported, -2 until it synced
+  blockNumber: number;
+  requests: number;
+  // Transport failures: refused connections, timeouts, HTTP errors
+  failures: number;
+  consecutiveFailures: number;
+  // Responses that arrived after the quorum was met
+  lateResponses: number;
+  // Average response time in milliseconds
+  averageDuration: number;
+  // 0..1, share of successful responses scaled down by latency above the stall timeout
+  score: number;
+  healthy: boolean;
+}
+
+export const DEFAULT_RPC_PROVIDER_OPTIONS = {
+  quorum: 1,
+  timeout: 10_000,
+  stallTimeout: 1_500,
+  batchMaxCount: 10,
+  batchStallTime: 10,
+  pollingInterval: 4_000,
+  failureCooldown: 30_000,
+};
+
+// Endpoints scoring below this are reported unhealthy
+const MIN_HEALTHY_SCORE = 0.5;
+
+// Node socket errors raised before any JSON-RPC response
+const TRANSPORT_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ENOTFOUND', 'ETIMEDOUT', 'EAI_AGAIN', 'EPIPE'];
+
+const endpointUrls = new WeakMap<AbstractProvider, string>();
+
+const isTransportError = (error: unknown): boolean => {
+  return isError(error, 'TIMEOUT')
+    || isError(error, 'NETWORK_ERROR')
+    || isError(error, 'SERVER_ERROR')
+    || TRANSPORT_ERROR_CODES.includes((error as { code?: string })?.code ?? '');
+};
+
+interface EndpointStats {
+  requests: number;
+  failures: number;
+  consecutiveFailures: number;
+  lastFailureAt: number;
+  totalDuration: number;
+}
+
+/**
+ * ethers counts a transport error as a response, so with quorum 1 the first unreachable
+ * endpoint fails the whole request. With quorum 1 a failed request is retried on the other
+ * endpoints, recently failed ones last; with a higher quorum a single error cannot win anyway.
+ */
+class RpcFallbackProvider extends FallbackProvider {
+  private readonly stats = new Map<AbstractProvider, EndpointStats>();
+
+  constructor(
+    configs: { provider: AbstractProvider; priority: number; weight: number; stallTimeout: number }[],
+    network: Network,
+    options: { quorum: number; pollingInterval: number },
+    private readonly failureCooldown: number
+  ) {
+    super(configs, network, options);
+    configs.forEach(({ provider }) => this.stats.set(provider, {
+      requests: 0,
+      failures: 0,
+      consecutiveFailures: 0,
+      lastFailureAt: 0,
+      totalDuration: 0,
+    }));
+  }
+
+  getEndpointStats(provider: AbstractProvider): EndpointStats | undefined {
+    const stats = this.stats.get(provider);
+    return stats && { ...stats };
+  }
+
+  private isCoolingDown(provider: AbstractProvider): boolean {
+    const stats = this.stats.get(provider);
+    return !!stats && stats.consecutiveFailures > 0 && Date.now() - stats.lastFailureAt < this.failureCooldown;
+  }
+
+  private async attempt(provider: AbstractProvider, req: PerformActionRequest): Promise<any> {
+    const stats = this.stats.get(provider)!;
+    const started = Date.now();
+    stats.requests++;
+    try {
+      const result = await super._translatePerform(provider, req);
+      stats.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      if (isTransportError(error)) {
+        stats.failures++;
+        stats.consecutiveFailures++;
+        stats.lastFailureAt = Date.now();
+      }
+      throw error;
+    } finally {
+      stats.totalDuration += Date.now() - started;
+    }
+  }
+
+  async _translatePerform(provider: AbstractProvider, req: PerformActionRequest): Promise<any> {
+    if (this.quorum > 1) return this.attempt(provider, req);
+
+    // Stable sort: healthy endpoints keep their priority order ahead of cooling-down ones
+    const candidates = [provider, ...[...this.stats.keys()].filter(other => other !== provider)]
+      .sort((a, b) => Number(this.isCoolingDown(a)) - Number(this.isCoolingDown(b)));
+
+    let lastError: unknown;
+    for (const candidate of candidates) {
+      try {
+        return await this.attempt(candidate, req);
+      } catch (error) {
+        if (!isTransportError(error)) throw error;
+        lastError = error;
+      }
+    }
+    throw lastError;
+  }
+}
+
+const unique = (urls: string[]): string[] => {
+  return [...new Set(urls.map(url => url.trim()).filter(Boolean))];
+};
+
+const splitEnvList = (value: string | undefined): string[] => {
+  return value ? value.split(',') : [];
+};
+
+/**
+ * RPC URLs for a network, `<NETWORK>_RPC_URL` and `<NETWORK>_WS_URL` (comma separated) first
+ */
+export const getNetworkRpcUrls = (
+  network: string,
+  chain: ChainConfig,
+  env: Env = process.env
+): { http: string[]; webSocket: string[] } => {
+  const prefix = getNetworkEnvPrefix(network);
+  return {
+    http: unique([...splitEnvList(env[`${prefix}_RPC_URL`]), ...chain.rpcUrls.http]),
+    webSocket: unique([...splitEnvList(env[`${prefix}_WS_URL`]), ...(chain.rpcUrls.webSocket ?? [])]),
+  };
+};
+
+/**
+ * Build a FallbackProvider over every RPC endpoint of a chain. HTTP endpoints are asked in
+ * the order given, WebSocket endpoints after them. An endpoint that is down when the provider
+ * first syncs is left out for the provider's lifetime.
+ */
+export const createChainProvider = (chain: ChainConfig, options: RpcProviderOptions = {}): FallbackProvider => {
+  const settings = { ...DEFAULT_RPC_PROVIDER_OPTIONS, ...options };
+  const httpUrls = unique(options.urls ?? chain.rpcUrls.http);
+  const webSocketUrls = unique(options.webSocketUrls ?? chain.rpcUrls.webSocket ?? []);
+  const endpointCount = httpUrls.length + webSocketUrls.length;
+
+  if (endpointCount === 0) {
+    throw new Error(`No RPC URLs configured for ${chain.name}`);
+  }
+  if (settings.quorum > endpointCount) {
+    throw new Error(`Quorum ${settings.quorum} exceeds the ${endpointCount} RPC endpoint(s) configured for ${chain.name}`);
+  }
+
+  // A static network skips eth_chainId probing, which retries forever against a dead endpoint
+  const network = Network.from(chain.id);
+  const providerOptions = {
+    staticNetwork: network,
+    batchMaxCount: settings.batchMaxCount,
+    batchStallTime: settings.batchStallTime,
+    pollingInterval: settings.pollingInterval,
+  };
+
+  const providers: AbstractProvider[] = [
+    ...httpUrls.map(url => {
+      const request = new FetchRequest(url);
+      request.timeout = settings.timeout;
+      const provider = new JsonRpcProvider(request, network, providerOptions);
+      endpointUrls.set(provider, url);
+      return provider;
+    }),
+    ...webSocketUrls.map(url => {
+      // Socket providers reject batching
+      const provider = new WebSocketProvider(url, network, { ...providerOptions, batchMaxCount: 1 });
+      endpointUrls.set(provider, url);
+      return provider;
+    }),
+  ];
+
+  return new RpcFallbackProvider(
+    providers.map((provider, index) => ({
+      provider,
+      priority: index + 1,
+      weight: 1,
+      stallTimeout: settings.stallTimeout,
+    })),
+    network,
+    { quorum: settings.quorum, pollingInterval: settings.pollingInterval },
+    settings.failureCooldown
+  );
+};
+
+// Keyed by network and the RPC URLs its provider was created for
+const sharedProviders = new Map<string, FallbackProvider>();
+
+/**
+ * Shared provider for a CHAINS network and the RPC URLs `env` resolves for it, created on
+ * first use
+ */
+export const getNetworkProvider = (network: string, env: Env = process.env): FallbackProvider => {
+  const chain = CHAINS[network];
+  if (!chain) {
+    throw new Error(`Unknown network "${network}"`);
+  }
+
+  const urls = getNetworkRpcUrls(network, chain, env);
+  const key = [network, ...urls.http, ...urls.webSocket].join(' ');
+  const existing = sharedProviders.get(key);
+  if (existing) return existing;
+
+  const provider = createChainProvider(chain, { urls: urls.http, webSocketUrls: urls.webSocket });
+  sharedProviders.set(key, provider);
+  return provider;
+};
+
+/**
+ * Deployer signer for a CHAINS network on its shared provider, from the same variables the
+ * Hardhat network uses. Undefined when no key or mnemonic is set.
+ */
+export const getNetworkSigner = (network: string, env: Env = process.env): Signer | undefined => {
+  const accounts = getNetworkAccounts(network, env);
+  if (Array.isArray(accounts)) {
+    return accounts.length > 0 ? new Wallet(accounts[0] as string, getNetworkProvider(network, env)) : undefined;
+  }
+  if (typeof accounts === 'object' && 'mnemonic' in accounts) {
+    return HDNodeWallet.fromPhrase(accounts.mnemonic).connect(getNetworkProvider(network, env));
+  }
+  return undefined;
+};
+
+/**
+ * Destroy every shared provider, e.g. before a script exits
+ */
+export const closeNetworkProviders = async (): Promise<void> => {
+  const providers = [...sharedProviders.values()];
+  sharedProviders.clear();
+  await Promise.all(providers.map(provider => provider.destroy()));
+};
+
+/**
+ * Per-endpoint health of a provider built by createChainProvider, in priority order
+ */
+export const getRpcHealth = (provider: FallbackProvider): RpcEndpointHealth[] => {
+  return provider.providerConfigs
+    .map(config => {
+      const stats = provider instanceof RpcFallbackProvider ? provider.getEndpointStats(config.provider) : undefined;
+      const requests = stats?.requests ?? config.requests;
+      const failures = stats?.failures ?? config.errorResponses;
+      const averageDuration = stats && stats.requests > 0 ? stats.totalDuration / stats.requests : config.rollingDuration;
+
+      const successRate = requests > 0 ? (requests - failures) / requests : 1;
+      const latencyFactor = config.stallTimeout / Math.max(config.stallTimeout, averageDuration);
+      const score = successRate * latencyFactor;
+      const consecutiveFailures = stats?.consecutiveFailures ?? 0;
+
+      return {
+        url: endpointUrls.get(config.provider) ?? 'unknown',
+        priority: config.priority,
+        weight: config.weight,
+        blockNumber: config.blockNumber,
+        requests,
+        failures,
+        consecutiveFailures,
+        lateResponses: config.lateResponses,
+        averageDuration,
+        score,
+        healthy: config.blockNumber >= 0 && consecutiveFailures === 0 && score >= MIN_HEALTHY_SCORE,
+      };
+    })
+    .sort((a, b) => a.priority - b.priority);
+};
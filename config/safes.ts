@@ -0,0 +1,16 @@
+import { getNetworkEnvPrefix } from './hardhat';
+
+type Env = Record<string, string | undefined>;
+
+/**
+ * Safe multisig that owns the Torque contracts on each network once the deployer hands over
+ * control, keyed by CHAINS network. `<NETWORK>_SAFE_ADDRESS` overrides an entry.
+ */
+export const SAFES: Record<string, string> = {
+  // Add each network's Safe here once it is created, e.g.
+  // arbitrum: '0x...',
+};
+
+export const getSafeAddress = (network: string, env: Env = process.env): string | undefined => {
+  return env[`${getNetworkEnvPrefix(network)}_SAFE_ADDRESS`]?.trim() || SAFES[network];
+};
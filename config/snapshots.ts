@@ -0,0 +1,447 @@
+import { existsSync, readFileSync } from 'fs';
+import { Contract, getAddress, Provider, ZeroAddress } from 'ethers';
+import { getContractSlots, DeploymentConfig } from './contracts';
+import { CURRENCY_CODES, CURRENCY_LIST, CurrencyCode, isCurrencyCode } from './currencies';
+import { DeploymentRecord, loadDeploymentRecord } from './deployments';
+
+/**
+ * Deployment snapshots and the diff between two of them. A snapshot is built from a registry
+ * record (optionally at an older version), a legacy `deployment-<network>-<chainId>.json` file,
+ * a saved snapshot file or live on-chain reads.
+ */
+
+export const DEPLOYMENT_SNAPSHOT_KIND = 'torque-deployment-snapshot';
+
+export interface ContractSnapshot {
+  address: string;
+  // Only known for live reads and snapshots saved from them
+  hasCode?: boolean;
+  owner?: string;
+  // Public parameters by getter name, stringified
+  params?: Record<string, string>;
+}
+
+export interface DeploymentSnapshot {
+  kind: typeof DEPLOYMENT_SNAPSHOT_KIND;
+  // File path, `registry:<network>@<version>` or `live:<network>`
+  source: string;
+  network?: string;
+  chainId?: number;
+  // Registry record version the snapshot reflects
+  version?: number;
+  blockNumber?: number;
+  deployer?: string;
+  takenAt: string;
+  // Keyed by contract slot, e.g. `torqueDEX`, `engines.EUR` or `currencies.USD`
+  contracts: Record<string, ContractSnapshot>;
+}
+
+export type DeploymentChangeKind = 'added' | 'removed' | 'address' | 'code' | 'owner' | 'param';
+
+export interface DeploymentChange {
+  kind: DeploymentChangeKind;
+  slot: string;
+  // Getter name for `param` changes
+  field?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface DeploymentDiff {
+  from: Omit<DeploymentSnapshot, 'contracts'>;
+  to: Omit<DeploymentSnapshot, 'contracts'>;
+  identical: boolean;
+  changes: DeploymentChange[];
+  enginesAdded: CurrencyCode[];
+  enginesRemoved: CurrencyCode[];
+  // Currencies without an engine in the `to` snapshot, usually for a missing price feed
+  enginesSkipped: CurrencyCode[];
+  // Currencies without a token in the `to` snapshot
+  currenciesMissing: CurrencyCode[];
+}
+
+// Getters read for every live contract of a slot group, besides `owner()`
+const ENGINE_GETTERS = [
+  'function getCollateralToken() view returns (address)',
+  'function getPriceFeed() view returns (address)',
+  'function getTorqueToken() view returns (address)',
+  'function treasuryAddress() view returns (address)',
+  'function baseAPR() view returns (uint256)',
+  'function minAPR() view returns (uint256)',
+  'function maxAPR() view returns (uint256)',
+  'function mintFee() view returns (uint256)',
+  'function burnFee() view returns (uint256)',
+];
+
+export const SNAPSHOT_GETTERS: Record<string, string[]> = {
+  torqueDEX: [
+    'function defaultQuoteAsset() view returns (address)',
+    'function defaultFeeRecipient() view returns (address)',
+    'function defaultFeeBps() view returns (uint256)',
+  ],
+  torqueFX: [
+    'function usdc() view returns (address)',
+    'function dexContract() view returns (address)',
+    'function feeRecipient() view returns (address)',
+    'function openFeeBps() view returns (uint256)',
+    'function closeFeeBps() view returns (uint256)',
+    'function partialLiquidationThreshold() view returns (uint256)',
+    'function fullLiquidationThreshold() view returns (uint256)',
+    'function maxPositionSize() view returns (uint256)',
+    'function circuitBreaker() view returns (bool)',
+  ],
+  torqueLP: ['function dex() view returns (address)'],
+  torqueStake: [
+    'function lpToken() view returns (address)',
+    'function torqToken() view returns (address)',
+    'function rewardToken() view returns (address)',
+    'function treasuryFeeRecipient() view returns (address)',
+  ],
+  torqueRewards: [
+    'function rewardToken() view returns (address)',
+    'function torqueFX() view returns (address)',
+  ],
+  torqueBatchHandler: ['function maxBatchSize() view returns (uint256)'],
+  engines: ENGINE_GETTERS,
+};
+
+const OWNER_GETTER = 'function owner() view returns (address)';
+
+const slotGroup = (slot: string): string => slot.split('.')[0];
+
+const slotCurrency = (slot: string, group: 'engines' | 'currencies'): CurrencyCode | undefined => {
+  const [slotPrefix, currency] = slot.split('.');
+  return slotPrefix === group && currency && isCurrencyCode(currency) ? currency : undefined;
+};
+
+const normalizeAddress = (address: string): string => {
+  try {
+    return getAddress(address);
+  } catch {
+    return address;
+  }
+};
+
+const sameAddress = (a: string | undefined, b: string | undefined): boolean => {
+  return (a ?? '').toLowerCase() === (b ?? '').toLowerCase();
+};
+
+/**
+ * Snapshot of a registry record, or of the record as it was at `version`
+ */
+export const snapshotFromRecord = (record: DeploymentRecord, version?: number, source?: string): DeploymentSnapshot => {
+  const contracts: Record<string, ContractSnapshot> = {};
+
+  if (version === undefined || version >= record.version) {
+    for (const [slot, contract] of Object.entries(record.contracts)) {
+      contracts[slot] = { address: contract.address };
+    }
+  } else {
+    // Replay deploy history up to the requested version
+    for (const entry of record.history) {
+      if (entry.version > version) break;
+      if (entry.action === 'deploy' && entry.contract && entry.address) {
+        contracts[entry.contract] = { address: entry.address };
+      }
+    }
+  }
+
+  const resolvedVersion = version === undefined ? record.version : Math.min(version, record.version);
+  return {
+    kind: DEPLOYMENT_SNAPSHOT_KIND,
+    source: source ?? `registry:${record.network}@${resolvedVersion}`,
+    network: record.network,
+    chainId: record.chainId,
+    version: resolvedVersion,
+    deployer: record.deployer,
+    takenAt: record.updatedAt,
+    contracts,
+  };
+};
+
+/**
+ * Snapshot of an in-memory DeploymentConfig, zero addresses are left out
+ */
+export const snapshotFromDeployment = (deployment: DeploymentConfig, source?: string): DeploymentSnapshot => {
+  const contracts: Record<string, ContractSnapshot> = {};
+  for (const [slot, address] of getContractSlots(deployment.addresses)) {
+    if (address !== ZeroAddress) contracts[slot] = { address };
+  }
+
+  return {
+    kind: DEPLOYMENT_SNAPSHOT_KIND,
+    source: source ?? `config:${deployment.network}@${deployment.version}`,
+    network: deployment.network,
+    chainId: deployment.chainId,
+    version: deployment.version,
+    deployer: deployment.deployer,
+    takenAt: deployment.deploymentDate ?? new Date().toISOString(),
+    contracts,
+  };
+};
+
+interface LegacyDeploymentFile {
+  network: string;
+  deployer?: string;
+  contracts: Record<string, unknown> & {
+    currencies?: { address: string; contract: string }[];
+    engines?: { address: string; contract: string }[];
+  };
+}
+
+/**
+ * Snapshot of a `deployment-<network>-<chainId>.json` file written by the pre-registry deploy script
+ */
+const snapshotFromLegacyFile = (data: LegacyDeploymentFile, source: string): DeploymentSnapshot => {
+  const contracts: Record<string, ContractSnapshot> = {};
+  const { currencies = [], engines = [], torqueUSD, ...core } = data.contracts;
+
+  for (const [slot, address] of Object.entries(core)) {
+    if (typeof address === 'string') contracts[slot] = { address };
+  }
+  if (typeof torqueUSD === 'string') contracts['currencies.USD'] = { address: torqueUSD };
+
+  for (const token of currencies) {
+    const currency = CURRENCY_LIST.find(entry => entry.tokenContract === token.contract);
+    if (currency) contracts[`currencies.${currency.code}`] = { address: token.address };
+  }
+  for (const engine of engines) {
+    const currency = CURRENCY_LIST.find(entry => entry.engineContract === engine.contract);
+    if (currency) contracts[`engines.${currency.code}`] = { address: engine.address };
+  }
+
+  const chainId = source.match(/deployment-.+-(\d+)\.json$/)?.[1];
+  return {
+    kind: DEPLOYMENT_SNAPSHOT_KIND,
+    source,
+    network: data.network,
+    chainId: chainId ? Number(chainId) : undefined,
+    deployer: data.deployer,
+    takenAt: new Date(0).toISOString(),
+    contracts,
+  };
+};
+
+/**
+ * Parse a snapshot file: a saved snapshot, a registry record or a legacy deployment file
+ */
+export const parseSnapshotFile = (data: unknown, source: string, version?: number): DeploymentSnapshot => {
+  const json = data as Record<string, any>;
+
+  if (json?.kind === DEPLOYMENT_SNAPSHOT_KIND) {
+    return { ...(json as DeploymentSnapshot), source };
+  }
+  if (typeof json?.schemaVersion === 'number' && Array.isArray(json.history)) {
+    return snapshotFromRecord(json as DeploymentRecord, version, source);
+  }
+  if (json?.contracts && typeof json.contracts === 'object' && typeof json.network === 'string') {
+    return snapshotFromLegacyFile(json as LegacyDeploymentFile, source);
+  }
+
+  throw new Error(`${source} is not a deployment snapshot, registry record or deployment file`);
+};
+
+/**
+ * Load a snapshot from a file path, `<network>` (current registry record) or `<network>@<version>`
+ */
+export const loadSnapshot = (spec: string): DeploymentSnapshot => {
+  const [target, versionPart] = spec.split('@');
+  const version = versionPart !== undefined ? Number(versionPart) : undefined;
+  if (version !== undefined && (!Number.isInteger(version) || version < 0)) {
+    throw new Error(`Invalid version in "${spec}"`);
+  }
+
+  if (existsSync(target)) {
+    return parseSnapshotFile(JSON.parse(readFileSync(target, 'utf8')), target, version);
+  }
+
+  const record = loadDeploymentRecord(target);
+  if (!record) {
+    throw new Error(`"${target}" is neither a file nor a network with a deployment record`);
+  }
+  return snapshotFromRecord(record, version);
+};
+
+const readGetter = async (contract: Contract, name: string): Promise<string | undefined> => {
+  try {
+    const value = await contract.getFunction(name).staticCall();
+    return typeof value === 'string' ? normalizeAddress(value) : String(value);
+  } catch {
+    // Not implemented by this contract, or reverted
+    return undefined;
+  }
+};
+
+/**
+ * Read code, owner and parameters for every contract of `base` from the chain
+ */
+export const readLiveSnapshot = async (
+  base: DeploymentSnapshot,
+  provider: Provider,
+  network?: string
+): Promise<DeploymentSnapshot> => {
+  const { chainId } = await provider.getNetwork();
+  const blockNumber = await provider.getBlockNumber();
+  const contracts: Record<string, ContractSnapshot> = {};
+
+  for (const [slot, { address }] of Object.entries(base.contracts)) {
+    const code = await provider.getCode(address, blockNumber);
+    if (code === '0x') {
+      contracts[slot] = { address, hasCode: false };
+      continue;
+    }
+
+    const getters = SNAPSHOT_GETTERS[slotGroup(slot)] ?? [];
+    const contract = new Contract(address, [OWNER_GETTER, ...getters], provider);
+    const params: Record<string, string> = {};
+    for (const fragment of contract.interface.fragments) {
+      const name = (fragment as { name?: string }).name;
+      if (!name || name === 'owner') continue;
+      const value = await readGetter(contract, name);
+      if (value !== undefined) params[name] = value;
+    }
+
+    contracts[slot] = {
+      address,
+      hasCode: true,
+      owner: await readGetter(contract, 'owner'),
+      params: Object.keys(params).length > 0 ? params : undefined,
+    };
+  }
+
+  return {
+    kind: DEPLOYMENT_SNAPSHOT_KIND,
+    source: `live:${network ?? base.network ?? chainId}`,
+    network: network ?? base.network,
+    chainId: Number(chainId),
+    version: base.version,
+    blockNumber,
+    deployer: base.deployer,
+    takenAt: new Date().toISOString(),
+    contracts,
+  };
+};
+
+const describeSnapshot = ({ contracts, ...meta }: DeploymentSnapshot): Omit<DeploymentSnapshot, 'contracts'> => meta;
+
+/**
+ * Compare two snapshots. Owners, code and parameters are only compared when both sides know them.
+ */
+export const diffSnapshots = (from: DeploymentSnapshot, to: DeploymentSnapshot): DeploymentDiff => {
+  const changes: DeploymentChange[] = [];
+  const slots = [...new Set([...Object.keys(from.contracts), ...Object.keys(to.contracts)])].sort();
+
+  for (const slot of slots) {
+    const before = from.contracts[slot];
+    const after = to.contracts[slot];
+
+    if (!before) {
+      changes.push({ kind: 'added', slot, to: after.address });
+      continue;
+    }
+    if (!after) {
+      changes.push({ kind: 'removed', slot, from: before.address });
+      continue;
+    }
+
+    if (!sameAddress(before.address, after.address)) {
+      changes.push({ kind: 'address', slot, from: before.address, to: after.address });
+    }
+    if (before.hasCode !== undefined && after.hasCode !== undefined && before.hasCode !== after.hasCode) {
+      changes.push({ kind: 'code', slot, from: String(before.hasCode), to: String(after.hasCode) });
+    }
+    if (before.owner !== undefined && after.owner !== undefined && !sameAddress(before.owner, after.owner)) {
+      changes.push({ kind: 'owner', slot, from: before.owner, to: after.owner });
+    }
+
+    if (before.params && after.params) {
+      const fields = [...new Set([...Object.keys(before.params), ...Object.keys(after.params)])].sort();
+      for (const field of fields) {
+        if (before.params[field] !== after.params[field]) {
+          changes.push({ kind: 'param', slot, field, from: before.params[field], to: after.params[field] });
+        }
+      }
+    }
+  }
+
+  const engines = (snapshot: DeploymentSnapshot) =>
+    new Set(Object.keys(snapshot.contracts).map(slot => slotCurrency(slot, 'engines')).filter(Boolean));
+  const tokens = (snapshot: DeploymentSnapshot) =>
+    new Set(Object.keys(snapshot.contracts).map(slot => slotCurrency(slot, 'currencies')).filter(Boolean));
+  const enginesBefore = engines(from);
+  const enginesAfter = engines(to);
+  const tokensAfter = tokens(to);
+
+  return {
+    from: describeSnapshot(from),
+    to: describeSnapshot(to),
+    identical: changes.length === 0,
+    changes,
+    enginesAdded: CURRENCY_CODES.filter(code => enginesAfter.has(code) && !enginesBefore.has(code)),
+    enginesRemoved: CURRENCY_CODES.filter(code => enginesBefore.has(code) && !enginesAfter.has(code)),
+    enginesSkipped: CURRENCY_CODES.filter(code => !enginesAfter.has(code)),
+    currenciesMissing: CURRENCY_CODES.filter(code => !tokensAfter.has(code)),
+  };
+};
+
+const CHANGE_MARKERS: Record<DeploymentChangeKind, string> = {
+  added: '➕',
+  removed: '➖',
+  address: '🔁',
+  code: '❌',
+  owner: '👤',
+  param: '⚙️ ',
+};
+
+const describeChange = (change: DeploymentChange): string => {
+  switch (change.kind) {
+    case 'added':
+      return `${change.slot}: added at ${change.to}`;
+    case 'removed':
+      return `${change.slot}: removed (was ${change.from})`;
+    case 'address':
+      return `${change.slot}: ${change.from} -> ${change.to}`;
+    case 'code':
+      return `${change.slot}: ${change.to === 'false' ? 'no code at address' : 'code deployed at address'}`;
+    case 'owner':
+      return `${change.slot}: owner ${change.from} -> ${change.to}`;
+    case 'param':
+      return `${change.slot}.${change.field}: ${change.from ?? 'unset'} -> ${change.to ?? 'unset'}`;
+  }
+};
+
+/**
+ * Human-readable diff report, the JSON form is the DeploymentDiff itself
+ */
+export const formatDeploymentDiff = (diff: DeploymentDiff): string => {
+  const lines: string[] = [];
+  const describe = (meta: Omit<DeploymentSnapshot, 'contracts'>) => {
+    const details = [
+      meta.chainId !== undefined ? `chain ${meta.chainId}` : undefined,
+      meta.version !== undefined ? `v${meta.version}` : undefined,
+      meta.blockNumber !== undefined ? `block ${meta.blockNumber}` : undefined,
+    ].filter(Boolean);
+    return details.length > 0 ? `${meta.source} (${details.join(', ')})` : meta.source;
+  };
+
+  lines.push(`From: ${describe(diff.from)}`);
+  lines.push(`To:   ${describe(diff.to)}`);
+  if (diff.from.chainId !== undefined && diff.to.chainId !== undefined && diff.from.chainId !== diff.to.chainId) {
+    lines.push(`⚠️  Snapshots are for different chains (${diff.from.chainId} vs ${diff.to.chainId})`);
+  }
+  lines.push('');
+
+  if (diff.identical) {
+    lines.push('✅ No changes');
+  } else {
+    lines.push(`📋 ${diff.changes.length} change(s):`);
+    diff.changes.forEach(change => lines.push(`  ${CHANGE_MARKERS[change.kind]} ${describeChange(change)}`));
+  }
+
+  if (diff.enginesAdded.length > 0) lines.push(`\nEngines added: ${diff.enginesAdded.join(', ')}`);
+  if (diff.enginesRemoved.length > 0) lines.push(`\nEngines removed: ${diff.enginesRemoved.join(', ')}`);
+  if (diff.enginesSkipped.length > 0) lines.push(`\n⏭️  Engines not deployed: ${diff.enginesSkipped.join(', ')}`);
+  if (diff.currenciesMissing.length > 0) lines.push(`\n⚠️  Currency tokens missing: ${diff.currenciesMissing.join(', ')}`);
+
+  return lines.join('\n');
+};
@@ -224,11 +224,11 @@ export const getLayerZeroEndpoint = (network: string): string => {
 };
 
 /**
- * Get LayerZero endpoint ID for a network
+ * Get the LayerZero v2 endpoint ID (EID) for a network
  */
 export const getLayerZeroEndpointId = (network: string): number => {
   const chain = CHAINS[network];
-  return chain?.layerZero.endpointId || 0;
+  return chain?.layerZero.eid || 0;
 };
 
 /**
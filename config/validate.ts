@@ -0,0 +1,686 @@
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import path from 'path';
+import { getAddress, ZeroAddress } from 'ethers';
+import { endpointIdToChain, endpointIdToStage, endpointIdToVersion, EndpointVersion, Stage } from '@layerzerolabs/lz-definitions';
+import { CHAINS, ChainConfig } from './chains';
+import { COLLATERALS, CollateralConfig, ENGINE_COLLATERAL_POLICIES, EngineCollateralPolicy } from './collaterals';
+import { isCurrencyCode } from './currencies';
+import { ALL_DEPLOYMENTS, DeploymentConfig, getContractSlots, getDeploymentSlots, getSlotContractName } from './contracts';
+import { DETERMINISTIC_DEPLOYMENT, DeterministicDeploymentConfig } from './deterministic';
+import { LAYERZERO, LayerZeroConfig } from './layerzero';
+import { LAYERZERO_PROTOCOL, LayerZeroProtocolConfig, REQUIRED_DVN_PROVIDERS } from './messaging';
+import { ORACLE_LIB_TIMEOUT, PRICE_FEEDS, PriceFeedConfig, isOracleLibCompatible } from './priceFeeds';
+import { SAFES } from './safes';
+
+/**
+ * Static validation of the Torque FX configuration tables
+ */
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  // Network the issue belongs to, undefined for global issues
+  network?: string;
+  // Where the offending value lives, e.g. `collaterals.USDC.priceFeeds` or `deploy/02_engines.ts:42`
+  source: string;
+  message: string;
+}
+
+export interface NetworkValidationReport {
+  network: string;
+  chainId?: number;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+export interface ConfigValidationResult {
+  valid: boolean;
+  issues: ValidationIssue[];
+  networks: Record<string, NetworkValidationReport>;
+  global: ValidationIssue[];
+}
+
+export interface ScriptChainReference {
+  file: string;
+  line: number;
+  chainId: number;
+  label?: string;
+}
+
+export interface ScriptAddressReference {
+  file: string;
+  line: number;
+  address: string;
+}
+
+export interface ConfigValidationSources {
+  chains?: Record<string, ChainConfig>;
+  collaterals?: Record<string, CollateralConfig>;
+  collateralPolicies?: Record<string, EngineCollateralPolicy>;
+  priceFeeds?: Record<string, Record<string, PriceFeedConfig>>;
+  layerZero?: Record<string, LayerZeroConfig>;
+  layerZeroProtocol?: Record<string, LayerZeroProtocolConfig>;
+  deployments?: Record<string, DeploymentConfig>;
+  deterministic?: DeterministicDeploymentConfig;
+  safes?: Record<string, string>;
+  // Resolved hardhat `networks` section, e.g. `hre.config.networks`
+  hardhatNetworks?: Record<string, { chainId?: number }>;
+  // Directories scanned for chain-ID keyed tables and address literals, `false` to skip
+  scriptsDir?: string | string[] | false;
+  // Directory scanned for hardcoded uint16 chain IDs and constructor owners in the Solidity sources, `false` to skip
+  contractsDir?: string | false;
+}
+
+const LOCAL_NETWORKS = ['hardhat', 'localhost'];
+const ADDRESS_PATTERN = /^0x[0-9a-fA-F]{40}$/;
+const ADDRESS_LITERAL = /["'](0x[0-9a-fA-F.]+)["']/g;
+// Matches chain-ID keyed entries such as `421613: { // Arbitrum Sepolia` or `1: "0x...", // Ethereum mainnet`
+const CHAIN_ID_ENTRY = /^\s*(\d{1,10})\s*:\s*[^/\n]*?(?:\/\/\s*(.+))?$/;
+// Matches `uint16 public constant ARBITRUM_CHAIN_ID = 42161;` and `supportedChainIds[42161] = true; // Arbitrum`
+const CONTRACT_CHAIN_CONSTANT = /\b(\w+)_CHAIN_ID\s*=\s*(\d+)\s*;/;
+const CONTRACT_CHAIN_ENTRY = /supportedChainIds\[(\d+)\]\s*=\s*true;\s*\/\/\s*(.+)$/;
+const SENDER_OWNER = /\b(?:Ownable|OFTCore)\([^)]*\bmsg\.sender\)/;
+const UINT16_MAX = 0xffff;
+const IGNORED_NAME_WORDS = ['mainnet', 'one', 'chain', 'smart', 'network', 'c'];
+
+// Run scripts and hardhat-deploy modules
+const DEFAULT_SCRIPTS_DIRS = [path.resolve(__dirname, '../scripts'), path.resolve(__dirname, '../deploy')];
+const DEFAULT_CONTRACTS_DIR = path.resolve(__dirname, '../contracts');
+
+/**
+ * Checks an address literal and returns a problem description, or undefined when it is valid
+ */
+export const checkAddress = (
+  address: string,
+  options: { allowZero?: boolean } = {}
+): { severity: ValidationSeverity; message: string } | undefined => {
+  if (!ADDRESS_PATTERN.test(address)) {
+    return { severity: 'error', message: `placeholder or malformed address "${address}"` };
+  }
+
+  if (address === ZeroAddress) {
+    return options.allowZero ? undefined : { severity: 'error', message: 'zero address' };
+  }
+
+  let checksummed: string;
+  try {
+    checksummed = getAddress(address.toLowerCase());
+  } catch {
+    return { severity: 'error', message: `invalid address "${address}"` };
+  }
+
+  if (checksummed === address) return undefined;
+
+  if (address === address.toLowerCase()) {
+    return { severity: 'warning', message: `address ${address} is not checksummed (expected ${checksummed})` };
+  }
+
+  return { severity: 'error', message: `bad checksum for ${address} (expected ${checksummed})` };
+};
+
+const normalizeName = (value: string): string => {
+  return value
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word && !IGNORED_NAME_WORDS.includes(word))
+    .join('');
+};
+
+/**
+ * Resolve the configured chains a free-form label (e.g. "Ethereum mainnet") names exactly
+ */
+const findChainsByLabel = (label: string, chains: Record<string, ChainConfig>): [string, ChainConfig][] => {
+  const wanted = normalizeName(label);
+  if (!wanted) return [];
+
+  return Object.entries(chains).filter(([key, chain]) =>
+    [key, chain.name, chain.network].map(normalizeName).includes(wanted)
+  );
+};
+
+/**
+ * Collect chain-ID keyed table entries and address literals from the deployment scripts
+ */
+export const scanScripts = (
+  scriptsDir: string | string[] = DEFAULT_SCRIPTS_DIRS
+): { chainIds: ScriptChainReference[]; addresses: ScriptAddressReference[] } => {
+  const chainIds: ScriptChainReference[] = [];
+  const addresses: ScriptAddressReference[] = [];
+
+  const files = [scriptsDir].flat()
+    .filter(dir => existsSync(dir))
+    .flatMap(dir => readdirSync(dir).filter(file => file.endsWith('.ts')).map(file => path.join(dir, file)));
+  for (const file of files) {
+    const relative = path.join(path.basename(path.dirname(file)), path.basename(file));
+    const lines = readFileSync(file, 'utf8').split('\n');
+
+    lines.forEach((text, index) => {
+      const line = index + 1;
+
+      const entry = text.match(CHAIN_ID_ENTRY);
+      if (entry) {
+        chainIds.push({
+          file: relative,
+          line,
+          chainId: Number(entry[1]),
+          label: entry[2]?.trim(),
+        });
+      }
+
+      for (const match of text.matchAll(ADDRESS_LITERAL)) {
+        addresses.push({ file: relative, line, address: match[1] });
+      }
+    });
+  }
+
+  return { chainIds, addresses };
+};
+
+/**
+ * Collect the legacy uint16 chain IDs hardcoded in the top-level Solidity contracts
+ */
+export const scanContractChainIds = (contractsDir: string = DEFAULT_CONTRACTS_DIR): ScriptChainReference[] => {
+  const references: ScriptChainReference[] = [];
+  if (!existsSync(contractsDir)) return references;
+
+  const files = readdirSync(contractsDir).filter(file => file.endsWith('.sol'));
+  for (const file of files) {
+    const relative = path.join(path.basename(contractsDir), file);
+    const lines = readFileSync(path.join(contractsDir, file), 'utf8').split('\n');
+
+    lines.forEach((text, index) => {
+      const constant = text.match(CONTRACT_CHAIN_CONSTANT);
+      const entry = text.match(CONTRACT_CHAIN_ENTRY);
+      if (constant) {
+        references.push({ file: relative, line: index + 1, chainId: Number(constant[2]), label: constant[1] });
+      } else if (entry) {
+        references.push({ file: relative, line: index + 1, chainId: Number(entry[1]), label: entry[2].trim() });
+      }
+    });
+  }
+
+  return references;
+};
+
+const findContractSource = (name: string, dir: string): string | undefined => {
+  if (!existsSync(dir)) return undefined;
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      const found = findContractSource(name, file);
+      if (found) return found;
+    } else if (entry.name === `${name}.sol`) {
+      return file;
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Contract in `name`'s inheritance chain whose constructor makes msg.sender the owner, as
+ * `Ownable(msg.sender)` or `OFTCore(..., msg.sender)` do
+ */
+export const findSenderOwnedContract = (name: string, contractsDir: string = DEFAULT_CONTRACTS_DIR): string | undefined => {
+  const file = findContractSource(name, contractsDir);
+  if (!file) return undefined;
+
+  const source = readFileSync(file, 'utf8');
+  if (SENDER_OWNER.test(source)) return name;
+
+  const parents = source.match(new RegExp(`contract\\s+${name}\\s+is\\s+([^{]+)\\{`))?.[1] ?? '';
+  for (const parent of parents.split(',').map(entry => entry.trim().split(/[\s(]/)[0])) {
+    const owner = parent ? findSenderOwnedContract(parent, contractsDir) : undefined;
+    if (owner) return owner;
+  }
+  return undefined;
+};
+
+/**
+ * Validate every configuration table and cross-check them against each other
+ */
+export const validateConfig = (sources: ConfigValidationSources = {}): ConfigValidationResult => {
+  const chains = sources.chains ?? CHAINS;
+  const collaterals = sources.collaterals ?? COLLATERALS;
+  const collateralPolicies = sources.collateralPolicies ?? ENGINE_COLLATERAL_POLICIES;
+  const priceFeeds = sources.priceFeeds ?? PRICE_FEEDS;
+  const layerZero = sources.layerZero ?? LAYERZERO;
+  const layerZeroProtocol = sources.layerZeroProtocol ?? LAYERZERO_PROTOCOL;
+  const deployments = sources.deployments ?? ALL_DEPLOYMENTS;
+  const deterministic = sources.deterministic ?? DETERMINISTIC_DEPLOYMENT;
+  const safes = sources.safes ?? SAFES;
+  const issues: ValidationIssue[] = [];
+
+  const report = (severity: ValidationSeverity, source: string, message: string, network?: string) => {
+    issues.push({ severity, network, source, message });
+  };
+
+  const reportAddress = (
+    address: string,
+    source: string,
+    network?: string,
+    options: { allowZero?: boolean } = {}
+  ) => {
+    const problem = checkAddress(address, options);
+    if (problem) report(problem.severity, source, problem.message, network);
+  };
+
+  // Chains
+  const chainIds = new Map<number, string>();
+  for (const [key, chain] of Object.entries(chains)) {
+    const source = `chains.${key}`;
+
+    const existing = chainIds.get(chain.id);
+    if (existing) {
+      report('error', source, `chain ID ${chain.id} is also used by ${existing}`, key);
+    } else {
+      chainIds.set(chain.id, key);
+    }
+
+    if (chain.rpcUrls.http.length === 0) {
+      report('warning', `${source}.rpcUrls`, 'no public RPC URLs configured', key);
+    }
+  }
+
+  // LayerZero
+  const networksByEid = new Map<number, string>();
+  for (const [key, config] of Object.entries(layerZero)) {
+    const source = `layerZero.${key}`;
+    const chain = chains[key];
+
+    if (!chain) {
+      report('error', source, `unknown network "${key}"`);
+    } else {
+      if (chain.id !== config.chainId) {
+        report('error', `${source}.chainId`, `chain ID ${config.chainId} does not match CHAINS (${chain.id})`, key);
+      }
+      if (chain.layerZero.eid !== config.eid || chain.layerZero.endpoint !== config.endpoint) {
+        report('error', `chains.${key}.layerZero`, 'differs from config/layerzero.ts', key);
+      }
+    }
+
+    reportAddress(config.endpoint, `${source}.endpoint`, key);
+
+    const existing = networksByEid.get(config.eid);
+    if (existing) {
+      report('error', `${source}.eid`, `EID ${config.eid} is also used by ${existing}`, key);
+    } else {
+      networksByEid.set(config.eid, key);
+    }
+
+    try {
+      if (endpointIdToVersion(config.eid) !== EndpointVersion.V2) {
+        report('error', `${source}.eid`, `${config.eid} is not a LayerZero v2 endpoint ID`, key);
+      }
+      if (endpointIdToVersion(config.v1EndpointId) !== EndpointVersion.V1) {
+        report('error', `${source}.v1EndpointId`, `${config.v1EndpointId} is not a LayerZero v1 endpoint ID`, key);
+      }
+      if (endpointIdToChain(config.eid) !== endpointIdToChain(config.v1EndpointId)) {
+        report('error', source, `EID ${config.eid} and v1 ID ${config.v1EndpointId} belong to different chains`, key);
+      }
+      const testnet = endpointIdToStage(config.eid) !== Stage.MAINNET;
+      if (chain && chain.testnet !== testnet) {
+        report('error', `${source}.eid`, `EID ${config.eid} is a ${testnet ? 'testnet' : 'mainnet'} endpoint ID`, key);
+      }
+    } catch (error: any) {
+      report('error', source, error?.message || 'unknown LayerZero endpoint ID', key);
+    }
+
+    if (config.legacyChainId !== undefined && config.legacyChainId > UINT16_MAX) {
+      report('error', `${source}.legacyChainId`, `${config.legacyChainId} does not fit in uint16`, key);
+    }
+  }
+
+  for (const key of Object.keys(chains)) {
+    if (!layerZero[key]) {
+      report('error', `layerZero.${key}`, 'no LayerZero entry for this network', key);
+    }
+  }
+
+  // LayerZero messaging
+  for (const [key, protocol] of Object.entries(layerZeroProtocol)) {
+    const source = `messaging.${key}`;
+    const chain = chains[key];
+    if (!chain) {
+      report('error', source, `unknown network "${key}"`);
+    }
+
+    reportAddress(protocol.sendLibrary, `${source}.sendLibrary`, key);
+    reportAddress(protocol.receiveLibrary, `${source}.receiveLibrary`, key);
+    reportAddress(protocol.executor, `${source}.executor`, key);
+    for (const [provider, dvn] of Object.entries(protocol.dvns)) {
+      reportAddress(dvn, `${source}.dvns.${provider}`, key);
+    }
+
+    // Testnets may run with the LayerZero Labs DVN alone
+    const missing = REQUIRED_DVN_PROVIDERS.filter(provider => !protocol.dvns[provider]);
+    if (chain && !chain.testnet && missing.length > 0) {
+      report('error', `${source}.dvns`, `no ${missing.join(', ')} DVN`, key);
+    }
+    if (!Number.isInteger(protocol.confirmations) || protocol.confirmations < 1) {
+      report('error', `${source}.confirmations`, `${protocol.confirmations} is not a positive block count`, key);
+    }
+  }
+
+  for (const key of Object.keys(chains)) {
+    if (!layerZeroProtocol[key]) {
+      report('warning', `messaging.${key}`, 'no LayerZero libraries or DVNs configured, OApp config is not generated', key);
+    }
+  }
+
+  // The legacy contracts compare uint16(_origin.srcEid) against these IDs, which v2 EIDs never equal
+  const mismatchedLegacyIds = Object.entries(layerZero)
+    .filter(([, config]) => config.legacyChainId !== undefined && config.legacyChainId !== config.eid)
+    .map(([key]) => key);
+  if (mismatchedLegacyIds.length > 0) {
+    report(
+      'warning',
+      'layerZero',
+      `legacy uint16 chain IDs differ from the v2 EIDs, inbound messages to TorqueBatchHandler/TorqueDEX/TorqueStake will not resolve their source: ${mismatchedLegacyIds.join(', ')}`
+    );
+  }
+
+  if (sources.contractsDir !== false) {
+    for (const reference of scanContractChainIds(sources.contractsDir ?? DEFAULT_CONTRACTS_DIR)) {
+      const source = `${reference.file}:${reference.line}`;
+      const named = reference.label ? findChainsByLabel(reference.label, chains) : [];
+
+      if (named.length === 0) {
+        report('warning', source, `chain ID ${reference.chainId} labelled "${reference.label}" is not a configured chain`);
+        continue;
+      }
+
+      const [key] = named[0];
+      const expected = layerZero[key]?.legacyChainId;
+      if (expected !== reference.chainId) {
+        report(
+          'error',
+          source,
+          `chain ID ${reference.chainId} for "${reference.label}" does not match layerZero.${key}.legacyChainId (${expected ?? 'unset'})`,
+          key
+        );
+      }
+    }
+  }
+
+  // Price feeds
+  for (const [network, feeds] of Object.entries(priceFeeds)) {
+    if (!chains[network]) {
+      report('error', `priceFeeds.${network}`, `unknown network "${network}"`);
+    }
+
+    const pairsByAddress = new Map<string, string>();
+    const slowFeeds: string[] = [];
+    for (const [pair, feed] of Object.entries(feeds)) {
+      const source = `priceFeeds.${network}.${pair}`;
+      reportAddress(feed.address, source, network);
+
+      if (pair !== `${feed.base}_${feed.quote}`) {
+        report('error', source, `pair key does not match base/quote ${feed.base}/${feed.quote}`, network);
+      }
+
+      const other = pairsByAddress.get(feed.address.toLowerCase());
+      if (other) {
+        report('error', source, `same feed address as ${other}`, network);
+      } else {
+        pairsByAddress.set(feed.address.toLowerCase(), pair);
+      }
+
+      if (!isOracleLibCompatible(feed)) slowFeeds.push(pair);
+    }
+
+    if (slowFeeds.length > 0) {
+      report(
+        'warning',
+        `priceFeeds.${network}`,
+        `heartbeat exceeds OracleLib timeout (${ORACLE_LIB_TIMEOUT / 3600}h), engines revert in quiet markets: ${slowFeeds.join(', ')}`,
+        network
+      );
+    }
+  }
+
+  // Collaterals
+  // network -> lower-cased address -> asset labels using it
+  const assetAddresses: Record<string, Map<string, Set<string>>> = {};
+  const registerAsset = (network: string, address: string, asset: string) => {
+    if (!ADDRESS_PATTERN.test(address) || address === ZeroAddress) return;
+    const byAddress = (assetAddresses[network] ??= new Map());
+    const assets = byAddress.get(address.toLowerCase()) ?? new Set<string>();
+    assets.add(asset);
+    byAddress.set(address.toLowerCase(), assets);
+  };
+
+  for (const [key, collateral] of Object.entries(collaterals)) {
+    if (key !== collateral.symbol.toUpperCase()) {
+      report('error', `collaterals.${key}`, `registry key does not match symbol ${collateral.symbol}`);
+    }
+
+    for (const [network, address] of Object.entries(collateral.addresses)) {
+      const source = `collaterals.${key}.addresses.${network}`;
+      if (!chains[network]) {
+        report('error', source, `unknown network "${network}"`);
+      }
+      reportAddress(address, source, network);
+      registerAsset(network, address, `${collateral.symbol} token`);
+
+      if (!collateral.priceFeeds[network]) {
+        report('warning', `collaterals.${key}.priceFeeds`, `${collateral.symbol} has no price feed`, network);
+      }
+    }
+
+    for (const [network, feed] of Object.entries(collateral.priceFeeds)) {
+      const source = `collaterals.${key}.priceFeeds.${network}`;
+      if (!collateral.addresses[network]) {
+        report('error', source, `price feed configured without a ${collateral.symbol} token address`, network);
+      }
+      reportAddress(feed, source, network);
+      registerAsset(network, feed, `${collateral.symbol} feed`);
+    }
+  }
+
+  for (const [network, byAddress] of Object.entries(assetAddresses)) {
+    for (const [address, assets] of byAddress) {
+      const symbols = new Set([...assets].map(asset => asset.split(' ')[0]));
+      if (symbols.size > 1) {
+        report('error', 'collaterals', `${address} is used for different assets: ${[...assets].join(', ')}`, network);
+      }
+    }
+  }
+
+  // Engine collateral policies
+  for (const [code, policy] of Object.entries(collateralPolicies)) {
+    const source = `collateralPolicies.${code}`;
+    if (!isCurrencyCode(code)) {
+      report('error', source, `unknown currency "${code}"`);
+    }
+    for (const symbol of [...(policy.allow ?? []), ...(policy.deny ?? [])]) {
+      if (!collaterals[symbol.toUpperCase()]) {
+        report('error', source, `unknown collateral "${symbol}"`);
+      }
+    }
+  }
+
+  // Deterministic deployment
+  reportAddress(deterministic.factory, 'deterministic.factory');
+  const deploymentSlots = getDeploymentSlots();
+  const saltSlots = new Map<string, string>();
+  for (const [slot, label] of Object.entries(deterministic.salts)) {
+    const source = `deterministic.salts.${slot}`;
+    if (!deploymentSlots.includes(slot)) {
+      report('error', source, `unknown contract slot "${slot}"`);
+      continue;
+    }
+
+    const existing = saltSlots.get(label);
+    if (existing) {
+      report('error', source, `salt "${label}" is also used by ${existing}`);
+    } else {
+      saltSlots.set(label, slot);
+    }
+
+    const owner = sources.contractsDir === false
+      ? undefined
+      : findSenderOwnedContract(getSlotContractName(slot)!, sources.contractsDir ?? DEFAULT_CONTRACTS_DIR);
+    if (owner) {
+      report('error', source, `${owner} makes msg.sender its owner, deployed through the factory it would be owned by the factory`);
+    }
+  }
+
+  // Deployments
+  for (const [key, deployment] of Object.entries(deployments)) {
+    const source = `deployments.${key}`;
+    const chain = chains[key];
+
+    if (!chain) {
+      report('error', source, 'deployment for a network missing from CHAINS', key);
+    } else {
+      if (chain.id !== deployment.chainId) {
+        report('error', `${source}.chainId`, `chain ID ${deployment.chainId} does not match CHAINS (${chain.id})`, key);
+      }
+      if (chain.network !== deployment.network) {
+        report('error', `${source}.network`, `network "${deployment.network}" does not match CHAINS ("${chain.network}")`, key);
+      }
+    }
+
+    const seen = new Map<string, string>();
+    for (const [slot, address] of getContractSlots(deployment.addresses)) {
+      reportAddress(address, `${source}.addresses.${slot}`, key, { allowZero: true });
+      if (address === ZeroAddress || !ADDRESS_PATTERN.test(address)) continue;
+
+      const other = seen.get(address.toLowerCase());
+      if (other) {
+        report('error', `${source}.addresses.${slot}`, `same address as ${other}`, key);
+      } else {
+        seen.set(address.toLowerCase(), slot);
+      }
+    }
+
+    if (deployment.deployed && deployment.addresses.torqueDEX === ZeroAddress) {
+      report('error', source, 'marked as deployed but has no TorqueDEX address', key);
+    }
+  }
+
+  // Safes
+  for (const [key, safe] of Object.entries(safes)) {
+    const source = `safes.${key}`;
+    if (!chains[key]) {
+      report('error', source, `unknown network "${key}"`);
+    }
+    reportAddress(safe, source, key);
+  }
+
+  // Hardhat networks
+  if (sources.hardhatNetworks) {
+    for (const [name, network] of Object.entries(sources.hardhatNetworks)) {
+      if (LOCAL_NETWORKS.includes(name)) continue;
+
+      const source = `hardhat.networks.${name}`;
+      const chain = chains[name];
+      if (!chain) {
+        report('error', source, 'hardhat network missing from CHAINS', name);
+      } else if (network.chainId === undefined) {
+        report('warning', source, `no chainId set (CHAINS says ${chain.id})`, name);
+      } else if (network.chainId !== chain.id) {
+        report('error', `${source}.chainId`, `chain ID ${network.chainId} does not match CHAINS (${chain.id})`, name);
+      }
+    }
+
+    for (const key of Object.keys(chains)) {
+      if (!sources.hardhatNetworks[key]) {
+        report('warning', 'hardhat.networks', 'chain has no hardhat network', key);
+      }
+    }
+  }
+
+  // Scripts
+  if (sources.scriptsDir !== false) {
+    const scanned = scanScripts(sources.scriptsDir ?? DEFAULT_SCRIPTS_DIRS);
+
+    for (const reference of scanned.chainIds) {
+      const source = `${reference.file}:${reference.line}`;
+      const network = chainIds.get(reference.chainId);
+      const named = reference.label ? findChainsByLabel(reference.label, chains) : [];
+
+      if (named.length > 0 && !named.some(([, chain]) => chain.id === reference.chainId)) {
+        const expected = named.map(([key, chain]) => `${key}=${chain.id}`).join(', ');
+        report(
+          'error',
+          source,
+          `chain ID ${reference.chainId} labelled "${reference.label}" does not match CHAINS (${expected})`,
+          named[0][0]
+        );
+      } else if (!network) {
+        const label = reference.label ? ` (${reference.label})` : '';
+        report('warning', source, `chain ID ${reference.chainId}${label} is not a configured chain`);
+      }
+    }
+
+    for (const reference of scanned.addresses) {
+      reportAddress(reference.address, `${reference.file}:${reference.line}`, undefined, { allowZero: true });
+    }
+  }
+
+  // Group per network
+  const networks: Record<string, NetworkValidationReport> = {};
+  const networkNames = new Set([
+    ...Object.keys(chains),
+    ...Object.keys(deployments),
+    ...issues.map(issue => issue.network).filter((network): network is string => !!network),
+  ]);
+
+  for (const network of networkNames) {
+    const networkIssues = issues.filter(issue => issue.network === network);
+    networks[network] = {
+      network,
+      chainId: chains[network]?.id,
+      errors: networkIssues.filter(issue => issue.severity === 'error'),
+      warnings: networkIssues.filter(issue => issue.severity === 'warning'),
+    };
+  }
+
+  return {
+    valid: !issues.some(issue => issue.severity === 'error'),
+    issues,
+    networks,
+    global: issues.filter(issue => !issue.network),
+  };
+};
+
+/**
+ * Render a validation result as a per-network text report
+ */
+export const formatValidationReport = (
+  result: ConfigValidationResult,
+  options: { showWarnings?: boolean } = {}
+): string => {
+  const { showWarnings = true } = options;
+  const lines: string[] = [];
+
+  const describe = (issue: ValidationIssue) => {
+    const marker = issue.severity === 'error' ? '❌' : '⚠️ ';
+    return `    ${marker} ${issue.source}: ${issue.message}`;
+  };
+
+  for (const report of Object.values(result.networks)) {
+    const status = report.errors.length > 0 ? 'FAIL' : 'PASS';
+    const chainId = report.chainId !== undefined ? ` (${report.chainId})` : '';
+    lines.push(`${status}  ${report.network}${chainId}: ${report.errors.length} error(s), ${report.warnings.length} warning(s)`);
+
+    report.errors.forEach(issue => lines.push(describe(issue)));
+    if (showWarnings) report.warnings.forEach(issue => lines.push(describe(issue)));
+  }
+
+  const globalErrors = result.global.filter(issue => issue.severity === 'error');
+  const globalWarnings = result.global.filter(issue => issue.severity === 'warning');
+  if (result.global.length > 0) {
+    const status = globalErrors.length > 0 ? 'FAIL' : 'PASS';
+    lines.push(`${status}  global: ${globalErrors.length} error(s), ${globalWarnings.length} warning(s)`);
+    globalErrors.forEach(issue => lines.push(describe(issue)));
+    if (showWarnings) globalWarnings.forEach(issue => lines.push(describe(issue)));
+  }
+
+  lines.push('');
+  lines.push(result.valid ? '✅ Configuration is valid' : '❌ Configuration has errors');
+
+  return lines.join('\n');
+};
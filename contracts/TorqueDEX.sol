@@ -190,6 +190,7 @@ contract TorqueDEX is OApp, ReentrancyGuard {
      * @param customFeeBps Custom fee in basis points (1-1000, where 1000 = 10%)
      * @return lpTokenAddress Address of the created LP token contract
      * @notice Only callable by the contract owner
+     * @notice The LP token is minted and burned by this DEX only; the DEX owner owns it and is its endpoint delegate
      * @notice Emits PoolCreated event
      */
     function createPool(
@@ -200,7 +201,7 @@ contract TorqueDEX is OApp, ReentrancyGuard {
         address feeRecipient,
         bool isStablePair,
         uint256 customFeeBps
-    ) external onlyOwner returns (address lpTokenAddress) {
+    ) public onlyOwner returns (address lpTokenAddress) {
         if (baseToken == address(0) || quoteToken == address(0)) {
             revert TorqueDEX__InvalidTokens();
         }
@@ -227,8 +228,12 @@ contract TorqueDEX is OApp, ReentrancyGuard {
         string memory lpName = string(abi.encodePacked("Torque ", pairName, " LP"));
         string memory lpSymbol = string(abi.encodePacked("T", token0Symbol, "/", token1Symbol));
         
-        TorqueLP lpToken = new TorqueLP(lpName, lpSymbol, address(endpoint), owner());
+        // Owned by the DEX until it is set as the minter. The DEX owner then becomes the LP's
+        // endpoint delegate and owner, as it would deploying the LP itself.
+        TorqueLP lpToken = new TorqueLP(lpName, lpSymbol, address(endpoint), address(this));
         lpToken.setDEX(address(this));
+        lpToken.setDelegate(owner());
+        lpToken.transferOwnership(owner());
         
         Pool storage pool = pools[pairHash];
         pool.baseToken = baseToken;
@@ -273,7 +278,7 @@ contract TorqueDEX is OApp, ReentrancyGuard {
         if (!defaultQuoteAssetSet) {
             revert TorqueDEX__DefaultQuoteAssetNotSet();
         }
-        return this.createPool(
+        return createPool(
             baseToken,
             defaultQuoteAsset,
             pairName,
@@ -8,6 +8,9 @@ import "@openzeppelin/contracts/access/Ownable.sol";
  * @dev Simple mock implementation of LayerZero endpoint for testing purposes
  */
 contract MockLayerZeroEndpoint is Ownable {
+    // LayerZero v2 delegate per OApp, set by every OApp constructor
+    mapping(address => address) public delegates;
+
     constructor() Ownable(msg.sender) {}
 
     // Mock events
@@ -49,6 +52,14 @@ contract MockLayerZeroEndpoint is Ownable {
         emit Receive(_srcChainId, _source, _destination, _payload);
     }
 
+    event DelegateSet(address sender, address delegate);
+
+    // Mock v2 delegate registration - record it so OApps can be deployed against this endpoint
+    function setDelegate(address _delegate) external {
+        delegates[msg.sender] = _delegate;
+        emit DelegateSet(msg.sender, _delegate);
+    }
+
     // Mock fee estimation - return fixed fees
     function estimateFees(
         uint16,
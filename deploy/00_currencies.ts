@@ -0,0 +1,38 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { CURRENCIES, QUOTE_CURRENCY, getPoolCurrencies } from '../config/currencies';
+import { getDeployContext } from '../scripts/utils/deploy';
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { network } = hre;
+  const { deployer, lzEndpoint, link, log, deployContract } = await getDeployContext(hre);
+
+  log(`\nDeploying Torque currency tokens to ${network.name}...`);
+  log(`Deployer: ${link(deployer)}`);
+  log(`LayerZero Endpoint: ${link(lzEndpoint)}`);
+
+  // Deploy TorqueUSD (TUSD) - the quote asset for all pairs; currency tokens are owned by the deployer
+  const quote = CURRENCIES[QUOTE_CURRENCY];
+  log(`\nDeploying ${quote.tokenContract} (${quote.tokenSymbol})...`);
+  const torqueUSD = await deployContract(`currencies.${quote.code}`, quote.tokenContract, [
+    quote.tokenName,
+    quote.tokenSymbol,
+    lzEndpoint,
+  ]);
+  log(`${quote.tokenContract} deployed to: ${link(torqueUSD.address)}`);
+
+  // Deploy the currency tokens traded against TUSD
+  for (const currency of getPoolCurrencies()) {
+    const deployed = await deployContract(`currencies.${currency.code}`, currency.tokenContract, [
+      currency.tokenName,
+      currency.tokenSymbol,
+      lzEndpoint,
+    ]);
+    log(`${currency.tokenSymbol} deployed to: ${link(deployed.address)}`);
+  }
+};
+
+func.tags = ['Torque', 'Deploy', 'Currencies'];
+func.dependencies = [];
+
+export default func;
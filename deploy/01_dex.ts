@@ -0,0 +1,50 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { ethers } from 'hardhat';
+import { CURRENCIES, QUOTE_CURRENCY } from '../config/currencies';
+import { formatTx } from '../config/explorers';
+import { getDeployContext } from '../scripts/utils/deploy';
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, network } = hre;
+  const { deployer, lzEndpoint, link, log, deployContract, applySetting } = await getDeployContext(hre);
+  const quote = CURRENCIES[QUOTE_CURRENCY];
+  const torqueUSD = await deployments.get(quote.tokenContract);
+
+  // Deploy TorqueDEX (main DEX contract with pool management)
+  log('\nDeploying TorqueDEX...');
+  const torqueDEX = await deployContract('torqueDEX', 'TorqueDEX', [lzEndpoint, deployer]);
+  log(`TorqueDEX deployed to: ${link(torqueDEX.address)}`);
+
+  // Set TUSD token in DEX
+  const dexContract = await ethers.getContractAt('TorqueDEX', torqueDEX.address);
+  const receipt = await applySetting('torqueDEX.setDefaultQuoteAsset', {
+    contract: 'torqueDEX',
+    target: dexContract,
+    method: 'setDefaultQuoteAsset',
+    args: [torqueUSD.address],
+    description: `setDefaultQuoteAsset ${quote.tokenSymbol}`,
+    isApplied: async () => (await dexContract.defaultQuoteAsset()).toLowerCase() === torqueUSD.address.toLowerCase(),
+  });
+  if (receipt) {
+    log(`${quote.tokenSymbol} token set in DEX: ${formatTx(network.name, receipt.hash)}`);
+  }
+
+  // Pools created with the default quote take their fee recipient from here
+  const feeReceipt = await applySetting('torqueDEX.setDefaultFeeRecipient', {
+    contract: 'torqueDEX',
+    target: dexContract,
+    method: 'setDefaultFeeRecipient',
+    args: [deployer],
+    description: 'setDefaultFeeRecipient deployer',
+    isApplied: async () => (await dexContract.defaultFeeRecipient()).toLowerCase() === deployer.toLowerCase(),
+  });
+  if (feeReceipt) {
+    log(`Default fee recipient set in DEX: ${formatTx(network.name, feeReceipt.hash)}`);
+  }
+};
+
+func.tags = ['Torque', 'Deploy', 'DEX'];
+func.dependencies = ['Currencies'];
+
+export default func;
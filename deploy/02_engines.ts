@@ -0,0 +1,114 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { getChainKey } from '../config/chains';
+import { getCollateralAddress } from '../config/collaterals';
+import { CURRENCY_LIST, CurrencyCode } from '../config/currencies';
+import { getPriceFeedAddress } from '../config/priceFeeds';
+import { getDeployContext } from '../scripts/utils/deploy';
+
+interface DeployedEngine {
+  name: string;
+  address: string;
+  contract: string;
+  currency: CurrencyCode;
+}
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, network } = hre;
+  const { lzEndpoint, link, log, warn, deployContract, skip } = await getDeployContext(hre);
+
+  // Get current chain ID
+  const currentChainId = network.config.chainId!;
+  const chainKey = getChainKey(network.name, currentChainId);
+  // Currency pair feeds from the price feed registry, keyed by pair
+  const currentChainPriceFeeds: Record<string, string> = Object.fromEntries(
+    CURRENCY_LIST
+      .map(currency => [currency.feedPair, getPriceFeedAddress(chainKey, currency.feedPair)])
+      .filter((entry): entry is [string, string] => entry[1] !== undefined)
+  );
+  const currentChainUSDC = getCollateralAddress('USDC', chainKey);
+  if (!currentChainUSDC) {
+    throw new Error(`No USDC address configured for ${chainKey} in config/collaterals.ts, engines need it as collateral`);
+  }
+
+  log(`\n🌐 Network: ${network.name} (Chain ID: ${currentChainId})`);
+  log(`📋 USDC Address: ${link(currentChainUSDC)}`);
+  log(`📋 Currency Price Feeds:`);
+  Object.entries(currentChainPriceFeeds).forEach(([pair, feed]) => {
+    log(`   ${pair}: ${link(feed)}`);
+  });
+
+  // Validate that we have the necessary price feeds for deployment
+  const requiredFeeds = ['USDC_USD'];
+  for (const feed of requiredFeeds) {
+    if (!currentChainPriceFeeds[feed] || currentChainPriceFeeds[feed] === "0x0000000000000000000000000000000000000000") {
+      warn(`⚠️  Warning: ${feed} price feed not available on ${network.name}`);
+    }
+  }
+
+  // Default collateral token (USDC)
+  const DEFAULT_COLLATERAL_TOKEN = currentChainUSDC;
+
+  // Deploy currency engines against the currency tokens from the Currencies module
+  log('\nDeploying currency engines...');
+  const engines = CURRENCY_LIST;
+  const deployedEngines: DeployedEngine[] = [];
+  for (const currency of engines) {
+    const name = `Torque ${currency.code} Engine`;
+    const currencyToken = await deployments.getOrNull(currency.tokenContract);
+    if (!currencyToken) {
+      throw new Error(`Currency contract not found for ${currency.tokenSymbol}`);
+    }
+
+    // Check if price feed is available for this engine
+    const priceFeed = currentChainPriceFeeds[currency.feedPair] || "0x0000000000000000000000000000000000000000";
+    if (priceFeed === "0x0000000000000000000000000000000000000000") {
+      log(`⏭️  Skipping ${name} - ${currency.feedPair} price feed not available on ${network.name}`);
+      skip(`engines.${currency.code}`, `${currency.feedPair} price feed not available`);
+      continue;
+    }
+
+    log(`\n🚀 Deploying ${name}...`);
+    log(`   Collateral Token: ${link(DEFAULT_COLLATERAL_TOKEN)}`);
+    log(`   Price Feed: ${link(priceFeed)}`);
+    log(`   Currency Token: ${link(currencyToken.address)}`);
+
+    const deployed = await deployContract(`engines.${currency.code}`, currency.engineContract, [
+      DEFAULT_COLLATERAL_TOKEN, // USDC address
+      priceFeed,                // Currency pair price feed
+      currencyToken.address,    // Torque currency token address
+      lzEndpoint                // LayerZero endpoint
+    ]);
+    deployedEngines.push({
+      name,
+      address: deployed.address,
+      contract: currency.engineContract,
+      currency: currency.code,
+    });
+    log(`✅ ${name} deployed to: ${link(deployed.address)}`);
+  }
+
+  log(`\nCurrency Engines (${deployedEngines.length}/${engines.length} deployed):`);
+  deployedEngines.forEach(engine => {
+    log(`  ✅ ${engine.name} (${engine.currency}): ${link(engine.address)}`);
+  });
+
+  // Show skipped engines
+  const skippedEngines = engines.filter(currency => {
+    const deployed = deployedEngines.find(e => e.contract === currency.engineContract);
+    return !deployed;
+  });
+
+  if (skippedEngines.length > 0) {
+    log(`\n⏭️  Skipped Engines (missing price feeds):`);
+    skippedEngines.forEach(currency => {
+      log(`  ⏭️  ${currency.engineContract} (${currency.feedPair})`);
+    });
+    log(`\n💡 To deploy skipped engines, add the required price feeds for ${chainKey} to config/priceFeeds.ts.`);
+  }
+};
+
+func.tags = ['Torque', 'Deploy', 'Engines'];
+func.dependencies = ['Currencies'];
+
+export default func;
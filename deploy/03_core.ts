@@ -0,0 +1,36 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { CURRENCIES, QUOTE_CURRENCY } from '../config/currencies';
+import { getDeployContext } from '../scripts/utils/deploy';
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments } = hre;
+  const { deployer, lzEndpoint, link, log, deployContract } = await getDeployContext(hre);
+  const torqueUSD = await deployments.get(CURRENCIES[QUOTE_CURRENCY].tokenContract);
+  const torqueDEX = await deployments.get('TorqueDEX');
+
+  // Deploy main Torque contract
+  log('\nDeploying main Torque contract...');
+  const torque = await deployContract('torque', 'Torque', ['Torque', 'TORQ', lzEndpoint, deployer]);
+  log(`Torque deployed to: ${link(torque.address)}`);
+
+  // Deploy TorqueLP (LP token template)
+  log('\nDeploying TorqueLP template...');
+  const torqueLP = await deployContract('torqueLP', 'TorqueLP', ['Torque LP Template', 'TLP', lzEndpoint, deployer]);
+  log(`TorqueLP template deployed to: ${link(torqueLP.address)}`);
+
+  // Deploy TorqueRouter
+  log('\nDeploying TorqueRouter...');
+  const torqueRouter = await deployContract('torqueRouter', 'TorqueRouter', []);
+  log(`TorqueRouter deployed to: ${link(torqueRouter.address)}`);
+
+  // Deploy TorqueFX (main trading contract)
+  log('\nDeploying TorqueFX...');
+  const torqueFX = await deployContract('torqueFX', 'TorqueFX', [torqueDEX.address, torqueUSD.address]);
+  log(`TorqueFX deployed to: ${link(torqueFX.address)}`);
+};
+
+func.tags = ['Torque', 'Deploy', 'Core'];
+func.dependencies = ['Currencies', 'DEX'];
+
+export default func;
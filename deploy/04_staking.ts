@@ -0,0 +1,35 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { CURRENCIES, QUOTE_CURRENCY } from '../config/currencies';
+import { getDeployContext } from '../scripts/utils/deploy';
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments } = hre;
+  const { deployer, lzEndpoint, link, log, deployContract } = await getDeployContext(hre);
+  const torqueUSD = await deployments.get(CURRENCIES[QUOTE_CURRENCY].tokenContract);
+  const torque = await deployments.get('Torque');
+  const torqueLP = await deployments.get('TorqueLP');
+  const torqueFX = await deployments.get('TorqueFX');
+
+  // Deploy TorqueStake: LP and TORQ stakes, TORQ rewards, early exit penalties to the deployer
+  log('\nDeploying TorqueStake...');
+  const torqueStake = await deployContract('torqueStake', 'TorqueStake', [
+    torqueLP.address,
+    torque.address,
+    torque.address,
+    deployer,
+    lzEndpoint,
+    deployer,
+  ]);
+  log(`TorqueStake deployed to: ${link(torqueStake.address)}`);
+
+  // Deploy TorqueRewards
+  log('\nDeploying TorqueRewards...');
+  const torqueRewards = await deployContract('torqueRewards', 'TorqueRewards', [torqueUSD.address, torqueFX.address]);
+  log(`TorqueRewards deployed to: ${link(torqueRewards.address)}`);
+};
+
+func.tags = ['Torque', 'Deploy', 'Staking'];
+func.dependencies = ['Currencies', 'Core'];
+
+export default func;
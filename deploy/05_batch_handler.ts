@@ -0,0 +1,17 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { getDeployContext } from '../scripts/utils/deploy';
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployer, lzEndpoint, link, log, deployContract } = await getDeployContext(hre);
+
+  // Deploy TorqueBatchHandler
+  log('\nDeploying TorqueBatchHandler...');
+  const torqueBatchHandler = await deployContract('torqueBatchHandler', 'TorqueBatchHandler', [lzEndpoint, deployer]);
+  log(`TorqueBatchHandler deployed to: ${link(torqueBatchHandler.address)}`);
+};
+
+func.tags = ['Torque', 'Deploy', 'BatchHandler'];
+func.dependencies = [];
+
+export default func;
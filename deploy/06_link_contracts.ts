@@ -0,0 +1,207 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { ethers } from 'hardhat';
+import type { TransactionReceipt } from 'ethers';
+import { CHAINS, getChainKey } from '../config/chains';
+import { CURRENCIES, QUOTE_CURRENCY, getPoolCurrencies } from '../config/currencies';
+import { getDeploymentRecordPath, loadDeploymentRecord } from '../config/deployments';
+import { formatTx } from '../config/explorers';
+import { getFxPairId } from '../config/invariants';
+import { getLayerZeroConfig, getLayerZeroConfigByChainId } from '../config/layerzero';
+import { getPriceFeedAddress } from '../config/priceFeeds';
+import { getDeployContext } from '../scripts/utils/deploy';
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { deployments, network } = hre;
+  const { get, getOrNull } = deployments;
+  const { deployer, link, log, applySetting } = await getDeployContext(hre);
+
+  // Config registries are keyed by chain, the deployment registry by network
+  const chainKey = getChainKey(network.name, network.config.chainId);
+
+  log(`\nLinking Torque contracts on ${network.name}...`);
+  log(`Deployer: ${link(deployer)}`);
+
+  const printLinked = (message: string, receipt: TransactionReceipt | null) => {
+    if (receipt) log(`✅ ${message}: ${formatTx(network.name, receipt.hash)}`);
+  };
+
+  // Get deployed contracts
+  const quote = CURRENCIES[QUOTE_CURRENCY];
+  const torqueUSD = await get(quote.tokenContract);
+  const torqueDEX = await get('TorqueDEX');
+  const torque = await get('Torque');
+  const torqueLP = await get('TorqueLP');
+  const torqueRouter = await get('TorqueRouter');
+  const torqueStake = await get('TorqueStake');
+  const torqueRewards = await get('TorqueRewards');
+  const torqueBatchHandler = await get('TorqueBatchHandler');
+  const torqueFX = await get('TorqueFX');
+
+  // Get currency tokens and their engines, paired by catalog entry
+  const currencyContracts = [];
+  for (const currency of getPoolCurrencies()) {
+    const token = await get(currency.tokenContract);
+    // Engines without a price feed on this chain are skipped by deploy/02_engines.ts
+    const engine = await getOrNull(currency.engineContract);
+    currencyContracts.push({
+      code: currency.code,
+      symbol: currency.tokenSymbol,
+      address: token.address,
+      feedPair: currency.feedPair,
+      engine: engine?.address,
+    });
+  }
+
+  log('\n🔗 Linking contracts...');
+
+  // Link TorqueDEX with currencies and engines
+  log('\n1. Linking TorqueDEX with currencies and engines...');
+  const dexContract = await ethers.getContractAt('TorqueDEX', torqueDEX.address);
+
+  // Create pools for each currency
+  for (const currency of currencyContracts) {
+    const pair = `${currency.symbol}/${quote.tokenSymbol}`;
+    const receipt = await applySetting(`torqueDEX.createPool.${currency.code}`, {
+      contract: 'torqueDEX',
+      target: dexContract,
+      method: 'createPoolWithDefaultQuote',
+      args: [currency.address, pair, `${currency.symbol}${quote.tokenSymbol}`],
+      description: `createPoolWithDefaultQuote ${pair}`,
+      // getPoolAddress reverts until the pool exists
+      isApplied: () => dexContract.getPoolAddress(currency.address, torqueUSD.address).then(() => true, () => false),
+    });
+    printLinked(`Pool created for ${currency.symbol}`, receipt);
+  }
+
+  // Link TorqueBatchHandler with currencies and engines
+  log('\n2. Linking TorqueBatchHandler...');
+  const batchHandlerContract = await ethers.getContractAt('TorqueBatchHandler', torqueBatchHandler.address);
+
+  for (const currency of currencyContracts) {
+    const receipt = await applySetting(`torqueBatchHandler.addSupportedCurrency.${currency.code}`, {
+      contract: 'torqueBatchHandler',
+      target: batchHandlerContract,
+      method: 'addSupportedCurrency',
+      args: [currency.address],
+      description: `addSupportedCurrency ${currency.symbol}`,
+      isApplied: () => batchHandlerContract.supportedCurrencies(currency.address),
+    });
+    printLinked(`Added ${currency.symbol} to supported currencies`, receipt);
+  }
+
+  // Link TorqueLP with TorqueDEX, the only contract allowed to mint and burn LP tokens
+  log('\n3. Linking TorqueLP...');
+  const lpContract = await ethers.getContractAt('TorqueLP', torqueLP.address);
+
+  const lpReceipt = await applySetting('torqueLP.setDEX', {
+    contract: 'torqueLP',
+    target: lpContract,
+    method: 'setDEX',
+    args: [torqueDEX.address],
+    description: 'setDEX TorqueDEX',
+    isApplied: async () => (await lpContract.dex()).toLowerCase() === torqueDEX.address.toLowerCase(),
+  });
+  printLinked('TorqueLP linked with TorqueDEX', lpReceipt);
+
+  // Engines of this chain and of every other chain with a deployment record, keyed by the
+  // uint16 chain ID TorqueBatchHandler routes mints with. The quote currency has no pool but
+  // is minted by its engine all the same.
+  log('\n4. Linking TorqueBatchHandler with engines...');
+  const engineCurrencies = [
+    { code: quote.code, symbol: quote.tokenSymbol, address: torqueUSD.address, engine: (await getOrNull(quote.engineContract))?.address },
+    ...currencyContracts,
+  ];
+  const engineChains = [{
+    network: network.name,
+    legacyChainId: getLayerZeroConfigByChainId(network.config.chainId!)?.legacyChainId,
+    engines: Object.fromEntries(engineCurrencies.map(currency => [currency.code, currency.engine])),
+  }];
+  for (const key of Object.keys(CHAINS)) {
+    const record = key === network.name ? undefined : loadDeploymentRecord(key);
+    if (!record || record.chainId === network.config.chainId) continue;
+    engineChains.push({
+      network: key,
+      legacyChainId: getLayerZeroConfig(key)?.legacyChainId,
+      engines: Object.fromEntries(engineCurrencies.map(currency => [currency.code, record.contracts[`engines.${currency.code}`]?.address])),
+    });
+  }
+
+  for (const chain of engineChains) {
+    if (chain.legacyChainId === undefined) {
+      log(`⏭️  ${chain.network} has no uint16 chain ID, its engines are not linked`);
+      continue;
+    }
+    const legacyChainId = chain.legacyChainId;
+    for (const currency of engineCurrencies) {
+      const engine = chain.engines[currency.code];
+      if (!engine) continue;
+      const receipt = await applySetting(`torqueBatchHandler.setEngineAddress.${currency.code}.${chain.network}`, {
+        contract: 'torqueBatchHandler',
+        target: batchHandlerContract,
+        method: 'setEngineAddress',
+        args: [currency.address, legacyChainId, engine],
+        description: `setEngineAddress ${currency.symbol} ${chain.network} (${legacyChainId})`,
+        isApplied: async () => (await batchHandlerContract.engineAddresses(currency.address, legacyChainId)).toLowerCase() === engine.toLowerCase(),
+      });
+      printLinked(`${currency.symbol} engine on ${chain.network} set`, receipt);
+    }
+  }
+
+  // Link TorqueFX with TorqueDEX pools and price feeds, by the pair ID openPosition computes
+  log('\n5. Linking TorqueFX...');
+  const fxContract = await ethers.getContractAt('TorqueFX', torqueFX.address);
+
+  for (const currency of currencyContracts) {
+    const pair = `${currency.symbol}/${quote.tokenSymbol}`;
+    const pairId = getFxPairId(currency.address, torqueUSD.address);
+    const poolReceipt = await applySetting(`torqueFX.setDEXPool.${currency.code}`, {
+      contract: 'torqueFX',
+      target: fxContract,
+      method: 'setDEXPool',
+      args: [pairId, torqueDEX.address],
+      description: `setDEXPool ${pair}`,
+      isApplied: async () => (await fxContract.dexPools(pairId)).toLowerCase() === torqueDEX.address.toLowerCase(),
+    });
+    printLinked(`TorqueFX ${pair} pool set`, poolReceipt);
+
+    const feed = getPriceFeedAddress(chainKey, currency.feedPair);
+    if (!feed) {
+      log(`⏭️  No ${currency.feedPair} price feed on ${chainKey}, TorqueFX ${pair} has no feed`);
+      continue;
+    }
+    const feedReceipt = await applySetting(`torqueFX.setPriceFeed.${currency.code}`, {
+      contract: 'torqueFX',
+      target: fxContract,
+      method: 'setPriceFeed',
+      args: [pairId, feed],
+      description: `setPriceFeed ${pair}`,
+      isApplied: async () => (await fxContract.priceFeeds(pairId)).toLowerCase() === feed.toLowerCase(),
+    });
+    printLinked(`TorqueFX ${pair} price feed set`, feedReceipt);
+  }
+
+  log('\n✅ Contract linking completed!');
+  log('\n📋 Linking Summary:');
+  log(`Network: ${network.name}`);
+  log(`Deployer: ${link(deployer)}`);
+  log(`\nLinked Contracts:`);
+  log(`  TorqueDEX: ${link(torqueDEX.address)}`);
+  log(`  TorqueLP: ${link(torqueLP.address)}`);
+  log(`  TorqueBatchHandler: ${link(torqueBatchHandler.address)}`);
+  log(`  TorqueStake: ${link(torqueStake.address)}`);
+  log(`  TorqueRewards: ${link(torqueRewards.address)}`);
+  log(`  TorqueRouter: ${link(torqueRouter.address)}`);
+  log(`  TorqueFX: ${link(torqueFX.address)}`);
+  log(`\nCurrency Pools Created:`);
+  currencyContracts.forEach(currency => {
+    log(`  ${currency.symbol}/${quote.tokenSymbol} pool (engine: ${currency.engine ? link(currency.engine) : 'not deployed'})`);
+  });
+
+  log(`\n📝 Deployment registry: ${getDeploymentRecordPath(network.name)}`);
+};
+
+func.tags = ['Torque', 'Link'];
+func.dependencies = ['Currencies', 'DEX', 'Engines', 'Core', 'Staking', 'BatchHandler'];
+
+export default func; 
\ No newline at end of file
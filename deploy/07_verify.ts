@@ -0,0 +1,32 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { isPlanningDeployment } from '../scripts/utils/deploy';
+import { describeError } from '../scripts/utils/plan';
+import { VerificationResult, formatVerificationReport, verifyDeployment } from '../scripts/utils/verify';
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+  const { network } = hre;
+
+  // Verify everything the registry holds for this network once the other modules have run
+  console.log(`\n🔍 Verifying contracts on ${network.name}...`);
+  let results: VerificationResult[];
+  try {
+    results = await verifyDeployment(hre);
+  } catch (error) {
+    // e.g. no explorer API key; the deployment itself succeeded
+    console.warn(`⚠️  Verification skipped: ${describeError(error)}`);
+    return;
+  }
+  console.log(`\n${formatVerificationReport(results)}`);
+
+  if (results.some(result => result.status === 'failed')) {
+    console.log('\n💡 Retry the failed contracts with: npx hardhat deployment:verify --network', network.name);
+  }
+};
+
+// Local networks have no explorer, and a plan sends nothing to verify
+func.skip = async (hre: HardhatRuntimeEnvironment) => !hre.network.live || isPlanningDeployment();
+func.tags = ['Torque', 'Deploy', 'Verify'];
+func.dependencies = [];
+
+export default func;
@@ -5,7 +5,21 @@ import "@nomicfoundation/hardhat-verify";
 import "hardhat-deploy";
 import "hardhat-deploy-ethers";
 import "dotenv/config";
-import { EndpointId } from '@layerzerolabs/lz-definitions';
+import { buildEtherscanConfig, buildHardhatNetworks } from "./config/hardhat";
+import { applyDevnetNetworks, getDeploymentsPath } from "./config/devnet";
+import "./tasks/validateConfig";
+import "./tasks/deploymentDiff";
+import "./tasks/deployPlan";
+import "./tasks/safeBatch";
+import "./tasks/ignition";
+import "./tasks/deploymentVerify";
+import "./tasks/torqueCheck";
+import "./tasks/ownership";
+import "./tasks/peers";
+import "./tasks/lzConfig";
+import "./tasks/orchestrate";
+import "./tasks/devnet";
+import "./tasks/test";
 
 const config: HardhatUserConfig = {
   solidity: {
@@ -23,170 +37,13 @@ const config: HardhatUserConfig = {
       default: 0,
     },
   },
-  networks: {
-    ethereum: {
-      url: process.env.ETHEREUM_RPC_URL || "",
-      accounts: [process.env.PRIVATE_KEY || ""],
-      chainId: 1,
-      verify: {
-        etherscan: {
-          apiUrl: "https://api.etherscan.io",
-        },
-      },
-    },
-    arbitrum: {
-      url: process.env.ARBITRUM_RPC_URL || "",
-      accounts: [process.env.PRIVATE_KEY || ""],
-      chainId: 42161,
-      verify: {
-        etherscan: {
-          apiUrl: "https://api.arbiscan.io",
-        },
-      },
-    },
-    optimism: {
-      url: process.env.OPTIMISM_RPC_URL || "",
-      accounts: [process.env.PRIVATE_KEY || ""],
-      chainId: 10,
-      verify: {
-        etherscan: {
-          apiUrl: "https://api-optimistic.etherscan.io",
-        },
-      },
-    },
-    polygon: {
-      url: process.env.POLYGON_RPC_URL || "",
-      accounts: [process.env.PRIVATE_KEY || ""],
-      chainId: 137,
-      verify: {
-        etherscan: {
-          apiUrl: "https://api.polygonscan.com",
-        },
-      },
-    },
-    base: {
-      url: process.env.BASE_RPC_URL || "",
-      accounts: [process.env.PRIVATE_KEY || ""],
-      chainId: 8453,
-      verify: {
-        etherscan: {
-          apiUrl: "https://api.basescan.org",
-        },
-      },
-    },
-    sonic: {
-      url: process.env.SONIC_RPC_URL || "",
-      accounts: [process.env.PRIVATE_KEY || ""],
-      chainId: 146,
-    },
-
-    bsc: {
-      url: process.env.BSC_RPC_URL || "",
-      accounts: [process.env.PRIVATE_KEY || ""],
-      chainId: 56,
-      verify: {
-        etherscan: {
-          apiUrl: "https://api.bscscan.com",
-        },
-      },
-    },
-
-
-    avalanche: {
-      url: process.env.AVALANCHE_RPC_URL || "",
-      accounts: [process.env.PRIVATE_KEY || ""],
-      chainId: 43114,
-      verify: {
-        etherscan: {
-          apiUrl: "https://api.snowtrace.io",
-        },
-      },
-    },
-    // Testnets
-    sepolia: {
-      url: process.env.SEPOLIA_RPC_URL || "",
-      accounts: [process.env.PRIVATE_KEY || ""],
-      chainId: 11155111,
-      verify: {
-        etherscan: {
-          apiUrl: "https://api-sepolia.etherscan.io",
-        },
-      },
-    },
-    arbitrumSepolia: {
-      url: process.env.ARBITRUM_SEPOLIA_RPC_URL || "",
-      accounts: [process.env.PRIVATE_KEY || ""],
-      chainId: 421614,
-      verify: {
-        etherscan: {
-          apiUrl: "https://api-sepolia.arbiscan.io",
-        },
-      },
-    },
-
-    baseSepolia: {
-      url: process.env.BASE_SEPOLIA_RPC_URL || "",
-      accounts: [process.env.PRIVATE_KEY || ""],
-      chainId: 84532,
-      verify: {
-        etherscan: {
-          apiUrl: "https://api-sepolia.basescan.org",
-        },
-      },
-    },
-  },
-  etherscan: {
-    apiKey: {
-      mainnet: process.env.ETHERSCAN_API_KEY || "",
-      sepolia: process.env.SEPOLIA_ETHERSCAN_API_KEY || process.env.ETHERSCAN_API_KEY || "",
-      arbitrumOne: process.env.ARBISCAN_API_KEY || "",
-      arbitrumSepolia: process.env.ARBITRUM_SEPOLIA_ARBISCAN_API_KEY || process.env.ARBISCAN_API_KEY || "",
-      optimisticEthereum: process.env.OPTIMISM_API_KEY || "",
-      polygon: process.env.POLYGONSCAN_API_KEY || "",
-      base: process.env.BASESCAN_API_KEY || "",
-      baseSepolia: process.env.BASE_SEPOLIA_BASESCAN_API_KEY || process.env.BASESCAN_API_KEY || "",
-      bsc: process.env.BSCSCAN_API_KEY || "",
-      avalanche: process.env.SNOWTRACE_API_KEY || "",
-    },
+  // Generated from CHAINS, see config/hardhat.ts; config/devnet.ts points them at local nodes for torque:devnet
+  // The hardhat network keeps the EIP-170 size limit, only the tests lift it (tasks/test.ts)
+  networks: applyDevnetNetworks(buildHardhatNetworks()),
+  paths: {
+    deployments: getDeploymentsPath(),
   },
-};
-
-// LayerZero endpoint IDs for mainnet chains
-export const layerzeroMainnetEndpointIds = {
-  ethereum: EndpointId.ETHEREUM_MAINNET,
-  arbitrum: EndpointId.ARBITRUM_MAINNET,
-  optimism: EndpointId.OPTIMISM_MAINNET,
-  polygon: EndpointId.POLYGON_MAINNET,
-  base: EndpointId.BASE_MAINNET,
-  bsc: EndpointId.BSC_MAINNET,
-  avalanche: EndpointId.AVALANCHE_MAINNET,
-  sonic: EndpointId.SONIC_MAINNET,
-};
-
-// LayerZero endpoint IDs for testnet chains
-export const layerzeroTestnetEndpointIds = {
-  sepolia: EndpointId.ETHEREUM_TESTNET,
-  arbitrumSepolia: EndpointId.ARBITRUM_TESTNET,
-  baseSepolia: EndpointId.BASE_TESTNET,
-};
-
-// LayerZero endpoints for mainnet chains
-export const layerzeroMainnetEndpoints = {
-  ethereum: "0x1a44076050125825900e736c501f859c50fE728c",
-  arbitrum: "0x1a44076050125825900e736c501f859c50fE728c",
-  optimism: "0x1a44076050125825900e736c501f859c50fE728c",
-  polygon: "0x1a44076050125825900e736c501f859c50fE728c",
-  base: "0x1a44076050125825900e736c501f859c50fE728c",
-  bsc: "0x1a44076050125825900e736c501f859c50fE728c",
-  sonic: "0x6F475642a6e85809B1c36Fa62763669b1b48DD5B",
-  avalanche: "0x1a44076050125825900e736c501f859c50fE728c",
-};
-
-// LayerZero endpoints for testnet chains
-export const layerzeroTestnetEndpoints = {
-  sepolia: "0x6EDCE65403992e310A62460808c4b910D972f10f",
-  arbitrumSepolia: "0x6EDCE65403992e310A62460808c4b910D972f10f",
-  baseSepolia: "0x6EDCE65403992e310A62460808c4b910D972f10f",
+  etherscan: buildEtherscanConfig(),
 };
 
 export default config;
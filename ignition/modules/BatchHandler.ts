@@ -0,0 +1,13 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+
+/**
+ * TorqueBatchHandler, as deploy/05_batch_handler.ts
+ */
+export default buildModule('BatchHandler', m => {
+  const lzEndpoint = m.getParameter<string>('lzEndpoint');
+  const owner = m.getAccount(0);
+
+  const torqueBatchHandler = m.contract('TorqueBatchHandler', [lzEndpoint, owner]);
+
+  return { torqueBatchHandler };
+});
@@ -0,0 +1,21 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { CURRENCIES, QUOTE_CURRENCY } from '../../config/currencies';
+import CurrenciesModule from './Currencies';
+import DEXModule from './DEX';
+
+/**
+ * Torque, TorqueLP, TorqueRouter and TorqueFX, as deploy/03_core.ts
+ */
+export default buildModule('Core', m => {
+  const lzEndpoint = m.getParameter<string>('lzEndpoint');
+  const owner = m.getAccount(0);
+  const currencies = m.useModule(CurrenciesModule);
+  const { torqueDEX } = m.useModule(DEXModule);
+
+  const torque = m.contract('Torque', ['Torque', 'TORQ', lzEndpoint, owner]);
+  const torqueLP = m.contract('TorqueLP', ['Torque LP Template', 'TLP', lzEndpoint, owner]);
+  const torqueRouter = m.contract('TorqueRouter', []);
+  const torqueFX = m.contract('TorqueFX', [torqueDEX, currencies[CURRENCIES[QUOTE_CURRENCY].tokenContract]]);
+
+  return { torque, torqueLP, torqueRouter, torqueFX };
+});
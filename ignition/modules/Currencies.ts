@@ -0,0 +1,17 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { CURRENCY_LIST } from '../../config/currencies';
+
+/**
+ * Currency tokens, TorqueUSD included, as deploy/00_currencies.ts. Results are keyed by
+ * contract name, e.g. `TorqueEUR`.
+ */
+export default buildModule('Currencies', m => {
+  const lzEndpoint = m.getParameter<string>('lzEndpoint');
+
+  return Object.fromEntries(
+    CURRENCY_LIST.map(currency => [
+      currency.tokenContract,
+      m.contract(currency.tokenContract, [currency.tokenName, currency.tokenSymbol, lzEndpoint]),
+    ])
+  );
+});
@@ -0,0 +1,21 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { CURRENCIES, QUOTE_CURRENCY } from '../../config/currencies';
+import CurrenciesModule from './Currencies';
+
+/**
+ * TorqueDEX with TorqueUSD as the default quote asset and the owner as the default fee
+ * recipient, as deploy/01_dex.ts. Its runtime code is over the EIP-170 size limit, so this
+ * module only deploys on local chains for now.
+ */
+export default buildModule('DEX', m => {
+  const lzEndpoint = m.getParameter<string>('lzEndpoint');
+  const owner = m.getAccount(0);
+  const currencies = m.useModule(CurrenciesModule);
+  const torqueUSD = currencies[CURRENCIES[QUOTE_CURRENCY].tokenContract];
+
+  const torqueDEX = m.contract('TorqueDEX', [lzEndpoint, owner]);
+  m.call(torqueDEX, 'setDefaultQuoteAsset', [torqueUSD]);
+  m.call(torqueDEX, 'setDefaultFeeRecipient', [owner]);
+
+  return { torqueDEX };
+});
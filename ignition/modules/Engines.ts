@@ -0,0 +1,53 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { CURRENCIES, CURRENCY_CODES, CurrencyCode } from '../../config/currencies';
+import { getEngineModuleId } from '../../config/ignition';
+import CurrenciesModule from './Currencies';
+
+type EngineModule = ReturnType<typeof createEngineModule>;
+
+const createEngineModule = (code: CurrencyCode) => buildModule(getEngineModuleId(code), m => {
+  const currency = CURRENCIES[code];
+  const lzEndpoint = m.getParameter<string>('lzEndpoint');
+  const collateralToken = m.getParameter<string>('collateralToken');
+  const priceFeed = m.getParameter<string>('priceFeed');
+  const currencies = m.useModule(CurrenciesModule);
+
+  const engine = m.contract(currency.engineContract, [
+    collateralToken,
+    priceFeed,
+    currencies[currency.tokenContract],
+    lzEndpoint,
+  ]);
+
+  return { engine };
+});
+
+// Ignition rejects two modules with the same ID in one deployment, so each is built once
+const engineModules = new Map<CurrencyCode, EngineModule>();
+const enginesModules = new Map<string, ReturnType<typeof createEnginesModule>>();
+
+/**
+ * One currency's engine, priced by its `priceFeed` parameter
+ */
+export const buildEngineModule = (code: CurrencyCode): EngineModule => {
+  if (!engineModules.has(code)) engineModules.set(code, createEngineModule(code));
+  return engineModules.get(code)!;
+};
+
+const createEnginesModule = (codes: CurrencyCode[]) => buildModule('Engines', m => {
+  return Object.fromEntries(
+    codes.map(code => [CURRENCIES[code].engineContract, m.useModule(buildEngineModule(code)).engine])
+  );
+});
+
+/**
+ * Engines for the given currencies. Networks only list some price feeds, so the set is chosen
+ * when the module is built, see getIgnitionEngines.
+ */
+export const buildEnginesModule = (codes: CurrencyCode[] = CURRENCY_CODES) => {
+  const key = [...codes].sort().join(',');
+  if (!enginesModules.has(key)) enginesModules.set(key, createEnginesModule(codes));
+  return enginesModules.get(key)!;
+};
+
+export default buildEnginesModule();
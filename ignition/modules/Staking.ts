@@ -0,0 +1,20 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { CURRENCIES, QUOTE_CURRENCY } from '../../config/currencies';
+import CoreModule from './Core';
+import CurrenciesModule from './Currencies';
+
+/**
+ * TorqueStake and TorqueRewards, as deploy/04_staking.ts
+ */
+export default buildModule('Staking', m => {
+  const lzEndpoint = m.getParameter<string>('lzEndpoint');
+  const owner = m.getAccount(0);
+  const currencies = m.useModule(CurrenciesModule);
+  const { torque, torqueLP, torqueFX } = m.useModule(CoreModule);
+
+  // LP and TORQ stakes, TORQ rewards, early exit penalties to the owner
+  const torqueStake = m.contract('TorqueStake', [torqueLP, torque, torque, owner, lzEndpoint, owner]);
+  const torqueRewards = m.contract('TorqueRewards', [currencies[CURRENCIES[QUOTE_CURRENCY].tokenContract], torqueFX]);
+
+  return { torqueStake, torqueRewards };
+});
@@ -0,0 +1,31 @@
+import { buildModule } from '@nomicfoundation/hardhat-ignition/modules';
+import { CURRENCY_CODES, CurrencyCode } from '../../config/currencies';
+import BatchHandlerModule from './BatchHandler';
+import CoreModule from './Core';
+import CurrenciesModule from './Currencies';
+import DEXModule from './DEX';
+import { buildEnginesModule } from './Engines';
+import StakingModule from './Staking';
+
+const createTorqueModule = (engines: CurrencyCode[]) => buildModule('Torque', m => ({
+  ...m.useModule(CurrenciesModule),
+  ...m.useModule(DEXModule),
+  ...m.useModule(buildEnginesModule(engines)),
+  ...m.useModule(CoreModule),
+  ...m.useModule(StakingModule),
+  ...m.useModule(BatchHandlerModule),
+}));
+
+const torqueModules = new Map<string, ReturnType<typeof createTorqueModule>>();
+
+/**
+ * The whole protocol with engines for the given currencies. Linking (pools, supported
+ * currencies, TorqueFX pools) stays in deploy/06_link_contracts.ts.
+ */
+export const buildTorqueModule = (engines: CurrencyCode[] = CURRENCY_CODES) => {
+  const key = [...engines].sort().join(',');
+  if (!torqueModules.has(key)) torqueModules.set(key, createTorqueModule(engines));
+  return torqueModules.get(key)!;
+};
+
+export default buildTorqueModule();
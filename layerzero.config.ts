@@ -0,0 +1,7 @@
+import { generateOAppPathways, toOAppOmniGraph } from './config/messaging';
+
+/**
+ * LayerZero OApp wiring of every chain with a deployment record, generated from
+ * config/messaging.ts. `npx hardhat torque:lz-config` prints it and checks it on-chain.
+ */
+export default toOAppOmniGraph(generateOAppPathways());
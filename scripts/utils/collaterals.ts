@@ -0,0 +1,80 @@
+import { COLLATERALS, getCollateralDecimals, getEngineCollaterals } from '../../config/collaterals';
+
+/**
+ * Collateral reconciliation: the collateral set the registry wants on each engine compared with
+ * the one `getSupportedCollateral()` returns, as the additions and removals that close the gap.
+ */
+
+export type CollateralAction = 'add' | 'remove' | 'keep';
+
+export interface CollateralChange {
+  // Engine currency code
+  currency: string;
+  action: CollateralAction;
+  token: string;
+  // Registry symbol, undefined for tokens the registry does not list on the network
+  symbol?: string;
+  // addCollateralToken arguments of a registry collateral, added or kept
+  args?: [string, number, string, boolean, boolean];
+}
+
+const ACTION_MARKS: Record<CollateralAction, string> = {
+  add: '+',
+  remove: '-',
+  keep: '=',
+};
+
+/**
+ * Changes that bring an engine from its `supported` collateral to the registry's set for it
+ */
+export const diffEngineCollateral = (network: string, currency: string, supported: string[]): CollateralChange[] => {
+  const isSupported = (token: string) => supported.some(entry => entry.toLowerCase() === token.toLowerCase());
+  const desired = getEngineCollaterals(network, currency);
+  const changes: CollateralChange[] = [];
+
+  for (const collateral of desired) {
+    const token = collateral.addresses[network];
+    changes.push({
+      currency,
+      action: isSupported(token) ? 'keep' : 'add',
+      token,
+      symbol: collateral.symbol,
+      args: [
+        token,
+        getCollateralDecimals(collateral.symbol, network)!,
+        collateral.priceFeeds[network],
+        collateral.isVolatile,
+        collateral.needsEthConversion,
+      ],
+    });
+  }
+
+  for (const token of supported) {
+    if (desired.some(collateral => collateral.addresses[network].toLowerCase() === token.toLowerCase())) continue;
+    const known = Object.values(COLLATERALS).find(collateral => collateral.addresses[network]?.toLowerCase() === token.toLowerCase());
+    changes.push({ currency, action: 'remove', token, symbol: known?.symbol });
+  }
+  return changes;
+};
+
+/**
+ * Diff preview, one block per engine with its additions and removals before the collateral kept
+ */
+export const formatCollateralDiff = (changes: CollateralChange[]): string => {
+  const order: CollateralAction[] = ['add', 'remove', 'keep'];
+  const currencies = [...new Set(changes.map(change => change.currency))];
+  const lines: string[] = [];
+
+  for (const currency of currencies) {
+    const engine = changes
+      .filter(change => change.currency === currency)
+      .sort((a, b) => order.indexOf(a.action) - order.indexOf(b.action));
+    const count = (action: CollateralAction) => engine.filter(change => change.action === action).length;
+    lines.push(`Torque${currency}Engine: ${count('add')} to add, ${count('remove')} to remove, ${count('keep')} unchanged`);
+    lines.push(...engine.map(change => `  ${ACTION_MARKS[change.action]} ${change.symbol ?? 'unknown'} (${change.token})`));
+  }
+
+  const pending = changes.filter(change => change.action !== 'keep').length;
+  lines.push('', pending > 0 ? `${pending} change(s) across ${currencies.length} engine(s)` : 'Every engine matches the registry');
+  return lines.join('\n');
+};
@@ -0,0 +1,548 @@
+import { HardhatRuntimeEnvironment, Network } from 'hardhat/types';
+import { DeployResult } from 'hardhat-deploy/types';
+import { BaseContract, Contract, getCreateAddress, TransactionReceipt } from 'ethers';
+import {
+  DeployedContractRecord,
+  getCheckpoint,
+  getDeploymentRecordPath,
+  getPendingCheckpoints,
+  loadDeploymentRecord,
+  recordCheckpoint,
+  recordContracts,
+  recordDeploymentAction,
+} from '../../config/deployments';
+import {
+  DETERMINISTIC_DEPLOYMENT,
+  getDeterministicSalt,
+  getFactorySalt,
+  predictDeterministicAddress,
+} from '../../config/deterministic';
+import { formatAddress, formatTx } from '../../config/explorers';
+import { getEndpointForChainId } from '../../config/layerzero';
+import { CONSOLE_LOGGER, Logger } from './logger';
+import { DeploymentPlanBuilder, describeError } from './plan';
+import { SafeBatchBuilder } from './safe';
+
+/**
+ * Shared setup for the modules in deploy/. hardhat-deploy loads every file under deploy/
+ * as a deploy script, so helpers live here.
+ *
+ * Every step checkpoints to the deployment registry before it sends a transaction, so a rerun
+ * after a failure picks up contracts and setter calls that landed on-chain but were never recorded.
+ * While a plan is active (`hardhat deploy --plan`) nothing is sent or recorded; steps are added
+ * to the plan instead, and the modules' progress output is dropped in favour of the plan.
+ * Warnings are printed either way. While a Safe batch is active (`hardhat deploy --safe-batch`) contracts are
+ * deployed as usual but setter calls are added to the batch for the owning Safe to sign.
+ * Slots with a salt in config/deterministic.ts deploy through the CreateX factory instead of
+ * from the deployer nonce, and must land at the address predicted for them.
+ */
+
+export interface SettingStep {
+  // Contract slot the call configures, e.g. `torqueDEX`
+  contract: string;
+  target: BaseContract;
+  method: string;
+  args: unknown[];
+  // Log and registry label, defaults to the method name
+  description?: string;
+  // Reads on-chain state, true when the call is not needed
+  isApplied: () => Promise<boolean>;
+}
+
+export interface DeployContext {
+  deployer: string;
+  // LayerZero EndpointV2 passed to every OApp constructor
+  lzEndpoint: string;
+  // Explorer link for a printed address, the bare address on local networks
+  link: (address: string) => string;
+  // Module output, log is silent while planning
+  log: Logger['info'];
+  warn: Logger['warn'];
+  // Deploy a contract, or reuse it when it is already on-chain with the same bytecode and args,
+  // and record it in the deployment registry under `slot`. Salted slots deploy deterministically.
+  deployContract: (slot: string, contract: string, args: unknown[]) => Promise<DeployResult>;
+  // Send a setter call unless on-chain state shows it is already applied
+  applySetting: (step: string, setting: SettingStep) => Promise<TransactionReceipt | null>;
+  // Note a contract the module leaves out, e.g. an engine without a price feed
+  skip: (slot: string, reason: string) => void;
+}
+
+// The CreateX functions the deploy modules call
+const CREATEX_ABI = [
+  'function deployCreate2(bytes32 salt, bytes initCode) payable returns (address)',
+  'function deployCreate3(bytes32 salt, bytes initCode) payable returns (address)',
+];
+
+const reportedInterruptions = new Set<string>();
+
+// Largest runtime code a chain accepts, EIP-170
+export const MAX_CONTRACT_SIZE = 24_576;
+
+/**
+ * Whether `network` rejects runtime code over MAX_CONTRACT_SIZE: the hardhat network unless
+ * it allows unlimited contract size, as the tests and devnet nodes do, and every live network
+ */
+export const enforcesContractSizeLimit = (network: Network): boolean => {
+  const { allowUnlimitedContractSize } = network.config as { allowUnlimitedContractSize?: boolean };
+  return allowUnlimitedContractSize === undefined ? network.live : !allowUnlimitedContractSize;
+};
+
+/**
+ * Throw for contracts whose runtime code the network would reject for its size
+ */
+export const assertContractSizes = async (hre: HardhatRuntimeEnvironment, contracts: string[]): Promise<void> => {
+  if (!enforcesContractSizeLimit(hre.network)) return;
+  const oversized: string[] = [];
+  for (const contract of new Set(contracts)) {
+    const { deployedBytecode } = await hre.artifacts.readArtifact(contract);
+    const size = (deployedBytecode.length - 2) / 2;
+    if (size > MAX_CONTRACT_SIZE) oversized.push(`${contract} is ${size} bytes`);
+  }
+  if (oversized.length > 0) {
+    throw new Error(
+      `${oversized.join(', ')}, over the ${MAX_CONTRACT_SIZE}-byte EIP-170 limit ${hre.network.name} enforces; ` +
+      'the contract has to be split up before it deploys there'
+    );
+  }
+};
+
+const sameArgs = (a: unknown[], b: unknown[]): boolean => {
+  return a.length === b.length && a.map(String).join().toLowerCase() === b.map(String).join().toLowerCase();
+};
+
+let activePlan: DeploymentPlanBuilder | undefined;
+
+/**
+ * Switch the deploy modules to planning until finishDeploymentPlan
+ */
+export const startDeploymentPlan = async (hre: HardhatRuntimeEnvironment): Promise<DeploymentPlanBuilder> => {
+  const { ethers, getNamedAccounts, network } = hre;
+  const { deployer } = await getNamedAccounts();
+  const nonce = await ethers.provider.getTransactionCount(deployer, 'pending');
+  const feeData = await ethers.provider.getFeeData();
+
+  activePlan = new DeploymentPlanBuilder(
+    network.name,
+    network.config.chainId!,
+    deployer,
+    nonce,
+    feeData.maxFeePerGas ?? feeData.gasPrice ?? 0n
+  );
+  return activePlan;
+};
+
+export const finishDeploymentPlan = (): void => {
+  activePlan = undefined;
+};
+
+export const isPlanningDeployment = (): boolean => activePlan !== undefined;
+
+let activeSafeBatch: SafeBatchBuilder | undefined;
+
+let deployLogger: Logger = CONSOLE_LOGGER;
+
+/**
+ * Send the deploy modules' output to `logger` until the next call, the console by default
+ */
+export const setDeployLogger = (logger: Logger = CONSOLE_LOGGER): void => {
+  deployLogger = logger;
+};
+
+export const getDeployLogger = (): Logger => deployLogger;
+
+/**
+ * Collect setter calls into `batch` instead of sending them until finishSafeBatch
+ */
+export const startSafeBatch = (batch: SafeBatchBuilder): void => {
+  activeSafeBatch = batch;
+};
+
+export const finishSafeBatch = (): void => {
+  activeSafeBatch = undefined;
+};
+
+export const getDeployContext = async (hre: HardhatRuntimeEnvironment): Promise<DeployContext> => {
+  const { deployments, ethers, getNamedAccounts, network } = hre;
+  const { deployer } = await getNamedAccounts();
+  const chainId = network.config.chainId!;
+  const lzEndpoint = getEndpointForChainId(chainId);
+  const link = (address: string) => formatAddress(network.name, address);
+  const plan = activePlan;
+  const safeBatch = activeSafeBatch;
+  // Module output describes transactions as if they were sent, a plan replaces it
+  const log = plan ? () => {} : deployLogger.info;
+  const warn = deployLogger.warn;
+
+  const pending = getPendingCheckpoints(network.name);
+  if (pending.length > 0 && !reportedInterruptions.has(network.name)) {
+    reportedInterruptions.add(network.name);
+    log(`\n⏯️  Resuming ${pending.length} step(s) a previous run did not finish:`);
+    pending.forEach(([step, checkpoint]) => {
+      log(`   ${step}${checkpoint.transactionHash ? ` (tx: ${formatTx(network.name, checkpoint.transactionHash)})` : ''}`);
+    });
+  }
+
+  /**
+   * Whether on-chain code is `contract` as compiled now. Immutables are written by the
+   * constructor, so their bytes are masked on both sides.
+   */
+  const hasArtifactCode = async (code: string, contract: string): Promise<boolean> => {
+    const artifact = await hre.artifacts.readArtifact(contract);
+    if (code === '0x' || code.length !== artifact.deployedBytecode.length) return false;
+
+    const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+    const output = buildInfo?.output.contracts[artifact.sourceName]?.[artifact.contractName];
+    const references = Object.values(output?.evm.deployedBytecode.immutableReferences ?? {}).flat();
+    const mask = (bytecode: string) => {
+      let masked = bytecode.toLowerCase();
+      for (const { start, length } of references) {
+        const offset = 2 + start * 2;
+        masked = `${masked.slice(0, offset)}${'0'.repeat(length * 2)}${masked.slice(offset + length * 2)}`;
+      }
+      return masked;
+    };
+    return mask(code) === mask(artifact.deployedBytecode);
+  };
+
+  const adopt = async (slot: string, contract: string, args: unknown[], address: string, recorded?: DeployedContractRecord): Promise<boolean> => {
+    const transactionHash = recorded?.transactionHash;
+    log(`♻️  Found ${contract} on-chain at ${link(address)}${recorded ? '' : ' from an interrupted run'}`);
+    await deployments.save(contract, { address, abi: (await deployments.getArtifact(contract)).abi, args, transactionHash });
+    if (!plan) {
+      recordContracts(network.name, chainId, [{ contract: slot, address, args, transactionHash }], { deployer });
+    }
+    return true;
+  };
+
+  /**
+   * Hand hardhat-deploy a contract it has no file for: one an interrupted run created at the
+   * predicted address, or one the registry holds. Only a contract with this run's code and
+   * constructor arguments is adopted; a recorded one that differs throws rather than being
+   * recorded with arguments it was not deployed with. Returns whether the contract was adopted.
+   */
+  const adoptDeployment = async (slot: string, contract: string, args: unknown[]): Promise<boolean> => {
+    const recorded = loadDeploymentRecord(network.name)?.contracts[slot];
+    const checkpoint = getCheckpoint(network.name, `deploy:${slot}`);
+    // The nonce of an interrupted deployment may have gone to another transaction, so a
+    // mismatch there is passed over
+    if (checkpoint?.status === 'pending' && checkpoint.address) {
+      const code = await ethers.provider.getCode(checkpoint.address);
+      if (checkpoint.args && sameArgs(checkpoint.args, args) && await hasArtifactCode(code, contract)) {
+        return adopt(slot, contract, args, checkpoint.address);
+      }
+    }
+    if (!recorded) return false;
+
+    const code = await ethers.provider.getCode(recorded.address);
+    if (code === '0x') return false;
+    if (!(await hasArtifactCode(code, contract))) {
+      throw new Error(
+        `${slot} is recorded at ${recorded.address} with other code than ${contract} compiles to, ` +
+        `remove it from ${getDeploymentRecordPath(network.name)} to deploy a new one`
+      );
+    }
+    if (!recorded.args || !sameArgs(recorded.args, args)) {
+      throw new Error(
+        `${slot} is recorded at ${recorded.address} with ${recorded.args ? `constructor arguments ${recorded.args.join(', ')}` : 'no constructor arguments'}, ` +
+        `this run deploys it with ${args.join(', ')}; remove it from ${getDeploymentRecordPath(network.name)} to deploy a new one`
+      );
+    }
+    return adopt(slot, contract, args, recorded.address, recorded);
+  };
+
+  const deployContract = async (slot: string, contract: string, args: unknown[]): Promise<DeployResult> => {
+    const step = `deploy:${slot}`;
+    if (getDeterministicSalt(slot)) {
+      return plan ? planDeterministic(plan, slot, contract, args) : deployDeterministic(slot, contract, args);
+    }
+    const adopted = !(await deployments.getOrNull(contract)) && await adoptDeployment(slot, contract, args);
+    if (plan) return planContract(plan, slot, contract, args);
+    if (!(await deployments.getOrNull(contract))) {
+      await assertContractSizes(hre, [contract]);
+    }
+
+    // Record where a new deployment will land before sending it
+    const nonce = await ethers.provider.getTransactionCount(deployer, 'pending');
+    recordCheckpoint(network.name, chainId, step, {
+      status: 'pending',
+      contract: slot,
+      address: getCreateAddress({ from: deployer, nonce }),
+      args,
+    });
+
+    const result = await deployments.deploy(contract, {
+      from: deployer,
+      args,
+      waitConfirmations: 1,
+      // An adopted contract was checked above, and may have no deployment transaction to compare
+      skipIfAlreadyDeployed: adopted,
+    });
+
+    if (result.newlyDeployed) {
+      log(`deployed "${contract}" at ${link(result.address)}${result.transactionHash ? ` (tx: ${formatTx(network.name, result.transactionHash)})` : ''}`);
+    } else {
+      log(`♻️  reusing "${contract}" at ${link(result.address)}`);
+    }
+    recordContracts(network.name, chainId, [{
+      contract: slot,
+      address: result.address,
+      args,
+      transactionHash: result.transactionHash,
+      blockNumber: result.receipt?.blockNumber,
+    }], { deployer });
+    recordCheckpoint(network.name, chainId, step, {
+      status: 'done',
+      contract: slot,
+      address: result.address,
+      transactionHash: result.transactionHash,
+    });
+
+    return result;
+  };
+
+  /**
+   * Salt, init code and predicted address of a slot deployed through the factory
+   */
+  const prepareDeterministic = async (slot: string, contract: string, args: unknown[]) => {
+    const label = getDeterministicSalt(slot)!;
+    const { data: initCode } = await (await ethers.getContractFactory(contract)).getDeployTransaction(...args);
+    const { factory, mode } = DETERMINISTIC_DEPLOYMENT;
+    return {
+      salt: getFactorySalt(deployer, label),
+      initCode,
+      address: predictDeterministicAddress(mode, factory, deployer, label, initCode),
+      factory: new Contract(factory, CREATEX_ABI, await ethers.getSigner(deployer)),
+      method: mode === 'create3' ? 'deployCreate3' : 'deployCreate2',
+    };
+  };
+
+  /**
+   * Whether a salted slot is already at its predicted address. Throws when the slot is recorded
+   * at another address or the predicted one holds other code, both need a new salt.
+   */
+  const isDeterministicDeployed = async (slot: string, contract: string, args: unknown[], address: string): Promise<boolean> => {
+    const saved = await deployments.getOrNull(contract);
+    const known = [saved?.address, loadDeploymentRecord(network.name)?.contracts[slot]?.address]
+      .find(recorded => recorded && recorded.toLowerCase() !== address.toLowerCase());
+    if (known) {
+      throw new Error(
+        `${contract} is recorded at ${known} but its salt predicts ${address}, ` +
+        'remove the old deployment or change the salt in config/deterministic.ts'
+      );
+    }
+
+    const code = await ethers.provider.getCode(address);
+    if (code === '0x') return false;
+
+    const artifact = await deployments.getArtifact(contract);
+    const argsMatch = !saved || sameArgs(saved.args ?? [], args);
+    const sameBytecode = !saved?.bytecode || saved.bytecode === artifact.bytecode;
+    if (!(await hasArtifactCode(code, contract)) || !argsMatch || !sameBytecode) {
+      throw new Error(`${address} already holds a different ${contract}, change its salt in config/deterministic.ts`);
+    }
+    return true;
+  };
+
+  /**
+   * Deploy a salted slot through the factory, or reuse the contract already at its predicted
+   * address. Throws instead of deploying anywhere else.
+   */
+  const deployDeterministic = async (slot: string, contract: string, args: unknown[]): Promise<DeployResult> => {
+    const step = `deploy:${slot}`;
+    const { salt, initCode, address, factory, method } = await prepareDeterministic(slot, contract, args);
+    const artifact = await deployments.getArtifact(contract);
+
+    if (await isDeterministicDeployed(slot, contract, args, address)) {
+      log(`♻️  reusing "${contract}" at ${link(address)}`);
+      if (!(await deployments.getOrNull(contract))) {
+        await deployments.save(contract, { address, abi: artifact.abi, args, bytecode: artifact.bytecode });
+      }
+      if (!loadDeploymentRecord(network.name)?.contracts[slot]) {
+        recordContracts(network.name, chainId, [{ contract: slot, address, args }], { deployer });
+      }
+      return { ...(await deployments.get(contract)), newlyDeployed: false };
+    }
+
+    if ((await ethers.provider.getCode(await factory.getAddress())) === '0x') {
+      throw new Error(`No CreateX factory at ${DETERMINISTIC_DEPLOYMENT.factory} on ${network.name}`);
+    }
+    await assertContractSizes(hre, [contract]);
+    // Simulating the call returns the address the factory would deploy to
+    const simulated: string = await factory.getFunction(method).staticCall(salt, initCode);
+    if (simulated.toLowerCase() !== address.toLowerCase()) {
+      throw new Error(`CreateX would deploy ${contract} to ${simulated}, predicted ${address}`);
+    }
+
+    recordCheckpoint(network.name, chainId, step, { status: 'pending', contract: slot, address });
+    const tx = await factory.getFunction(method).send(salt, initCode);
+    log(`deploying "${contract}" through CreateX (tx: ${formatTx(network.name, tx.hash)})...`);
+    const receipt = await tx.wait();
+    if ((await ethers.provider.getCode(address)) === '0x') {
+      throw new Error(`${contract} is not at its predicted address ${address} after ${tx.hash}`);
+    }
+
+    log(`   deployed at ${link(address)}`);
+    await deployments.save(contract, {
+      address,
+      abi: artifact.abi,
+      args,
+      bytecode: artifact.bytecode,
+      transactionHash: receipt?.hash,
+    });
+    recordContracts(network.name, chainId, [{
+      contract: slot,
+      address,
+      args,
+      transactionHash: receipt?.hash,
+      blockNumber: receipt?.blockNumber,
+    }], { deployer });
+    recordCheckpoint(network.name, chainId, step, {
+      status: 'done',
+      contract: slot,
+      address,
+      transactionHash: receipt?.hash,
+    });
+
+    // A constructor that makes msg.sender the owner hands the contract to the factory
+    if (artifact.abi.some((entry: { name?: string }) => entry.name === 'owner')) {
+      const owner: string = await new Contract(address, artifact.abi, ethers.provider).getFunction('owner')();
+      if (owner.toLowerCase() !== deployer.toLowerCase()) {
+        throw new Error(`${contract} at ${address} is owned by ${owner}, not the deployer`);
+      }
+    }
+
+    return { ...(await deployments.get(contract)), newlyDeployed: true };
+  };
+
+  /**
+   * Add a deployment to the plan. Deployments only live in memory while planning, so later
+   * modules resolve planned contracts to their predicted addresses.
+   */
+  const planContract = async (
+    plan: DeploymentPlanBuilder,
+    slot: string,
+    contract: string,
+    args: unknown[]
+  ): Promise<DeployResult> => {
+    const { differences, address } = await deployments.fetchIfDifferent(contract, { from: deployer, args });
+    if (!differences && address) {
+      plan.addDeployment({ slot, contract, action: 'reuse', address, args });
+      return { ...(await deployments.get(contract)), newlyDeployed: false };
+    }
+
+    const predicted = plan.nextAddress();
+    let gas: string | undefined;
+    let error: string | undefined;
+    try {
+      await assertContractSizes(hre, [contract]);
+      const factory = await ethers.getContractFactory(contract);
+      const tx = await factory.getDeployTransaction(...args);
+      gas = (await ethers.provider.estimateGas({ ...tx, from: deployer })).toString();
+    } catch (estimateError) {
+      error = describeError(estimateError);
+    }
+    plan.addDeployment({ slot, contract, action: 'deploy', address: predicted, args, gas, error });
+
+    const artifact = await deployments.getArtifact(contract);
+    await deployments.save(contract, { address: predicted, abi: artifact.abi, args });
+    return { ...(await deployments.get(contract)), newlyDeployed: true };
+  };
+
+  /**
+   * Add a salted deployment to the plan at its predicted address, which needs no nonce
+   */
+  const planDeterministic = async (
+    plan: DeploymentPlanBuilder,
+    slot: string,
+    contract: string,
+    args: unknown[]
+  ): Promise<DeployResult> => {
+    const { salt, initCode, address, factory, method } = await prepareDeterministic(slot, contract, args);
+    const artifact = await deployments.getArtifact(contract);
+    const deployed = await isDeterministicDeployed(slot, contract, args, address);
+
+    if (deployed) {
+      plan.addDeployment({ slot, contract, action: 'reuse', address, args });
+    } else {
+      let gas: string | undefined;
+      let error: string | undefined;
+      try {
+        gas = (await factory.getFunction(method).estimateGas(salt, initCode)).toString();
+      } catch (estimateError) {
+        error = describeError(estimateError);
+      }
+      plan.addDeployment({ slot, contract, action: 'deploy', address, args, gas, error });
+    }
+
+    await deployments.save(contract, { address, abi: artifact.abi, args, bytecode: artifact.bytecode });
+    return { ...(await deployments.get(contract)), newlyDeployed: !deployed };
+  };
+
+  const applySetting = async (step: string, setting: SettingStep): Promise<TransactionReceipt | null> => {
+    const description = setting.description ?? setting.method;
+
+    if (plan) {
+      // State of a contract this plan deploys cannot be read yet
+      const applied = plan.isPlannedDeployment(setting.contract) ? undefined : await setting.isApplied();
+      await plan.addCall('calls', step, setting.contract, setting.target, setting.method, setting.args, applied);
+      return null;
+    }
+
+    if (safeBatch) {
+      if (await setting.isApplied()) {
+        log(`⏭️  ${description} already applied`);
+      } else {
+        const call = safeBatch.add(await setting.target.getAddress(), setting.target.interface, setting.method, setting.args);
+        log(`📝 Queued for the Safe: ${call}`);
+      }
+      return null;
+    }
+
+    // A call sent by an interrupted run may still be in the mempool
+    const checkpoint = getCheckpoint(network.name, step);
+    if (checkpoint?.status === 'pending' && checkpoint.transactionHash) {
+      const previous = await ethers.provider.getTransaction(checkpoint.transactionHash);
+      if (previous) {
+        log(`⏳ Waiting for ${description} from a previous run...`);
+        await previous.wait();
+      }
+    }
+
+    if (await setting.isApplied()) {
+      log(`⏭️  ${description} already applied`);
+      if (checkpoint?.status !== 'done') {
+        recordCheckpoint(network.name, chainId, step, { status: 'done', contract: setting.contract });
+      }
+      return null;
+    }
+
+    const tx = await setting.target.getFunction(setting.method).send(...setting.args);
+    recordCheckpoint(network.name, chainId, step, {
+      status: 'pending',
+      contract: setting.contract,
+      transactionHash: tx.hash,
+    });
+
+    const receipt = await tx.wait();
+    recordDeploymentAction(network.name, chainId, {
+      action: 'link',
+      contract: setting.contract,
+      description,
+      transactionHash: receipt?.hash,
+      blockNumber: receipt?.blockNumber,
+    }, { deployer });
+    recordCheckpoint(network.name, chainId, step, {
+      status: 'done',
+      contract: setting.contract,
+      transactionHash: receipt?.hash,
+    });
+
+    return receipt;
+  };
+
+  const skip = (slot: string, reason: string) => {
+    plan?.addSkip(slot, reason);
+  };
+
+  return { deployer, lzEndpoint, link, log, warn, deployContract, applySetting, skip };
+};
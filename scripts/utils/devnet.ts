@@ -0,0 +1,153 @@
+import { Contract, ContractFactory, Provider, Signer, encodeBytes32String, toBeHex, zeroPadValue } from 'ethers';
+import EndpointV2Artifact from '@layerzerolabs/lz-evm-protocol-v2/artifacts/contracts/EndpointV2.sol/EndpointV2.json';
+import SimpleMessageLibArtifact from '@layerzerolabs/lz-evm-protocol-v2/artifacts/contracts/messagelib/SimpleMessageLib.sol/SimpleMessageLib.json';
+import { COLLATERALS, getCollateralDecimals } from '../../config/collaterals';
+import { DEVNET, DevnetConfig } from '../../config/devnet';
+import { PRICE_FEEDS } from '../../config/priceFeeds';
+
+/**
+ * Devnet setup: the configured LayerZero endpoints, price feeds and collaterals are contracts
+ * that only exist on the live chains, so each is installed at its configured address with the
+ * hardhat node's `hardhat_setCode` and `hardhat_setStorageAt`.
+ */
+
+// Provider of a hardhat node, anything that can send its `hardhat_*` methods
+export type DevnetProvider = Provider & { send(method: string, params: unknown[]): Promise<any> };
+
+export interface DevnetArtifact {
+  abi: any[];
+  deployedBytecode: string;
+}
+
+export interface LayerZeroInstall {
+  eid: number;
+  // Address the endpoint is installed at, the configured one on a devnet chain
+  endpoint: string;
+  // Eids the message library is set as the default send and receive library for
+  remoteEids: number[];
+  nativeFee: bigint;
+}
+
+export interface InstalledLayerZero {
+  endpoint: Contract;
+  messageLib: Contract;
+}
+
+export const ENDPOINT_V2_ABI = EndpointV2Artifact.abi;
+export const SIMPLE_MESSAGE_LIB_ABI = SimpleMessageLibArtifact.abi;
+
+// Storage layout of the repo mocks, see contracts/mocks
+const PRICE_FEED_DECIMALS_SLOT = 0;
+const ERC20_NAME_SLOT = 3;
+const ERC20_SYMBOL_SLOT = 4;
+const ERC20_DECIMALS_SLOT = 5;
+
+const slot = (index: number): string => toBeHex(index, 32);
+
+const word = (value: bigint | number): string => zeroPadValue(toBeHex(value), 32);
+
+// Solidity stores strings under 32 bytes in their slot, with twice the length in the last byte
+const shortString = (value: string): string => {
+  const bytes = encodeBytes32String(value);
+  return `${bytes.slice(0, 64)}${toBeHex(value.length * 2, 1).slice(2)}`;
+};
+
+const setCode = async (provider: DevnetProvider, address: string, code: string): Promise<void> => {
+  await provider.send('hardhat_setCode', [address, code]);
+};
+
+const setStorage = async (provider: DevnetProvider, address: string, index: number, value: string): Promise<void> => {
+  await provider.send('hardhat_setStorageAt', [address, slot(index), value]);
+};
+
+/**
+ * Storage the constructor of a contract deployed in `txHash` left behind, read from the
+ * SSTOREs of its own frame in the transaction trace
+ */
+const getConstructorStorage = async (provider: DevnetProvider, txHash: string): Promise<Map<string, string>> => {
+  const trace = await provider.send('debug_traceTransaction', [txHash, { disableMemory: true, disableStorage: true }]);
+  const logs: { op: string; depth: number; stack: string[] }[] = trace.structLogs;
+  const depth = Math.min(...logs.map(log => log.depth));
+  const storage = new Map<string, string>();
+  for (const log of logs) {
+    if (log.op === 'SSTORE' && log.depth === depth) {
+      const [value, key] = log.stack.slice(-2);
+      storage.set(zeroPadValue(`0x${key}`, 32), zeroPadValue(`0x${value}`, 32));
+    }
+  }
+  return storage;
+};
+
+/**
+ * Install an EndpointV2 at `address`. The endpoint's eid is an immutable, so one is deployed
+ * for the eid and its code and constructor storage are copied over.
+ */
+export const installEndpoint = async (provider: DevnetProvider, signer: Signer, eid: number, address: string): Promise<Contract> => {
+  const template = await new ContractFactory(ENDPOINT_V2_ABI, EndpointV2Artifact.bytecode, signer).deploy(eid, await signer.getAddress());
+  await template.waitForDeployment();
+
+  await setCode(provider, address, await provider.getCode(await template.getAddress()));
+  for (const [key, value] of await getConstructorStorage(provider, template.deploymentTransaction()!.hash)) {
+    await provider.send('hardhat_setStorageAt', [address, key, value]);
+  }
+  return new Contract(address, ENDPOINT_V2_ABI, signer);
+};
+
+/**
+ * Endpoint plus a SimpleMessageLib charging `nativeFee` per message, as the default library
+ * towards and from every remote eid. The relayer validates packets through that library.
+ */
+export const installLayerZero = async (provider: DevnetProvider, signer: Signer, install: LayerZeroInstall): Promise<InstalledLayerZero> => {
+  const endpoint = await installEndpoint(provider, signer, install.eid, install.endpoint);
+  const treasury = await signer.getAddress();
+  const messageLib = await new ContractFactory(SIMPLE_MESSAGE_LIB_ABI, SimpleMessageLibArtifact.bytecode, signer).deploy(install.endpoint, treasury);
+  await messageLib.waitForDeployment();
+  const messageLibAddress = await messageLib.getAddress();
+
+  const send = async (call: Promise<any>) => (await call).wait();
+  await send((messageLib as Contract).setMessagingFee(install.nativeFee, 0));
+  await send(endpoint.registerLibrary(messageLibAddress));
+  for (const remoteEid of install.remoteEids) {
+    await send(endpoint.setDefaultSendLibrary(remoteEid, messageLibAddress));
+    await send(endpoint.setDefaultReceiveLibrary(remoteEid, messageLibAddress, 0));
+  }
+
+  return { endpoint, messageLib: messageLib as Contract };
+};
+
+/**
+ * Install MockPriceFeed at every configured feed of `network`, answering the devnet price of
+ * its pair, and return the number of feeds installed
+ */
+export const installPriceFeeds = async (
+  provider: DevnetProvider,
+  signer: Signer,
+  network: string,
+  artifact: DevnetArtifact,
+  config: DevnetConfig = DEVNET
+): Promise<number> => {
+  const feeds = Object.values(PRICE_FEEDS[network] ?? {});
+  for (const feed of feeds) {
+    await setCode(provider, feed.address, artifact.deployedBytecode);
+    await setStorage(provider, feed.address, PRICE_FEED_DECIMALS_SLOT, word(feed.decimals));
+    const price = BigInt(Math.round((config.prices[feed.pair] ?? 1) * 1e8)) * 10n ** BigInt(feed.decimals) / 10n ** 8n;
+    await (await new Contract(feed.address, artifact.abi, signer).setPrice(price)).wait();
+  }
+  return feeds.length;
+};
+
+/**
+ * Install MockERC20 at every collateral address of `network`, with the collateral's symbol
+ * and decimals, and return the number of tokens installed. Anyone can mint them.
+ */
+export const installCollaterals = async (provider: DevnetProvider, network: string, artifact: DevnetArtifact): Promise<number> => {
+  const collaterals = Object.values(COLLATERALS).filter(collateral => collateral.addresses[network]);
+  for (const collateral of collaterals) {
+    const address = collateral.addresses[network];
+    await setCode(provider, address, artifact.deployedBytecode);
+    await setStorage(provider, address, ERC20_NAME_SLOT, shortString(collateral.symbol));
+    await setStorage(provider, address, ERC20_SYMBOL_SLOT, shortString(collateral.symbol));
+    await setStorage(provider, address, ERC20_DECIMALS_SLOT, word(getCollateralDecimals(collateral.symbol, network)!));
+  }
+  return collaterals.length;
+};
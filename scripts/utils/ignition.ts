@@ -0,0 +1,63 @@
+import {
+  ArgumentType,
+  IgnitionModule,
+  NamedArtifactContractDeploymentFuture,
+  isAccountRuntimeValue,
+  isFuture,
+  isModuleParameterRuntimeValue,
+  isNamedContractDeploymentFuture,
+} from '@nomicfoundation/ignition-core';
+import { IgnitionParameters } from '../../config/ignition';
+
+/**
+ * What torque:ignition needs from an Ignition module besides deploying it: the contracts it
+ * deploys, and the constructor arguments each was sent with for the deployment registry.
+ */
+
+export type ContractDeploymentFuture = NamedArtifactContractDeploymentFuture<string>;
+
+/**
+ * Contract deployments of `module` and its submodules, each once
+ */
+export const getModuleDeployments = (module: IgnitionModule): ContractDeploymentFuture[] => {
+  const deployments = new Map<string, ContractDeploymentFuture>();
+  const visit = (current: IgnitionModule) => {
+    current.futures.forEach(future => {
+      if (isNamedContractDeploymentFuture(future)) deployments.set(future.id, future);
+    });
+    current.submodules.forEach(visit);
+  };
+  visit(module);
+  return [...deployments.values()];
+};
+
+/**
+ * Constructor arguments `future` was deployed with: parameters as Ignition resolves them, from
+ * the future's module, then `$global`, then the default; accounts by index; and contracts by
+ * the address deployed for them, from `addresses` keyed by future ID
+ */
+export const resolveConstructorArgs = (
+  future: ContractDeploymentFuture,
+  parameters: IgnitionParameters,
+  accounts: string[],
+  addresses: Record<string, string>
+): unknown[] => {
+  const resolve = (arg: ArgumentType): unknown => {
+    if (isModuleParameterRuntimeValue(arg)) {
+      return parameters[arg.moduleId]?.[arg.name] ?? parameters.$global?.[arg.name] ?? arg.defaultValue;
+    }
+    if (isAccountRuntimeValue(arg)) return accounts[arg.accountIndex];
+    if (isFuture(arg)) {
+      if (!addresses[arg.id]) {
+        throw new Error(`No address for ${arg.id}, an argument of ${future.id}`);
+      }
+      return addresses[arg.id];
+    }
+    if (Array.isArray(arg)) return arg.map(resolve);
+    if (typeof arg === 'object') {
+      return Object.fromEntries(Object.entries(arg).map(([field, value]) => [field, resolve(value)]));
+    }
+    return arg;
+  };
+  return future.constructorArgs.map(resolve);
+};
@@ -0,0 +1,21 @@
+/**
+ * Output of the deploy and wiring utilities. Tasks print it to the console; plans keep only
+ * the warnings, and tests pass the quiet logger.
+ */
+
+export interface Logger {
+  // Progress, e.g. a transaction sent or a step already applied
+  info: (message: string) => void;
+  // Something the operator has to act on
+  warn: (message: string) => void;
+}
+
+export const CONSOLE_LOGGER: Logger = {
+  info: message => console.log(message),
+  warn: message => console.warn(message),
+};
+
+export const QUIET_LOGGER: Logger = {
+  info: () => {},
+  warn: () => {},
+};
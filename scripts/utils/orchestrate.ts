@@ -0,0 +1,195 @@
+import { spawn } from 'child_process';
+import { createWriteStream, mkdirSync } from 'fs';
+import path from 'path';
+import { createInterface } from 'readline/promises';
+import { getPendingCheckpoints, loadDeploymentRecord } from '../../config/deployments';
+import { CONSOLE_LOGGER, Logger } from './logger';
+
+/**
+ * Multi-chain orchestration: each phase runs one hardhat process per chain side by side, with
+ * its output prefixed on the console and written to a log file. Every chain writes its own
+ * registry record, so parallel runs never write the same file. Cross-chain phases run once
+ * over every chain that got through the earlier ones.
+ */
+
+export type OrchestratorPhase = 'deploy' | 'link' | 'peers' | 'check';
+
+export const ORCHESTRATOR_PHASES: OrchestratorPhase[] = ['deploy', 'link', 'peers', 'check'];
+
+export type ChainRunStatus = 'ok' | 'failed' | 'skipped';
+
+export interface ChainCommand {
+  // Network the output is prefixed with, or the phase name for cross-chain commands
+  label: string;
+  command: string;
+  args: string[];
+}
+
+export interface ChainRun {
+  network: string;
+  phase: OrchestratorPhase;
+  status: ChainRunStatus;
+  exitCode?: number | null;
+  durationMs?: number;
+  log?: string;
+  // Why the chain was skipped or its process did not start
+  message?: string;
+}
+
+export interface CommandResult {
+  label: string;
+  exitCode: number | null;
+  durationMs: number;
+  log: string;
+  error?: string;
+}
+
+const STATUS_CELLS: Record<ChainRunStatus, string> = {
+  ok: '✅',
+  failed: '❌',
+  skipped: '➖',
+};
+
+const hardhat = (label: string, ...args: string[]): ChainCommand => ({ label, command: 'npx', args: ['hardhat', ...args] });
+
+/**
+ * Hardhat command of a per-chain phase. Contracts are compiled once before the phases, since
+ * concurrent compiles would write the same artifacts.
+ */
+export const getChainCommand = (phase: 'deploy' | 'link', network: string): ChainCommand => {
+  return hardhat(network, 'deploy', '--tags', phase === 'deploy' ? 'Deploy' : 'Link', '--no-compile', '--network', network);
+};
+
+/**
+ * Hardhat command of a cross-chain phase over `networks`
+ */
+export const getCrossChainCommand = (phase: 'peers' | 'check', networks: string[]): ChainCommand => {
+  return phase === 'peers'
+    ? hardhat(phase, 'torque:peers', '--networks', networks.join(','), '--network', networks[0])
+    : hardhat(phase, 'torque:check', '--networks', networks.join(','));
+};
+
+/**
+ * Run a command with its output prefixed by its label on `logger`, stderr as warnings, and
+ * written to `log`
+ */
+export const runCommand = (command: ChainCommand, log: string, logger: Logger = CONSOLE_LOGGER): Promise<CommandResult> => {
+  mkdirSync(path.dirname(log), { recursive: true });
+  const file = createWriteStream(log);
+  const started = Date.now();
+
+  return new Promise(resolve => {
+    const child = spawn(command.command, command.args, { env: process.env, stdio: ['ignore', 'pipe', 'pipe'] });
+    let error: string | undefined;
+
+    const forward = (stream: NodeJS.ReadableStream, write: (line: string) => void) => {
+      createInterface({ input: stream, crlfDelay: Infinity }).on('line', line => {
+        file.write(`${line}\n`);
+        write(`[${command.label}] ${line}`);
+      });
+    };
+    forward(child.stdout!, line => logger.info(line));
+    forward(child.stderr!, line => logger.warn(line));
+
+    child.on('error', spawnError => {
+      error = spawnError.message;
+    });
+    child.on('close', exitCode => {
+      file.end(() => resolve({ label: command.label, exitCode, durationMs: Date.now() - started, log, error }));
+    });
+  });
+};
+
+/**
+ * Run commands with at most `concurrency` at a time, a failing command does not stop the others
+ */
+export const runInParallel = async (
+  commands: ChainCommand[],
+  logFor: (command: ChainCommand) => string,
+  concurrency: number = commands.length,
+  logger: Logger = CONSOLE_LOGGER
+): Promise<CommandResult[]> => {
+  const results: CommandResult[] = new Array(commands.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < commands.length) {
+      const index = next++;
+      results[index] = await runCommand(commands[index], logFor(commands[index]), logger);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, commands.length)) }, worker));
+  return results;
+};
+
+export const toChainRun = (network: string, phase: OrchestratorPhase, result: CommandResult): ChainRun => ({
+  network,
+  phase,
+  status: result.exitCode === 0 ? 'ok' : 'failed',
+  exitCode: result.exitCode,
+  durationMs: result.durationMs,
+  log: result.log,
+  message: result.error,
+});
+
+/**
+ * Ask on the terminal before a phase starts. Without a terminal there is no one to approve.
+ */
+export const confirmPhase = async (question: string): Promise<boolean> => {
+  if (!process.stdin.isTTY) {
+    throw new Error('Approval needs an interactive terminal, pass --yes to run every phase unattended');
+  }
+  const prompt = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = await prompt.question(`${question} [y/N] `);
+    return ['y', 'yes'].includes(answer.trim().toLowerCase());
+  } finally {
+    prompt.close();
+  }
+};
+
+/**
+ * Chain by phase status matrix with the registry state of each chain, then the failures
+ * and skips with their log files
+ */
+export const formatOrchestrationSummary = (
+  runs: ChainRun[],
+  networks: string[],
+  phases: OrchestratorPhase[]
+): string => {
+  const width = Math.max('network'.length, ...networks.map(network => network.length));
+  const column = (phase: string) => Math.max(phase.length, 4);
+  const registry = (network: string): string => {
+    const record = loadDeploymentRecord(network);
+    if (!record) return 'no record';
+    const pending = getPendingCheckpoints(network).length;
+    return `v${record.version}, ${Object.keys(record.contracts).length} contract(s)${pending > 0 ? `, ${pending} pending step(s)` : ''}`;
+  };
+
+  const lines = [
+    ['network'.padEnd(width), ...phases.map(phase => phase.padEnd(column(phase))), 'registry'].join('  '),
+    ...networks.map(network => [
+      network.padEnd(width),
+      ...phases.map(phase => {
+        const run = runs.find(entry => entry.network === network && entry.phase === phase);
+        return (run ? STATUS_CELLS[run.status] : ' ').padEnd(column(phase));
+      }),
+      registry(network),
+    ].join('  ')),
+  ];
+
+  const succeeded = networks.filter(network => runs.some(run => run.network === network)
+    && runs.filter(run => run.network === network).every(run => run.status === 'ok'));
+  lines.push('', `${succeeded.length}/${networks.length} chain(s) succeeded${succeeded.length > 0 ? `: ${succeeded.join(', ')}` : ''}`);
+
+  const problems = runs.filter(run => run.status !== 'ok');
+  if (problems.length > 0) {
+    lines.push('', 'Not completed:', ...problems.map(run => {
+      const detail = run.status === 'failed'
+        ? `exit ${run.exitCode ?? 'signal'}${run.message ? `, ${run.message}` : ''}${run.log ? `, see ${run.log}` : ''}`
+        : run.message ?? 'skipped';
+      return `  ${STATUS_CELLS[run.status]} ${run.network} ${run.phase}: ${detail}`;
+    }));
+  }
+  return lines.join('\n');
+};
@@ -0,0 +1,237 @@
+import { Contract, Provider, Signer, TransactionReceipt } from 'ethers';
+import { getDeploymentSlots, getSlotContractName } from '../../config/contracts';
+import { loadDeploymentRecord, recordDeploymentAction } from '../../config/deployments';
+import { CONSOLE_LOGGER, Logger } from './logger';
+import { SafeBatchTransaction, encodeSafeTransaction } from './safe';
+
+/**
+ * Ownership handoff from the deployer to a Safe: every Ownable in a deployment is read, the
+ * ones the deployer still owns are transferred, and whatever the Safe has to sign itself
+ * (accepting two-step transfers, LayerZero delegates) is collected into a batch.
+ */
+
+export type OwnershipStatus =
+  // Owned by the Safe
+  | 'handed-over'
+  // Two-step transfer started, the Safe has to call acceptOwnership
+  | 'awaiting-acceptance'
+  // Owned by the signer running the handoff
+  | 'transferable'
+  // Owned by an account that is neither, nothing the handoff can do
+  | 'foreign'
+  | 'not-ownable'
+  // Not recorded, or no code at the recorded address
+  | 'missing';
+
+export interface OwnableState {
+  // Registry slot, e.g. `engines.EUR`
+  slot: string;
+  contract?: string;
+  address?: string;
+  status: OwnershipStatus;
+  owner?: string;
+  // Set for Ownable2Step contracts
+  pendingOwner?: string;
+  twoStep: boolean;
+  // LayerZero endpoint and the OApp's delegate on it, set for OApps
+  endpoint?: string;
+  delegate?: string;
+  message?: string;
+}
+
+export interface OwnershipStep {
+  slot: string;
+  address: string;
+  method: 'setDelegate' | 'transferOwnership';
+  args: [string];
+  description: string;
+}
+
+export interface OwnershipHandoffPlan {
+  safe: string;
+  // Calls the signer sends, in order
+  steps: OwnershipStep[];
+  // Calls the Safe has to make once the steps are mined
+  safeTransactions: SafeBatchTransaction[];
+  // Contracts owned by someone else
+  blocked: OwnableState[];
+}
+
+export const OWNABLE_ABI = [
+  'function owner() view returns (address)',
+  'function pendingOwner() view returns (address)',
+  'function transferOwnership(address newOwner)',
+  'function acceptOwnership()',
+  'function endpoint() view returns (address)',
+  'function setDelegate(address delegate)',
+];
+const ENDPOINT_ABI = ['function delegates(address oapp) view returns (address)'];
+
+const STATUS_ICONS: Record<OwnershipStatus, string> = {
+  'handed-over': '✅',
+  'awaiting-acceptance': '⏳',
+  transferable: '🔑',
+  foreign: '❌',
+  'not-ownable': '➖',
+  missing: '⏭️ ',
+};
+
+const sameAddress = (a?: string, b?: string): boolean => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+const read = async (contract: Contract, method: string, ...args: unknown[]): Promise<string | undefined> => {
+  try {
+    return await contract.getFunction(method).staticCall(...args);
+  } catch {
+    // Not implemented by this contract, or reverted
+    return undefined;
+  }
+};
+
+// The delegate configures the OApp's LayerZero libraries and DVNs, so it moves with ownership
+const needsDelegate = (state: OwnableState, safe: string): boolean => {
+  return !!state.endpoint && !sameAddress(state.delegate, safe);
+};
+
+/**
+ * Owner, pending owner and LayerZero delegate of every slot of a deployment, including the
+ * slots the registry has no address for
+ */
+export const readOwnableStates = async (
+  network: string,
+  provider: Provider,
+  options: { safe: string; signer: string }
+): Promise<OwnableState[]> => {
+  const record = loadDeploymentRecord(network);
+  if (!record) {
+    throw new Error(`No deployment recorded for ${network}`);
+  }
+
+  const slots = [...new Set([...getDeploymentSlots(), ...Object.keys(record.contracts)])];
+  const states: OwnableState[] = [];
+  for (const slot of slots) {
+    const contract = getSlotContractName(slot);
+    const address = record.contracts[slot]?.address;
+    if (!address) {
+      states.push({ slot, contract, status: 'missing', twoStep: false, message: 'not recorded' });
+      continue;
+    }
+    if ((await provider.getCode(address)) === '0x') {
+      states.push({ slot, contract, address, status: 'missing', twoStep: false, message: 'no code at address' });
+      continue;
+    }
+
+    const ownable = new Contract(address, OWNABLE_ABI, provider);
+    const owner = await read(ownable, 'owner');
+    if (!owner) {
+      states.push({ slot, contract, address, status: 'not-ownable', twoStep: false });
+      continue;
+    }
+
+    const pendingOwner = await read(ownable, 'pendingOwner');
+    const endpoint = await read(ownable, 'endpoint');
+    const delegate = endpoint ? await read(new Contract(endpoint, ENDPOINT_ABI, provider), 'delegates', address) : undefined;
+
+    let status: OwnershipStatus = 'foreign';
+    if (sameAddress(owner, options.safe)) status = 'handed-over';
+    else if (sameAddress(pendingOwner, options.safe)) status = 'awaiting-acceptance';
+    else if (sameAddress(owner, options.signer)) status = 'transferable';
+
+    states.push({ slot, contract, address, status, owner, pendingOwner, twoStep: pendingOwner !== undefined, endpoint, delegate });
+  }
+  return states;
+};
+
+/**
+ * Calls that move every contract the signer owns to the Safe, and the batch the Safe signs
+ * afterwards. The same states before and after the steps are sent produce the same batch.
+ */
+export const planOwnershipHandoff = (states: OwnableState[], safe: string): OwnershipHandoffPlan => {
+  const steps: OwnershipStep[] = [];
+  const safeTransactions: SafeBatchTransaction[] = [];
+
+  for (const state of states) {
+    if (!state.address) continue;
+    const name = `${state.slot} (${state.contract})`;
+
+    if (state.status === 'transferable') {
+      if (needsDelegate(state, safe)) {
+        steps.push({ slot: state.slot, address: state.address, method: 'setDelegate', args: [safe], description: `${name}.setDelegate(${safe})` });
+      }
+      steps.push({ slot: state.slot, address: state.address, method: 'transferOwnership', args: [safe], description: `${name}.transferOwnership(${safe})` });
+    }
+
+    const accepts = state.twoStep && (state.status === 'transferable' || state.status === 'awaiting-acceptance');
+    if (accepts) {
+      safeTransactions.push(encodeSafeTransaction(state.address, OWNABLE_ABI, 'acceptOwnership'));
+    }
+    // The signer sets the delegate before transferring; contracts already past that point need the Safe
+    if ((state.status === 'handed-over' || state.status === 'awaiting-acceptance') && needsDelegate(state, safe)) {
+      safeTransactions.push(encodeSafeTransaction(state.address, OWNABLE_ABI, 'setDelegate', [safe]));
+    }
+  }
+
+  return { safe, steps, safeTransactions, blocked: states.filter(state => state.status === 'foreign') };
+};
+
+/**
+ * Send the handoff steps from the signer, recording each in the deployment registry and
+ * reporting it to `logger`
+ */
+export const executeOwnershipSteps = async (
+  network: string,
+  chainId: number,
+  signer: Signer,
+  steps: OwnershipStep[],
+  logger: Logger = CONSOLE_LOGGER
+): Promise<TransactionReceipt[]> => {
+  const deployer = await signer.getAddress();
+  const receipts: TransactionReceipt[] = [];
+
+  for (const step of steps) {
+    const contract = new Contract(step.address, OWNABLE_ABI, signer);
+    const tx = await contract.getFunction(step.method).send(...step.args);
+    const receipt = (await tx.wait())!;
+    logger.info(`✅ ${step.description}`);
+
+    recordDeploymentAction(network, chainId, {
+      action: 'ownership',
+      contract: step.slot,
+      description: step.description,
+      transactionHash: receipt.hash,
+      blockNumber: receipt.blockNumber,
+    }, { deployer });
+    receipts.push(receipt);
+  }
+  return receipts;
+};
+
+/**
+ * True once every Ownable is owned by the Safe and every OApp delegates to it
+ */
+export const isOwnershipHandedOver = (states: OwnableState[], safe: string): boolean => {
+  return states
+    .filter(state => state.status !== 'missing' && state.status !== 'not-ownable')
+    .every(state => state.status === 'handed-over' && !needsDelegate(state, safe));
+};
+
+/**
+ * Per-contract owner table with a summary line
+ */
+export const formatOwnershipReport = (states: OwnableState[], safe: string): string => {
+  const lines = states.map(state => {
+    const delegate = state.endpoint
+      ? `  delegate ${sameAddress(state.delegate, safe) ? 'Safe' : state.delegate ?? 'unknown'}`
+      : '';
+    const detail = state.status === 'missing' || state.status === 'not-ownable'
+      ? state.message ?? ''
+      : `owner ${sameAddress(state.owner, safe) ? 'Safe' : state.owner}${delegate}`;
+    return `${STATUS_ICONS[state.status]} ${state.slot.padEnd(22)} ${state.status.padEnd(20)} ${detail}`.trimEnd();
+  });
+
+  const counts = (Object.keys(STATUS_ICONS) as OwnershipStatus[])
+    .map(status => [status, states.filter(state => state.status === status).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${status}`);
+
+  return [...lines, '', `Safe ${safe}: ${counts.join(', ')}`].join('\n');
+};
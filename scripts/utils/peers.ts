@@ -0,0 +1,238 @@
+import { Contract, Provider, Signer, zeroPadValue } from 'ethers';
+import { LEGACY_CHAIN_ID_SLOTS, getOAppSlots } from '../../config/contracts';
+import { loadDeploymentRecord, recordDeploymentAction } from '../../config/deployments';
+import { getEndpointEid } from '../../config/devnet';
+import { getLayerZeroConfig } from '../../config/layerzero';
+import { CONSOLE_LOGGER, Logger } from './logger';
+import { describeError } from './plan';
+import { SafeBatchBuilder } from './safe';
+
+/**
+ * LayerZero peer mesh: every OApp slot peers with the same slot on every other chain. Peers
+ * are read from each chain, and the missing or wrong ones are set from the deployer or
+ * written to a Safe batch.
+ */
+
+export interface PeerChain {
+  // Registry network
+  network: string;
+  chainId: number;
+  // LayerZero v2 endpoint ID
+  eid: number;
+  // uint16 chain ID the LEGACY_CHAIN_ID_SLOTS contracts address this chain by
+  legacyChainId?: number;
+  // OApp addresses by slot
+  contracts: Record<string, string>;
+  provider: Provider;
+  // Sends setPeer on this chain, peers are only read without one
+  signer?: Signer;
+}
+
+export type PeerStatus =
+  | 'ok'
+  | 'unset'
+  // Set to an address other than the remote deployment
+  | 'wrong'
+  // The peer call was sent or batched by this run
+  | 'set'
+  // Not deployed on one side, or unreadable
+  | 'missing'
+  // The contract addresses the chains by legacy chain IDs their endpoints do not route
+  | 'unsupported';
+
+export interface PeerLink {
+  slot: string;
+  from: string;
+  to: string;
+  status: PeerStatus;
+  // bytes32 peer expected and read on `from`
+  expected?: string;
+  actual?: string;
+  message?: string;
+  transactionHash?: string;
+}
+
+export const OAPP_PEER_ABI = [
+  'function peers(uint32 eid) view returns (bytes32)',
+  'function setPeer(uint32 eid, bytes32 peer)',
+];
+
+const STATUS_CELLS: Record<PeerStatus, string> = {
+  ok: '✅',
+  set: '🔗',
+  unset: '❌',
+  wrong: '❌',
+  missing: '➖',
+  unsupported: '🚫',
+};
+
+export const toPeer = (address: string): string => zeroPadValue(address, 32).toLowerCase();
+
+/**
+ * Peer chain for a registry network, with its OApps, the eid of its endpoint (the legacy
+ * chain ID on the devnet) and legacy chain ID from the config
+ */
+export const getPeerChain = (
+  network: string,
+  provider: Provider,
+  signer?: Signer,
+  eid?: number,
+  legacyChainId: number | undefined = getLayerZeroConfig(network)?.legacyChainId
+): PeerChain => {
+  const record = loadDeploymentRecord(network);
+  if (!record) {
+    throw new Error(`No deployment recorded for ${network}`);
+  }
+  const endpointId = eid ?? getEndpointEid(network);
+  if (endpointId === undefined) {
+    throw new Error(`No LayerZero endpoint configured for ${network}`);
+  }
+
+  const contracts: Record<string, string> = {};
+  for (const slot of getOAppSlots()) {
+    const address = record.contracts[slot]?.address;
+    if (address) contracts[slot] = address;
+  }
+  return { network, chainId: record.chainId, eid: endpointId, legacyChainId, contracts, provider, signer };
+};
+
+/**
+ * Whether the legacy chain ID contracts can message between two chains: they send to the
+ * destination's legacy chain ID and resolve the source from its eid, so both chains' endpoints
+ * must use their legacy chain ID as eid. On the live chains they never do.
+ */
+export const routesLegacyChainIds = (from: PeerChain, to: PeerChain): boolean => {
+  return [from, to].every(chain => chain.legacyChainId === chain.eid);
+};
+
+/**
+ * Every directed (slot, from, to) peer across the chains, read from `from`
+ */
+export const readPeerMesh = async (chains: PeerChain[]): Promise<PeerLink[]> => {
+  const links: PeerLink[] = [];
+  for (const slot of getOAppSlots()) {
+    for (const from of chains) {
+      for (const to of chains) {
+        if (from === to) continue;
+        const link: PeerLink = { slot, from: from.network, to: to.network, status: 'missing' };
+        links.push(link);
+
+        const local = from.contracts[slot];
+        const remote = to.contracts[slot];
+        if (!local || !remote) {
+          link.message = `not deployed on ${local ? to.network : from.network}`;
+          continue;
+        }
+
+        if (LEGACY_CHAIN_ID_SLOTS.includes(slot) && !routesLegacyChainIds(from, to)) {
+          link.status = 'unsupported';
+          link.message = `sends to legacy chain ID ${to.legacyChainId ?? 'unset'}, the endpoint routes eid ${to.eid}`;
+          continue;
+        }
+
+        link.expected = toPeer(remote);
+        try {
+          link.actual = (await new Contract(local, OAPP_PEER_ABI, from.provider).peers(to.eid) as string).toLowerCase();
+        } catch (error) {
+          link.message = `read failed: ${describeError(error)}`;
+          continue;
+        }
+        if (link.actual === link.expected) link.status = 'ok';
+        else link.status = BigInt(link.actual) === 0n ? 'unset' : 'wrong';
+      }
+    }
+  }
+  return links;
+};
+
+/**
+ * Set every unset or wrong peer. Chains with a Safe batch get the call queued, chains with a
+ * signer send it, and chains with neither are left as they are. Each call is reported to
+ * `options.logger`, the console by default.
+ */
+export const wirePeers = async (
+  chains: PeerChain[],
+  links: PeerLink[],
+  options: { safeBatches?: Record<string, SafeBatchBuilder>; dryRun?: boolean; logger?: Logger } = {}
+): Promise<PeerLink[]> => {
+  const byNetwork = new Map(chains.map(chain => [chain.network, chain]));
+  const logger = options.logger ?? CONSOLE_LOGGER;
+
+  for (const link of links) {
+    if (link.status !== 'unset' && link.status !== 'wrong') continue;
+    const from = byNetwork.get(link.from)!;
+    const to = byNetwork.get(link.to)!;
+    const address = from.contracts[link.slot];
+    const description = `${link.slot}.setPeer(${to.network} ${to.eid}, ${to.contracts[link.slot]})`;
+
+    if (options.dryRun) {
+      logger.info(`📋 ${from.network}: ${description}`);
+      continue;
+    }
+
+    const batch = options.safeBatches?.[from.network];
+    if (batch) {
+      batch.add(address, OAPP_PEER_ABI, 'setPeer', [to.eid, link.expected]);
+      logger.info(`📝 ${from.network}: queued ${description}`);
+      link.status = 'set';
+      continue;
+    }
+    if (!from.signer) continue;
+
+    const tx = await new Contract(address, OAPP_PEER_ABI, from.signer).setPeer(to.eid, link.expected);
+    const receipt = await tx.wait();
+    recordDeploymentAction(from.network, from.chainId, {
+      action: 'link',
+      contract: link.slot,
+      description: `setPeer ${to.network} (${to.eid})`,
+      transactionHash: receipt?.hash,
+      blockNumber: receipt?.blockNumber,
+    }, { deployer: await from.signer.getAddress() });
+    logger.info(`✅ ${from.network}: ${description}`);
+    link.status = 'set';
+    link.transactionHash = receipt?.hash;
+  }
+  return links;
+};
+
+/**
+ * Network by network matrix of the peer mesh, one cell per direction, followed by the OApps
+ * whose peers are not in place
+ */
+export const formatPeerMatrix = (links: PeerLink[], networks: string[]): string => {
+  const width = Math.max('from \\ to'.length, ...networks.map(network => network.length));
+  const cell = (from: string, to: string): string => {
+    if (from === to) return '·';
+    const direction = links.filter(link => link.from === from && link.to === to && link.status !== 'missing' && link.status !== 'unsupported');
+    const failing = direction.filter(link => link.status === 'unset' || link.status === 'wrong').length;
+    if (failing > 0) return `❌ ${failing}`;
+    if (direction.some(link => link.status === 'set')) return '🔗';
+    return direction.length > 0 ? '✅' : '➖';
+  };
+
+  const lines = [
+    ['from \\ to'.padEnd(width), ...networks.map(network => network.padEnd(Math.max(network.length, 4)))].join('  ').trimEnd(),
+    ...networks.map(from => [
+      from.padEnd(width),
+      ...networks.map(to => cell(from, to).padEnd(Math.max(to.length, 4))),
+    ].join('  ').trimEnd()),
+  ];
+
+  const failing = links.filter(link => link.status === 'unset' || link.status === 'wrong');
+  const counts = (Object.keys(STATUS_CELLS) as PeerStatus[])
+    .map(status => [status, links.filter(link => link.status === status).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${status}`);
+
+  lines.push('', `${links.length} peer link(s): ${counts.join(', ') || 'none'}`);
+  const unsupported = [...new Set(links.filter(link => link.status === 'unsupported').map(link => link.slot))];
+  if (unsupported.length > 0) {
+    lines.push('', `${STATUS_CELLS.unsupported} Not wired, they address chains by legacy chain IDs the endpoints do not route: ${unsupported.join(', ')}`);
+  }
+  if (failing.length > 0) {
+    lines.push('', 'Not wired:', ...failing.map(link =>
+      `  ${STATUS_CELLS[link.status]} ${link.slot} ${link.from} -> ${link.to}: ${link.status}${link.status === 'wrong' ? ` (${link.actual})` : ''}`
+    ));
+  }
+  return lines.join('\n');
+};
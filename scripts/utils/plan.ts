@@ -0,0 +1,257 @@
+import { BaseContract, formatUnits, getCreateAddress } from 'ethers';
+import { CHAINS } from '../../config/chains';
+
+/**
+ * Deployment plan collected by `hardhat deploy --plan`: what the deploy modules would send,
+ * with gas estimates, rendered as JSON and markdown for change review.
+ */
+
+export type PlannedDeploymentAction = 'deploy' | 'reuse';
+
+export type PlannedCallAction = 'call' | 'skip';
+
+export interface PlannedArgument {
+  name: string;
+  type: string;
+  value: string;
+}
+
+export interface PlannedDeployment {
+  // Registry slot, e.g. `torqueDEX` or `engines.EUR`
+  slot: string;
+  contract: string;
+  action: PlannedDeploymentAction;
+  // Existing address, or the address the deployment would create from the deployer nonce or its salt
+  address: string;
+  args: string[];
+  gas?: string;
+  // Why gas could not be estimated
+  error?: string;
+}
+
+export interface PlannedCall {
+  step: string;
+  // Slot of the contract called
+  contract: string;
+  target: string;
+  signature: string;
+  args: PlannedArgument[];
+  action: PlannedCallAction;
+  // Why the call is skipped, or why gas could not be estimated
+  reason?: string;
+  gas?: string;
+}
+
+export interface PlannedSkip {
+  slot: string;
+  reason: string;
+}
+
+export interface DeploymentPlan {
+  network: string;
+  chainId: number;
+  deployer: string;
+  generatedAt: string;
+  gasPrice: string;
+  nativeSymbol: string;
+  deployments: PlannedDeployment[];
+  skipped: PlannedSkip[];
+  calls: PlannedCall[];
+  // Collateral onboarding from 03_add_collateral_tokens.ts, one call per engine and token
+  collaterals: PlannedCall[];
+  totals: {
+    transactions: number;
+    // Transactions whose gas could not be estimated, excluded from gas and cost
+    unestimated: number;
+    gas: string;
+    cost: string;
+  };
+}
+
+const formatValue = (value: unknown): string => {
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'string') return value;
+  return JSON.stringify(value, (_, inner) => (typeof inner === 'bigint' ? inner.toString() : inner));
+};
+
+export const describeError = (error: unknown): string => {
+  const { shortMessage, message } = (error ?? {}) as { shortMessage?: string; message?: string };
+  return shortMessage ?? message ?? String(error);
+};
+
+export class DeploymentPlanBuilder {
+  readonly deployments: PlannedDeployment[] = [];
+  readonly skipped: PlannedSkip[] = [];
+  readonly calls: PlannedCall[] = [];
+  readonly collaterals: PlannedCall[] = [];
+  private transactions = 0;
+
+  constructor(
+    readonly network: string,
+    readonly chainId: number,
+    readonly deployer: string,
+    private readonly nonce: number,
+    readonly gasPrice: bigint
+  ) {}
+
+  // Address the next planned deployment would get, assuming every planned transaction lands in order
+  nextAddress(): string {
+    return getCreateAddress({ from: this.deployer, nonce: this.nonce + this.transactions });
+  }
+
+  isPlannedDeployment(slot: string): boolean {
+    return this.deployments.some(deployment => deployment.slot === slot && deployment.action === 'deploy');
+  }
+
+  addDeployment(deployment: Omit<PlannedDeployment, 'args'> & { args: unknown[] }): void {
+    if (deployment.action === 'deploy') this.transactions++;
+    this.deployments.push({ ...deployment, args: deployment.args.map(formatValue) });
+  }
+
+  addSkip(slot: string, reason: string): void {
+    this.skipped.push({ slot, reason });
+  }
+
+  /**
+   * Plan a call with decoded arguments; `applied` undefined means state cannot be read yet
+   */
+  async addCall(
+    list: 'calls' | 'collaterals',
+    step: string,
+    contract: string,
+    target: BaseContract,
+    method: string,
+    args: unknown[],
+    applied: boolean | undefined
+  ): Promise<void> {
+    const fragment = target.interface.getFunction(method)!;
+    const call: PlannedCall = {
+      step,
+      contract,
+      target: await target.getAddress(),
+      signature: fragment.format('sighash'),
+      args: fragment.inputs.map((input, index) => ({
+        name: input.name,
+        type: input.type,
+        value: formatValue(args[index]),
+      })),
+      action: applied ? 'skip' : 'call',
+    };
+
+    if (applied) {
+      call.reason = 'already applied on-chain';
+    } else if (applied === undefined) {
+      call.reason = 'target is deployed by this plan, gas not estimated';
+    } else {
+      try {
+        call.gas = (await target.getFunction(method).estimateGas(...args)).toString();
+      } catch (error) {
+        call.reason = `gas estimate failed: ${describeError(error)}`;
+      }
+    }
+
+    if (call.action === 'call') this.transactions++;
+    this[list].push(call);
+  }
+
+  build(): DeploymentPlan {
+    const transactions = [
+      ...this.deployments.filter(deployment => deployment.action === 'deploy'),
+      ...[...this.calls, ...this.collaterals].filter(call => call.action === 'call'),
+    ];
+    const gas = transactions.reduce((total, entry) => total + BigInt(entry.gas ?? 0), 0n);
+
+    return {
+      network: this.network,
+      chainId: this.chainId,
+      deployer: this.deployer,
+      generatedAt: new Date().toISOString(),
+      gasPrice: this.gasPrice.toString(),
+      nativeSymbol: CHAINS[this.network]?.nativeCurrency.symbol ?? 'ETH',
+      deployments: this.deployments,
+      skipped: this.skipped,
+      calls: this.calls,
+      collaterals: this.collaterals,
+      totals: {
+        transactions: transactions.length,
+        unestimated: transactions.filter(entry => entry.gas === undefined).length,
+        gas: gas.toString(),
+        cost: (gas * this.gasPrice).toString(),
+      },
+    };
+  }
+}
+
+const formatCost = (gas: string | undefined, plan: DeploymentPlan): string => {
+  if (gas === undefined) return 'n/a';
+  return `${formatUnits(BigInt(gas) * BigInt(plan.gasPrice), 18)} ${plan.nativeSymbol}`;
+};
+
+const formatCall = (call: PlannedCall): string => {
+  const method = call.signature.split('(')[0];
+  return `\`${method}(${call.args.map(arg => `${arg.name}=${arg.value}`).join(', ')})\``;
+};
+
+const table = (headers: string[], rows: string[][]): string[] => [
+  `| ${headers.join(' | ')} |`,
+  `| ${headers.map(() => '---').join(' | ')} |`,
+  ...rows.map(row => `| ${row.join(' | ')} |`),
+];
+
+/**
+ * Markdown rendering of a plan, for change review
+ */
+export const formatPlanMarkdown = (plan: DeploymentPlan): string => {
+  const lines: string[] = [];
+  const deploys = plan.deployments.filter(deployment => deployment.action === 'deploy');
+
+  lines.push(`# Deployment plan: ${plan.network} (${plan.chainId})`);
+  lines.push('');
+  lines.push(`- Deployer: \`${plan.deployer}\``);
+  lines.push(`- Gas price: ${formatUnits(plan.gasPrice, 'gwei')} gwei`);
+  lines.push(`- Generated: ${plan.generatedAt}`);
+  lines.push(`- Transactions: ${plan.totals.transactions} (${deploys.length} deployments)`);
+  lines.push(`- Estimated gas: ${plan.totals.gas}`);
+  lines.push(`- Estimated cost: ${formatCost(plan.totals.gas, plan)}`);
+  if (plan.totals.unestimated > 0) {
+    lines.push(`- Not estimated: ${plan.totals.unestimated} transaction(s), excluded from gas and cost`);
+  }
+
+  lines.push('', '## Contracts', '');
+  lines.push(...table(
+    ['Slot', 'Contract', 'Action', 'Address', 'Gas', 'Cost'],
+    plan.deployments.map(deployment => [
+      deployment.slot,
+      deployment.contract,
+      deployment.action,
+      `\`${deployment.address}\``,
+      deployment.gas ?? (deployment.action === 'deploy' ? `n/a${deployment.error ? ` (${deployment.error})` : ''}` : '-'),
+      deployment.action === 'deploy' ? formatCost(deployment.gas, plan) : '-',
+    ])
+  ));
+
+  if (plan.skipped.length > 0) {
+    lines.push('', '## Skipped', '');
+    lines.push(...table(['Slot', 'Reason'], plan.skipped.map(skip => [skip.slot, skip.reason])));
+  }
+
+  const callTable = (calls: PlannedCall[]) => table(
+    ['Step', 'Target', 'Call', 'Action', 'Gas', 'Cost'],
+    calls.map(call => [
+      call.step,
+      `${call.contract} \`${call.target}\``,
+      formatCall(call),
+      call.reason ? `${call.action} (${call.reason})` : call.action,
+      call.gas ?? '-',
+      call.action === 'call' ? formatCost(call.gas, plan) : '-',
+    ])
+  );
+
+  lines.push('', '## Setter calls', '');
+  lines.push(...(plan.calls.length > 0 ? callTable(plan.calls) : ['None']));
+
+  lines.push('', '## Collateral', '');
+  lines.push(...(plan.collaterals.length > 0 ? callTable(plan.collaterals) : ['None']));
+
+  return `${lines.join('\n')}\n`;
+};
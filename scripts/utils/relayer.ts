@@ -0,0 +1,227 @@
+import { Contract, Interface, Provider, Signer, ZeroHash, dataSlice, getAddress, toNumber } from 'ethers';
+import { DEVNET, DevnetRelayerConfig } from '../../config/devnet';
+import { ENDPOINT_V2_ABI, SIMPLE_MESSAGE_LIB_ABI } from './devnet';
+import { describeError } from './plan';
+
+/**
+ * LayerZero relayer of the devnet: watches every chain's endpoint for `PacketSent`, then acts
+ * as DVN and executor on the destination chain, validating the packet through the message
+ * library and executing it with `lzReceive`. Deliveries to one chain go out one at a time.
+ */
+
+export interface RelayerChain {
+  network: string;
+  eid: number;
+  provider: Provider;
+  // Sends the validation and execution transactions on this chain
+  signer: Signer;
+  endpoint: string;
+  messageLib: string;
+}
+
+export type PacketStatus = 'pending' | 'delivered' | 'failed' | 'dropped';
+
+export interface DecodedPacket {
+  nonce: bigint;
+  srcEid: number;
+  // bytes32, the sending OApp left-padded
+  sender: string;
+  dstEid: number;
+  receiver: string;
+  guid: string;
+  message: string;
+}
+
+export interface RelayedPacket extends DecodedPacket {
+  encoded: string;
+  sentTx: string;
+  status: PacketStatus;
+  attempts: number;
+  deliveredTx?: string;
+  // Last delivery error
+  error?: string;
+}
+
+export interface RelayerOptions extends Partial<Omit<DevnetRelayerConfig, 'nativeFee'>> {
+  // Source of the drop and failure draws, Math.random by default
+  random?: () => number;
+  // Called whenever a packet changes status or fails an attempt
+  onUpdate?: (packet: RelayedPacket) => void;
+}
+
+const ENDPOINT = new Interface(ENDPOINT_V2_ABI);
+const PACKET_SENT = ENDPOINT.getEvent('PacketSent')!.topicHash;
+
+/**
+ * Decode a PacketV1Codec packet: version, nonce, source eid, sender, destination eid,
+ * receiver, guid, then the message
+ */
+export const decodePacket = (encoded: string): DecodedPacket => ({
+  nonce: BigInt(dataSlice(encoded, 1, 9)),
+  srcEid: toNumber(dataSlice(encoded, 9, 13)),
+  sender: dataSlice(encoded, 13, 45),
+  dstEid: toNumber(dataSlice(encoded, 45, 49)),
+  receiver: getAddress(dataSlice(encoded, 61, 81)),
+  guid: dataSlice(encoded, 81, 113),
+  message: dataSlice(encoded, 113),
+});
+
+export const formatPacket = (packet: RelayedPacket, chains: RelayerChain[]): string => {
+  const name = (eid: number) => chains.find(chain => chain.eid === eid)?.network ?? String(eid);
+  const route = `${name(packet.srcEid)} → ${name(packet.dstEid)} #${packet.nonce}`;
+  switch (packet.status) {
+    case 'delivered':
+      return `✅ ${route} delivered in ${packet.deliveredTx}`;
+    case 'dropped':
+      return `🕳️  ${route} dropped`;
+    case 'failed':
+      return `❌ ${route} failed after ${packet.attempts} attempt(s): ${packet.error}`;
+    default:
+      return packet.error ? `🔁 ${route} attempt ${packet.attempts} failed: ${packet.error}` : `📨 ${route} sent in ${packet.sentTx}`;
+  }
+};
+
+export class LayerZeroRelayer {
+  readonly packets: RelayedPacket[] = [];
+  private readonly options: DevnetRelayerConfig & RelayerOptions;
+  private readonly random: () => number;
+  private readonly lastBlocks = new Map<string, number>();
+  private readonly queues = new Map<number, Promise<void>>();
+  private readonly timers = new Set<NodeJS.Timeout>();
+  private readonly work = new Set<Promise<void>>();
+  private poller?: NodeJS.Timeout;
+  private polling = false;
+  private stopped = false;
+
+  constructor(
+    readonly chains: RelayerChain[],
+    options: RelayerOptions = {}
+  ) {
+    this.options = { ...DEVNET.relayer, ...options };
+    this.random = options.random ?? Math.random;
+  }
+
+  /**
+   * Relay the packets sent from now on, polling every `pollIntervalMs`
+   */
+  async start(): Promise<void> {
+    for (const chain of this.chains) {
+      this.lastBlocks.set(chain.network, await chain.provider.getBlockNumber());
+    }
+    this.stopped = false;
+    this.poller = setInterval(() => {
+      this.poll().catch(error => console.warn(`⚠️  Relayer poll failed: ${describeError(error)}`));
+    }, this.options.pollIntervalMs);
+  }
+
+  stop(): void {
+    this.stopped = true;
+    clearInterval(this.poller);
+    this.timers.forEach(timer => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * Pick up the packets sent since the last poll and schedule their delivery. Chains polled for
+   * the first time are read from their first block.
+   */
+  async poll(): Promise<RelayedPacket[]> {
+    if (this.polling) return [];
+    this.polling = true;
+    const found: RelayedPacket[] = [];
+    try {
+      for (const chain of this.chains) {
+        const latest = await chain.provider.getBlockNumber();
+        const fromBlock = (this.lastBlocks.get(chain.network) ?? -1) + 1;
+        if (fromBlock > latest) continue;
+
+        const logs = await chain.provider.getLogs({ address: chain.endpoint, topics: [PACKET_SENT], fromBlock, toBlock: latest });
+        this.lastBlocks.set(chain.network, latest);
+        for (const log of logs) {
+          const [encoded] = ENDPOINT.decodeEventLog('PacketSent', log.data, log.topics);
+          found.push({ ...decodePacket(encoded), encoded, sentTx: log.transactionHash, status: 'pending', attempts: 0 });
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+
+    for (const packet of found) {
+      this.packets.push(packet);
+      this.update(packet);
+      if (this.random() < this.options.dropRate) {
+        packet.status = 'dropped';
+        this.update(packet);
+      } else {
+        this.schedule(packet, this.options.latencyMs);
+      }
+    }
+    return found;
+  }
+
+  /**
+   * Resolve once every scheduled delivery, retries included, has finished
+   */
+  async flush(): Promise<void> {
+    while (this.work.size > 0) {
+      await Promise.all(this.work);
+    }
+  }
+
+  private update(packet: RelayedPacket): void {
+    this.options.onUpdate?.(packet);
+  }
+
+  private schedule(packet: RelayedPacket, delayMs: number): void {
+    const work = new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        this.timers.delete(timer);
+        // Deliveries to a chain wait for the previous one, their transactions share a sender
+        const previous = this.queues.get(packet.dstEid) ?? Promise.resolve();
+        const next = previous.then(() => this.deliver(packet));
+        this.queues.set(packet.dstEid, next);
+        resolve(next);
+      }, delayMs);
+      this.timers.add(timer);
+    });
+    this.work.add(work);
+    void work.finally(() => this.work.delete(work));
+  }
+
+  private async deliver(packet: RelayedPacket): Promise<void> {
+    if (this.stopped) return;
+    packet.attempts++;
+    const chain = this.chains.find(candidate => candidate.eid === packet.dstEid);
+    try {
+      if (!chain) {
+        throw new Error(`No devnet chain with eid ${packet.dstEid}`);
+      }
+      if (this.random() < this.options.failureRate) {
+        throw new Error('injected failure');
+      }
+
+      const endpoint = new Contract(chain.endpoint, ENDPOINT_V2_ABI, chain.signer);
+      // A packet validated by an earlier attempt only needs executing again
+      const payloadHash = await endpoint.inboundPayloadHash(packet.receiver, packet.srcEid, packet.sender, packet.nonce);
+      if (payloadHash === ZeroHash) {
+        const messageLib = new Contract(chain.messageLib, SIMPLE_MESSAGE_LIB_ABI, chain.signer);
+        await (await messageLib.validatePacket(packet.encoded)).wait();
+      }
+
+      const origin = { srcEid: packet.srcEid, sender: packet.sender, nonce: packet.nonce };
+      const tx = await endpoint.lzReceive(origin, packet.receiver, packet.guid, packet.message, '0x');
+      await tx.wait();
+      packet.status = 'delivered';
+      packet.deliveredTx = tx.hash;
+      packet.error = undefined;
+    } catch (error) {
+      packet.error = describeError(error);
+      if (!chain || packet.attempts >= this.options.maxAttempts) {
+        packet.status = 'failed';
+      } else {
+        this.schedule(packet, this.options.retryDelayMs);
+      }
+    }
+    this.update(packet);
+  }
+}
@@ -0,0 +1,250 @@
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { FunctionFragment, Interface, InterfaceAbi, toQuantity } from 'ethers';
+import { COLLATERALS } from '../../config/collaterals';
+import { loadDeploymentRecord } from '../../config/deployments';
+import { describeError } from './plan';
+
+/**
+ * Batches in the Safe Transaction Builder JSON format, for owner-only calls a Safe has to
+ * sign instead of the deployer sending them.
+ */
+
+export interface SafeContractMethod {
+  inputs: { internalType: string; name: string; type: string }[];
+  name: string;
+  payable: boolean;
+}
+
+export interface SafeBatchTransaction {
+  to: string;
+  value: string;
+  data: string;
+  contractMethod: SafeContractMethod;
+  contractInputsValues: Record<string, string>;
+}
+
+export interface SafeBatch {
+  version: '1.0';
+  chainId: string;
+  createdAt: number;
+  meta: {
+    name: string;
+    description: string;
+    txBuilderVersion: string;
+    createdFromSafeAddress: string;
+    createdFromOwnerAddress: string;
+  };
+  transactions: SafeBatchTransaction[];
+}
+
+export type SafeSimulationStatus = 'success' | 'reverted' | 'not-run';
+
+export interface SafeSimulationResult {
+  index: number;
+  to: string;
+  description: string;
+  status: SafeSimulationStatus;
+  gasUsed?: string;
+  error?: string;
+}
+
+export interface SafeBatchInput {
+  chainId: number;
+  safe: string;
+  name: string;
+  description?: string;
+  transactions: SafeBatchTransaction[];
+}
+
+const TX_BUILDER_VERSION = '1.16.5';
+
+// Transaction Builder shows nested values as JSON and everything else as strings
+const formatInputValue = (value: unknown): string => {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return JSON.stringify(value, (_, entry) => typeof entry === 'bigint' ? entry.toString() : entry);
+  return String(value);
+};
+
+/**
+ * Call of `method` on `to`, encoded and with the method and inputs the Transaction Builder shows for review
+ */
+export const encodeSafeTransaction = (
+  to: string,
+  abi: InterfaceAbi | Interface,
+  method: string,
+  args: unknown[] = []
+): SafeBatchTransaction => {
+  const contractInterface = abi instanceof Interface ? abi : new Interface(abi);
+  const fragment: FunctionFragment = contractInterface.getFunction(method, args)!;
+
+  return {
+    to,
+    value: '0',
+    data: contractInterface.encodeFunctionData(fragment, args),
+    contractMethod: {
+      inputs: fragment.inputs.map(input => ({ internalType: input.type, name: input.name, type: input.type })),
+      name: fragment.name,
+      payable: fragment.payable,
+    },
+    contractInputsValues: Object.fromEntries(
+      fragment.inputs.map((input, index) => [input.name || `arg${index}`, formatInputValue(args[index])])
+    ),
+  };
+};
+
+/**
+ * Registry slots and collateral symbols by lowercase address, for decoded descriptions
+ */
+export const getAddressLabels = (network: string, chainKey: string = network): Record<string, string> => {
+  const labels: Record<string, string> = {};
+  for (const collateral of Object.values(COLLATERALS)) {
+    const address = collateral.addresses[chainKey];
+    if (address) labels[address.toLowerCase()] = collateral.symbol;
+  }
+  for (const [slot, contract] of Object.entries(loadDeploymentRecord(network)?.contracts ?? {})) {
+    labels[contract.address.toLowerCase()] = slot;
+  }
+  return labels;
+};
+
+/**
+ * One-line decoded call, e.g. `engines.EUR.addCollateralToken(token=USDC (0xaf88…), decimals=6, …)`
+ */
+export const describeSafeTransaction = (transaction: SafeBatchTransaction, labels: Record<string, string> = {}): string => {
+  const label = (value: string) => {
+    const name = labels[value.toLowerCase()];
+    return name ? `${name} (${value})` : value;
+  };
+  const inputs = Object.entries(transaction.contractInputsValues).map(([name, value]) => `${name}=${label(value)}`);
+  return `${labels[transaction.to.toLowerCase()] ?? transaction.to}.${transaction.contractMethod.name}(${inputs.join(', ')})`;
+};
+
+export const buildSafeBatch = (input: SafeBatchInput): SafeBatch => {
+  return {
+    version: '1.0',
+    chainId: input.chainId.toString(),
+    createdAt: Date.now(),
+    meta: {
+      name: input.name,
+      description: input.description ?? '',
+      txBuilderVersion: TX_BUILDER_VERSION,
+      createdFromSafeAddress: input.safe,
+      createdFromOwnerAddress: '',
+    },
+    transactions: input.transactions,
+  };
+};
+
+/**
+ * Owner-only calls collected for one Safe on one chain, in the order they have to execute
+ */
+export class SafeBatchBuilder {
+  readonly transactions: SafeBatchTransaction[] = [];
+  readonly descriptions: string[] = [];
+
+  constructor(
+    readonly network: string,
+    readonly chainId: number,
+    readonly safe: string,
+    private readonly labels: Record<string, string> = {}
+  ) {}
+
+  add(to: string, abi: InterfaceAbi | Interface, method: string, args: unknown[] = []): string {
+    const transaction = encodeSafeTransaction(to, abi, method, args);
+    const description = describeSafeTransaction(transaction, this.labels);
+    this.transactions.push(transaction);
+    this.descriptions.push(description);
+    return description;
+  }
+
+  build(name: string): SafeBatch {
+    return buildSafeBatch({
+      chainId: this.chainId,
+      safe: this.safe,
+      name,
+      description: this.descriptions.map((description, index) => `${index + 1}. ${description}`).join('\n'),
+      transactions: this.transactions,
+    });
+  }
+}
+
+/**
+ * Write a batch to `<dir>/<network>-<name>.json` and return the path
+ */
+export const writeSafeBatch = (dir: string, network: string, name: string, batch: SafeBatch): string => {
+  mkdirSync(dir, { recursive: true });
+  const file = path.join(dir, `${network}-${name}.json`);
+  writeFileSync(file, `${JSON.stringify(batch, null, 2)}\n`);
+  return file;
+};
+
+// Gas money for the impersonated Safe, 100 native tokens
+const SIMULATION_BALANCE = 10n ** 20n;
+
+/**
+ * Execute a batch from the impersonated Safe on the connected local node, in order. The Safe
+ * executes a batch atomically, so the first revert stops the simulation. Node state is
+ * restored afterwards unless `keep` is set.
+ */
+export const simulateSafeBatch = async (
+  hre: HardhatRuntimeEnvironment,
+  batch: SafeBatch,
+  options: { labels?: Record<string, string>; keep?: boolean } = {}
+): Promise<SafeSimulationResult[]> => {
+  const { ethers, network } = hre;
+  const safe = batch.meta.createdFromSafeAddress;
+  const snapshot = options.keep ? undefined : await network.provider.request({ method: 'evm_snapshot' });
+
+  await network.provider.request({ method: 'hardhat_impersonateAccount', params: [safe] });
+  await network.provider.request({ method: 'hardhat_setBalance', params: [safe, toQuantity(SIMULATION_BALANCE)] });
+
+  const results: SafeSimulationResult[] = [];
+  try {
+    const signer = await ethers.getSigner(safe);
+    let reverted = false;
+    for (const [index, transaction] of batch.transactions.entries()) {
+      const result: SafeSimulationResult = {
+        index,
+        to: transaction.to,
+        description: describeSafeTransaction(transaction, options.labels),
+        status: 'not-run',
+      };
+      results.push(result);
+      if (reverted) continue;
+
+      try {
+        const sent = await signer.sendTransaction({ to: transaction.to, data: transaction.data, value: BigInt(transaction.value) });
+        const receipt = await sent.wait();
+        result.status = 'success';
+        result.gasUsed = receipt?.gasUsed.toString();
+      } catch (error) {
+        result.status = 'reverted';
+        result.error = describeError(error);
+        reverted = true;
+      }
+    }
+  } finally {
+    await network.provider.request({ method: 'hardhat_stopImpersonatingAccount', params: [safe] });
+    if (snapshot !== undefined) {
+      await network.provider.request({ method: 'evm_revert', params: [snapshot] });
+    }
+  }
+  return results;
+};
+
+const SIMULATION_ICONS: Record<SafeSimulationStatus, string> = {
+  success: '✅',
+  reverted: '❌',
+  'not-run': '⏭️ ',
+};
+
+export const formatSafeSimulation = (results: SafeSimulationResult[]): string => {
+  const lines = results.map(result => {
+    const detail = result.status === 'success' ? `gas ${result.gasUsed}` : result.error ?? 'not executed after a revert';
+    return `${SIMULATION_ICONS[result.status]} ${String(result.index + 1).padStart(3)}. ${result.description}  ${detail}`;
+  });
+  const succeeded = results.filter(result => result.status === 'success').length;
+  return [...lines, '', `${succeeded} of ${results.length} transaction(s) succeeded`].join('\n');
+};
@@ -0,0 +1,262 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { Etherscan } from '@nomicfoundation/hardhat-verify/etherscan';
+import { Contract, Interface, InterfaceAbi } from 'ethers';
+import { getSlotContractName } from '../../config/contracts';
+import { loadDeploymentRecord } from '../../config/deployments';
+import { getVerificationUrl } from '../../config/explorers';
+import { getEndpointForChainId } from '../../config/layerzero';
+import { CONSOLE_LOGGER, Logger } from './logger';
+import { describeError } from './plan';
+
+/**
+ * Source verification of the contracts in the deployment registry through the explorer's
+ * Etherscan-compatible API, with retries and a per-contract report.
+ */
+
+export type VerificationStatus = 'verified' | 'already-verified' | 'failed' | 'skipped';
+
+export interface VerificationTarget {
+  // Registry slot, e.g. `engines.EUR`
+  slot: string;
+  contract: string;
+  address: string;
+  // Undefined when the constructor arguments could not be recovered
+  args?: unknown[];
+}
+
+export interface VerificationSource {
+  // Fully qualified name, e.g. `contracts/TorqueDEX.sol:TorqueDEX`
+  contractName: string;
+  // Solidity standard JSON input
+  sourceCode: string;
+  // e.g. `v0.8.28+commit.7893614a`
+  compilerVersion: string;
+  abi: InterfaceAbi;
+}
+
+export interface VerificationResult {
+  slot: string;
+  contract: string;
+  address: string;
+  status: VerificationStatus;
+  attempts: number;
+  message?: string;
+  url?: string;
+}
+
+export interface VerificationOptions {
+  // Attempts per contract for transient errors, e.g. an explorer that has not indexed the bytecode yet
+  attempts?: number;
+  retryDelayMs?: number;
+  // Explorer link for the report
+  link?: (address: string) => string | undefined;
+  // Per-contract status as each one finishes, the console by default
+  logger?: Logger;
+}
+
+const DEFAULT_ATTEMPTS = 5;
+const DEFAULT_RETRY_DELAY_MS = 10_000;
+
+const STATUS_ICONS: Record<VerificationStatus, string> = {
+  verified: '✅',
+  'already-verified': '☑️ ',
+  failed: '❌',
+  skipped: '⏭️ ',
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Verify one contract. Already verified contracts are detected before submitting; errors are
+ * retried, a verification the explorer rejects is not.
+ */
+export const verifyContract = async (
+  etherscan: Etherscan,
+  target: VerificationTarget,
+  getSource: (contract: string) => Promise<VerificationSource>,
+  options: VerificationOptions = {}
+): Promise<VerificationResult> => {
+  const maxAttempts = options.attempts ?? DEFAULT_ATTEMPTS;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const result = (status: VerificationStatus, attempts: number, message?: string): VerificationResult => ({
+    slot: target.slot,
+    contract: target.contract,
+    address: target.address,
+    status,
+    attempts,
+    message,
+    url: status === 'verified' || status === 'already-verified' ? options.link?.(target.address) : undefined,
+  });
+
+  if (!target.args) {
+    return result('skipped', 0, 'constructor arguments unknown');
+  }
+
+  let source: VerificationSource;
+  let encodedArgs: string;
+  try {
+    source = await getSource(target.contract);
+    encodedArgs = new Interface(source.abi).encodeDeploy(target.args).slice(2);
+  } catch (error) {
+    return result('failed', 0, describeError(error));
+  }
+
+  let lastError = '';
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    try {
+      if (await etherscan.isVerified(target.address)) {
+        return result('already-verified', attempt);
+      }
+
+      const submitted = await etherscan.verify(
+        target.address,
+        source.sourceCode,
+        source.contractName,
+        source.compilerVersion,
+        encodedArgs
+      );
+
+      const status = await etherscan.getVerificationStatus(submitted.message);
+      if (status.isSuccess()) return result('verified', attempt);
+      if (status.isAlreadyVerified()) return result('already-verified', attempt);
+      return result('failed', attempt, status.message);
+    } catch (error) {
+      if ((error as Error).name === 'ContractAlreadyVerifiedError') {
+        return result('already-verified', attempt);
+      }
+      lastError = describeError(error);
+      if (attempt < maxAttempts) await sleep(retryDelayMs);
+    }
+  }
+
+  return result('failed', maxAttempts, lastError);
+};
+
+export const verifyContracts = async (
+  etherscan: Etherscan,
+  targets: VerificationTarget[],
+  getSource: (contract: string) => Promise<VerificationSource>,
+  options: VerificationOptions = {}
+): Promise<VerificationResult[]> => {
+  const results: VerificationResult[] = [];
+  for (const target of targets) {
+    const verification = await verifyContract(etherscan, target, getSource, options);
+    (options.logger ?? CONSOLE_LOGGER).info(`${STATUS_ICONS[verification.status]} ${target.slot} (${target.contract}): ${verification.status}`);
+    results.push(verification);
+  }
+  return results;
+};
+
+/**
+ * Per-contract status table
+ */
+export const formatVerificationReport = (results: VerificationResult[]): string => {
+  const lines = results.map(result => {
+    const detail = result.message ?? result.url ?? '';
+    return `${STATUS_ICONS[result.status]} ${result.slot.padEnd(22)} ${result.address}  ${result.status.padEnd(16)} ${detail}`.trimEnd();
+  });
+
+  const counts = (Object.keys(STATUS_ICONS) as VerificationStatus[])
+    .map(status => [status, results.filter(result => result.status === status).length] as const)
+    .filter(([, count]) => count > 0)
+    .map(([status, count]) => `${count} ${status}`);
+
+  return [...lines, '', `${results.length} contract(s): ${counts.join(', ') || 'none'}`].join('\n');
+};
+
+// Engine getters that return their constructor arguments, see TorqueEngine
+const ENGINE_ABI = [
+  'function getCollateralToken() view returns (address)',
+  'function getPriceFeed() view returns (address)',
+  'function getTorqueToken() view returns (address)',
+];
+
+/**
+ * Contracts recorded for the current network with their constructor arguments: from the
+ * registry, else from hardhat-deploy's deployment file, else read back from engine getters
+ */
+export const getVerificationTargets = async (hre: HardhatRuntimeEnvironment): Promise<VerificationTarget[]> => {
+  const { deployments, ethers, network } = hre;
+  const record = loadDeploymentRecord(network.name);
+  if (!record) {
+    throw new Error(`No deployment recorded for ${network.name}`);
+  }
+
+  const targets: VerificationTarget[] = [];
+  for (const [slot, recorded] of Object.entries(record.contracts)) {
+    const contract = getSlotContractName(slot);
+    if (!contract) continue;
+
+    let args = recorded.args;
+    if (!args) {
+      const deployment = await deployments.getOrNull(contract);
+      if (deployment?.address.toLowerCase() === recorded.address.toLowerCase()) {
+        args = deployment.args;
+      }
+    }
+    if (!args && slot.startsWith('engines.')) {
+      const engine = new Contract(recorded.address, ENGINE_ABI, ethers.provider);
+      args = [
+        await engine.getCollateralToken(),
+        await engine.getPriceFeed(),
+        await engine.getTorqueToken(),
+        getEndpointForChainId(record.chainId),
+      ];
+    }
+
+    targets.push({ slot, contract, address: recorded.address, args });
+  }
+  return targets;
+};
+
+/**
+ * Standard JSON input and compiler version of a contract from the Hardhat build info
+ */
+export const getVerificationSource = async (
+  hre: HardhatRuntimeEnvironment,
+  contract: string
+): Promise<VerificationSource> => {
+  const artifact = await hre.artifacts.readArtifact(contract);
+  const contractName = `${artifact.sourceName}:${artifact.contractName}`;
+  const buildInfo = await hre.artifacts.getBuildInfo(contractName);
+  if (!buildInfo) {
+    throw new Error(`No build info for ${contractName}, compile the contracts first`);
+  }
+
+  return {
+    contractName,
+    sourceCode: JSON.stringify(buildInfo.input),
+    compilerVersion: `v${buildInfo.solcLongVersion}`,
+    abi: artifact.abi,
+  };
+};
+
+/**
+ * Explorer client for the current network from the hardhat-verify config in hardhat.config.ts
+ */
+export const getExplorerClient = async (hre: HardhatRuntimeEnvironment): Promise<Etherscan> => {
+  const { apiKey, customChains } = hre.config.etherscan;
+  const chainConfig = await Etherscan.getCurrentChainConfig(hre.network.name, hre.network.provider, customChains);
+  return Etherscan.fromChainConfig(apiKey, chainConfig);
+};
+
+/**
+ * Verify every contract in the current network's deployment record
+ */
+export const verifyDeployment = async (
+  hre: HardhatRuntimeEnvironment,
+  options: VerificationOptions = {}
+): Promise<VerificationResult[]> => {
+  const etherscan = await getExplorerClient(hre);
+  const targets = await getVerificationTargets(hre);
+  const sources = new Map<string, Promise<VerificationSource>>();
+  const getSource = (contract: string) => {
+    if (!sources.has(contract)) sources.set(contract, getVerificationSource(hre, contract));
+    return sources.get(contract)!;
+  };
+
+  return verifyContracts(etherscan, targets, getSource, {
+    link: address => getVerificationUrl(hre.network.name, address),
+    ...options,
+  });
+};
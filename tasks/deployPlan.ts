@@ -0,0 +1,75 @@
+import { writeFileSync } from 'fs';
+import { task } from 'hardhat/config';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { getChainKey } from '../config/chains';
+import { CURRENCY_LIST } from '../config/currencies';
+import { loadDeploymentRecord } from '../config/deployments';
+import { diffEngineCollateral } from '../scripts/utils/collaterals';
+import { finishDeploymentPlan, getDeployLogger, startDeploymentPlan } from '../scripts/utils/deploy';
+import { DeploymentPlan, DeploymentPlanBuilder, formatPlanMarkdown } from '../scripts/utils/plan';
+
+/**
+ * Collateral reconciliation from scripts/03_add_collateral_tokens.ts for every engine the plan
+ * deploys or reuses: the additions, the collateral already there, and the removals when
+ * COLLATERAL_REMOVE=true, as the script only previews them otherwise
+ */
+const planCollaterals = async (hre: HardhatRuntimeEnvironment, plan: DeploymentPlanBuilder): Promise<void> => {
+  const { deployments, ethers, network } = hre;
+  const chainKey = getChainKey(network.name, network.config.chainId);
+  const record = loadDeploymentRecord(network.name);
+  const applyRemovals = process.env.COLLATERAL_REMOVE === 'true';
+
+  for (const currency of CURRENCY_LIST) {
+    const slot = `engines.${currency.code}`;
+    const address = (await deployments.getOrNull(currency.engineContract))?.address ?? record?.contracts[slot]?.address;
+    if (!address) continue;
+
+    const engine = await ethers.getContractAt(currency.engineContract, address);
+    // An engine the plan deploys starts without collateral
+    const planned = plan.isPlannedDeployment(slot);
+    const supported: string[] = planned ? [] : [...await engine.getSupportedCollateral()];
+
+    for (const change of diffEngineCollateral(chainKey, currency.code, supported)) {
+      const label = change.symbol ?? change.token;
+      if (change.action !== 'remove') {
+        const applied = planned ? undefined : change.action === 'keep';
+        await plan.addCall('collaterals', `${slot}.addCollateralToken.${label}`, slot, engine, 'addCollateralToken', change.args!, applied);
+      } else if (applyRemovals) {
+        await plan.addCall('collaterals', `${slot}.removeCollateralToken.${label}`, slot, engine, 'removeCollateralToken', [change.token], false);
+      } else {
+        plan.addSkip(slot, `removeCollateralToken ${label} previewed only, set COLLATERAL_REMOVE=true to plan it`);
+      }
+    }
+  }
+};
+
+task('deploy')
+  .addFlag('plan', 'Print what the deploy modules would send on --network, without sending or recording anything')
+  .addOptionalParam('planOut', 'With --plan, also write the plan to <planOut>.json and <planOut>.md')
+  .setAction(async (args, hre, runSuper) => {
+    const { plan: planning, planOut, ...deployArgs } = args;
+    if (!planning) return runSuper(deployArgs);
+
+    // The deploy context silences the modules' progress output while the plan is active
+    const builder = await startDeploymentPlan(hre);
+    try {
+      await runSuper({ ...deployArgs, write: false, silent: true });
+    } finally {
+      finishDeploymentPlan();
+    }
+
+    await planCollaterals(hre, builder);
+    const plan: DeploymentPlan = builder.build();
+    const markdown = formatPlanMarkdown(plan);
+    // Printed where the modules' output would go
+    const logger = getDeployLogger();
+    logger.info(markdown);
+
+    if (planOut) {
+      writeFileSync(`${planOut}.json`, `${JSON.stringify(plan, null, 2)}\n`);
+      writeFileSync(`${planOut}.md`, markdown);
+      logger.info(`📝 Plan written to ${planOut}.json and ${planOut}.md`);
+    }
+
+    return plan;
+  });
@@ -0,0 +1,62 @@
+import { writeFileSync } from 'fs';
+import { task } from 'hardhat/config';
+import { reloadDeployment } from '../config/contracts';
+import {
+  DeploymentSnapshot,
+  diffSnapshots,
+  formatDeploymentDiff,
+  loadSnapshot,
+  readLiveSnapshot,
+  snapshotFromDeployment,
+} from '../config/snapshots';
+
+// Addresses the registry currently holds for a network, or the `from` snapshot's when it has none
+const liveBase = (network: string, fallback?: DeploymentSnapshot): DeploymentSnapshot => {
+  const deployment = reloadDeployment(network);
+  if (deployment?.deployed) return snapshotFromDeployment(deployment);
+  if (fallback) return fallback;
+  throw new Error(`No deployment recorded for ${network}`);
+};
+
+task('deployment:snapshot', 'Read owners and parameters of the recorded deployment from the chain')
+  .addOptionalParam('out', 'Write the snapshot to this file instead of printing it')
+  .setAction(async ({ out }, hre) => {
+    const snapshot = await readLiveSnapshot(liveBase(hre.network.name), hre.ethers.provider, hre.network.name);
+    const json = `${JSON.stringify(snapshot, null, 2)}\n`;
+
+    if (out) {
+      writeFileSync(out, json);
+      console.log(`📝 Snapshot of ${Object.keys(snapshot.contracts).length} contract(s) written to ${out}`);
+    } else {
+      console.log(json);
+    }
+
+    return snapshot;
+  });
+
+task('deployment:diff', 'Compare two deployment snapshots, or a snapshot with the live chain')
+  .addParam('from', 'Snapshot file, registry record, legacy deployment file, `<network>` or `<network>@<version>`')
+  .addOptionalParam('to', 'Snapshot to compare against, same forms as --from')
+  .addFlag('live', 'Compare against on-chain reads of the current --network instead of --to')
+  .addFlag('json', 'Print the diff as JSON')
+  .setAction(async ({ from, to, live, json }, hre) => {
+    if (!!to === !!live) {
+      throw new Error('Pass exactly one of --to or --live');
+    }
+
+    let before = loadSnapshot(from);
+    let after: DeploymentSnapshot;
+    if (live) {
+      after = await readLiveSnapshot(liveBase(hre.network.name, before), hre.ethers.provider, hre.network.name);
+      // A file without owners or parameters is compared by reading them at its own addresses
+      if (Object.values(before.contracts).every(contract => contract.hasCode === undefined)) {
+        before = { ...(await readLiveSnapshot(before, hre.ethers.provider, hre.network.name)), source: before.source };
+      }
+    } else {
+      after = loadSnapshot(to);
+    }
+
+    const diff = diffSnapshots(before, after);
+    console.log(json ? JSON.stringify(diff, null, 2) : formatDeploymentDiff(diff));
+    return diff;
+  });
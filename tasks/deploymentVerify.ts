@@ -0,0 +1,13 @@
+import { task, types } from 'hardhat/config';
+import { formatVerificationReport, verifyDeployment } from '../scripts/utils/verify';
+
+task('deployment:verify', 'Verify every contract in the deployment registry on the --network explorer')
+  .addOptionalParam('attempts', 'Attempts per contract before reporting it failed', undefined, types.int)
+  .addFlag('json', 'Print the report as JSON')
+  .setAction(async ({ attempts, json }, hre) => {
+    console.log(`\n🔍 Verifying contracts recorded for ${hre.network.name}...`);
+    const results = await verifyDeployment(hre, { attempts });
+
+    console.log(json ? JSON.stringify(results, null, 2) : `\n${formatVerificationReport(results)}`);
+    return results;
+  });
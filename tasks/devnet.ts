@@ -0,0 +1,122 @@
+import { task, types } from 'hardhat/config';
+import { ChildProcess, spawn } from 'child_process';
+import { mkdirSync, openSync, rmSync } from 'fs';
+import path from 'path';
+import { JsonRpcProvider, NonceManager, Wallet } from 'ethers';
+import { CHAINS } from '../config/chains';
+import { DEVNET, DEVNET_PRIVATE_KEY, DEVNET_RELAYER_PRIVATE_KEY, DevnetConfig, getDevnetEnv, getDevnetRpcUrl, getEndpointEid } from '../config/devnet';
+import { LAYERZERO } from '../config/layerzero';
+import { installCollaterals, installLayerZero, installPriceFeeds } from '../scripts/utils/devnet';
+import { ChainRun } from '../scripts/utils/orchestrate';
+import { LayerZeroRelayer, RelayerChain, formatPacket } from '../scripts/utils/relayer';
+
+const NODE_START_TIMEOUT_MS = 60_000;
+
+// Started without npx, so stopping the process stops the node
+const HARDHAT_CLI = require.resolve('hardhat/internal/cli/cli');
+
+const waitForNode = async (provider: JsonRpcProvider, chainId: number, node: ChildProcess): Promise<void> => {
+  const deadline = Date.now() + NODE_START_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (node.exitCode !== null) {
+      throw new Error(`Node exited with code ${node.exitCode}`);
+    }
+    try {
+      if (Number(await provider.send('eth_chainId', [])) === chainId) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise(resolve => setTimeout(resolve, 500));
+  }
+  throw new Error(`Node did not answer within ${NODE_START_TIMEOUT_MS / 1000}s`);
+};
+
+task('torque:devnet', 'Run local chains with the Torque deployment and a LayerZero relayer between them')
+  .addOptionalParam('networks', 'Comma-separated networks to run locally, with their chain IDs; endpoints use the legacy chain IDs as eids', DEVNET.networks.join(','))
+  .addOptionalParam('port', 'RPC port of the first network, the others follow', DEVNET.basePort, types.int)
+  .addOptionalParam('latency', 'Milliseconds between a message being sent and its delivery', DEVNET.relayer.latencyMs, types.int)
+  .addOptionalParam('fee', 'Native fee per message, in wei; the legacy contracts only send at 0', DEVNET.relayer.nativeFee.toString())
+  .addOptionalParam('dropRate', 'Probability that a message is lost', DEVNET.relayer.dropRate, types.float)
+  .addOptionalParam('failureRate', 'Probability that a delivery attempt fails and is retried', DEVNET.relayer.failureRate, types.float)
+  .addFlag('bare', 'Only start the chains, LayerZero and the mocks, without deploying Torque')
+  .setAction(async ({ networks, port, latency, fee, dropRate, failureRate, bare }, hre) => {
+    const names = (networks as string).split(',').map(entry => entry.trim()).filter(Boolean);
+    const unknown = names.filter(network => !CHAINS[network] || !LAYERZERO[network]?.endpoint);
+    if (unknown.length > 0) {
+      throw new Error(`Network(s) without a chain or LayerZero endpoint: ${unknown.join(', ')}`);
+    }
+    if (names.length < 2) {
+      throw new Error('The devnet needs at least two networks');
+    }
+
+    const config: DevnetConfig = {
+      ...DEVNET,
+      basePort: port,
+      relayer: { ...DEVNET.relayer, latencyMs: latency, nativeFee: BigInt(fee), dropRate, failureRate },
+    };
+    const logs = path.join(config.dir, 'logs');
+    rmSync(config.dir, { recursive: true, force: true });
+    mkdirSync(logs, { recursive: true });
+    // The deploy processes, and this one, read the devnet networks and registry from the environment
+    Object.assign(process.env, getDevnetEnv(names, config));
+
+    await hre.run('compile');
+    console.log(`🧪 Starting the devnet: ${names.join(', ')}`);
+    const nodes = names.map((network, index) => {
+      const log = openSync(path.join(logs, `${network}-node.log`), 'w');
+      return spawn(process.execPath, [HARDHAT_CLI, 'node', '--no-deploy', '--port', String(config.basePort + index)], {
+        env: { ...process.env, TORQUE_DEVNET_NODE: network },
+        stdio: ['ignore', log, log],
+      });
+    });
+    let relayer: LayerZeroRelayer | undefined;
+
+    try {
+      const chains: RelayerChain[] = [];
+      for (const [index, network] of names.entries()) {
+        const chainId = CHAINS[network].id;
+        const provider = new JsonRpcProvider(getDevnetRpcUrl(index, config), chainId, { staticNetwork: true });
+        await waitForNode(provider, chainId, nodes[index]);
+        // Nonces are tracked locally, the provider caches repeated nonce queries
+        const signer = new NonceManager(new Wallet(DEVNET_PRIVATE_KEY, provider));
+
+        const { endpoint } = LAYERZERO[network];
+        const eid = getEndpointEid(network)!;
+        const remoteEids = names.filter(remote => remote !== network).map(remote => getEndpointEid(remote)!);
+        const { messageLib } = await installLayerZero(provider, signer, { eid, endpoint: endpoint!, remoteEids, nativeFee: config.relayer.nativeFee });
+        const feeds = await installPriceFeeds(provider, signer, network, await hre.artifacts.readArtifact('MockPriceFeed'), config);
+        const collaterals = await installCollaterals(provider, network, await hre.artifacts.readArtifact('MockERC20'));
+        console.log(`⛓️  ${network} (${chainId}, eid ${eid}) on ${getDevnetRpcUrl(index, config)}: ${feeds} price feed(s), ${collaterals} collateral(s)`);
+
+        const relayerSigner = new NonceManager(new Wallet(DEVNET_RELAYER_PRIVATE_KEY, provider));
+        chains.push({ network, eid, provider, signer: relayerSigner, endpoint: endpoint!, messageLib: await messageLib.getAddress() });
+      }
+
+      if (!bare) {
+        const runs: ChainRun[] = await hre.run('torque:orchestrate', {
+          networks: names.join(','),
+          phases: 'deploy,link,peers',
+          logs,
+          yes: true,
+        });
+        if (runs.some(run => run.status !== 'ok')) {
+          throw new Error('Deploying Torque on the devnet failed, see the logs above');
+        }
+      }
+
+      relayer = new LayerZeroRelayer(chains, { ...config.relayer, onUpdate: packet => console.log(formatPacket(packet, chains)) });
+      await relayer.start();
+      console.log(`\n📡 Relaying LayerZero messages, latency ${latency}ms, fee ${fee} wei, drop rate ${dropRate}, failure rate ${failureRate}`);
+      console.log(`📁 Registry in ${process.env.TORQUE_DEPLOYMENTS_DIR}, node logs in ${logs}`);
+      console.log('   Press Ctrl+C to stop');
+
+      await new Promise(resolve => process.once('SIGINT', resolve));
+    } finally {
+      relayer?.stop();
+      nodes.forEach(node => node.kill());
+    }
+
+    const packets = relayer?.packets ?? [];
+    const count = (status: string) => packets.filter(packet => packet.status === status).length;
+    console.log(`\n🛑 Devnet stopped: ${packets.length} message(s), ${count('delivered')} delivered, ${count('failed')} failed, ${count('dropped')} dropped`);
+  });
@@ -0,0 +1,77 @@
+import { writeFileSync } from 'fs';
+import { BaseContract } from 'ethers';
+import { task } from 'hardhat/config';
+import { getChainKey } from '../config/chains';
+import { CURRENCY_CODES, CURRENCY_LIST } from '../config/currencies';
+import { ContractDeployment, getDeploymentRecordPath, recordContracts } from '../config/deployments';
+import { buildIgnitionParameters, getIgnitionEngines } from '../config/ignition';
+import { buildTorqueModule } from '../ignition/modules/Torque';
+import { assertContractSizes, getDeployLogger } from '../scripts/utils/deploy';
+import { getModuleDeployments, resolveConstructorArgs } from '../scripts/utils/ignition';
+
+task('ignition:parameters', 'Print the Ignition parameters for --network from the config registries')
+  .addOptionalParam('out', 'Write the parameters to this file, for `hardhat ignition deploy --parameters`')
+  .setAction(async ({ out }, hre) => {
+    const parameters = buildIgnitionParameters(getChainKey(hre.network.name, hre.network.config.chainId));
+    const json = `${JSON.stringify(parameters, null, 2)}\n`;
+
+    if (out) {
+      writeFileSync(out, json);
+      console.log(`📝 Ignition parameters for ${hre.network.name} written to ${out}`);
+    } else {
+      console.log(json);
+    }
+
+    return parameters;
+  });
+
+task('torque:ignition', 'Deploy the Torque modules with Hardhat Ignition on --network')
+  .addOptionalParam('deploymentId', 'Ignition deployment ID, defaults to chain-<chainId>')
+  .setAction(async ({ deploymentId }, hre) => {
+    const chainKey = getChainKey(hre.network.name, hre.network.config.chainId);
+    const engines = getIgnitionEngines(chainKey);
+    const skipped = CURRENCY_CODES.filter(code => !engines.includes(code));
+    const logger = getDeployLogger();
+
+    logger.info(`\n🌐 Network: ${hre.network.name}`);
+    logger.info(`📋 Engines: ${engines.join(', ') || 'none'}`);
+    if (skipped.length > 0) {
+      logger.info(`⏭️  Skipping engines without a price feed: ${skipped.join(', ')}`);
+    }
+
+    const module = buildTorqueModule(engines);
+    const parameters = buildIgnitionParameters(chainKey);
+    const futures = getModuleDeployments(module);
+    // Ignition would only hit the limit partway through, with the contracts before it deployed
+    await assertContractSizes(hre, futures.map(future => future.contractName));
+
+    const deployed = await hre.ignition.deploy(module, { parameters, deploymentId }) as unknown as Record<string, BaseContract>;
+
+    // Contracts passed to other constructors, by future ID
+    const results: Record<string, { id: string }> = module.results;
+    const addresses: Record<string, string> = {};
+    for (const [key, future] of Object.entries(results)) {
+      addresses[future.id] = await deployed[key].getAddress();
+    }
+    const accounts = (await hre.ethers.getSigners()).map(signer => signer.address);
+
+    // Record under registry slots so the deploy modules, e.g. the Link tag, adopt these contracts,
+    // with the constructor arguments they check before adopting and the verifier needs
+    const contracts: ContractDeployment[] = [];
+    for (const [key, contract] of Object.entries(deployed)) {
+      const currency = CURRENCY_LIST.find(entry => entry.tokenContract === key || entry.engineContract === key);
+      const slot = !currency ? key : `${currency.tokenContract === key ? 'currencies' : 'engines'}.${currency.code}`;
+      const future = futures.find(entry => entry.id === results[key].id)!;
+      contracts.push({
+        contract: slot,
+        address: await contract.getAddress(),
+        args: resolveConstructorArgs(future, parameters, accounts, addresses),
+      });
+    }
+    const { deployer } = await hre.getNamedAccounts();
+    const record = recordContracts(hre.network.name, hre.network.config.chainId!, contracts, { deployer });
+
+    logger.info(`\n✅ ${contracts.length} contract(s) deployed`);
+    logger.info(`📝 Deployment registry v${record.version}: ${getDeploymentRecordPath(hre.network.name)}`);
+    return deployed;
+  });
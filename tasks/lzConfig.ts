@@ -0,0 +1,47 @@
+import { writeFileSync } from 'fs';
+import { task } from 'hardhat/config';
+import { CHAINS } from '../config/chains';
+import { loadDeploymentRecord } from '../config/deployments';
+import { ChainInvariantReport, formatInvariantMatrix } from '../config/invariants';
+import { checkMessagingConfig, generateOAppPathways, toOAppOmniGraph } from '../config/messaging';
+import { closeNetworkProviders, getNetworkProvider } from '../config/providers';
+
+const toJson = (value: unknown): string => {
+  return JSON.stringify(value, (_key, entry) => (typeof entry === 'bigint' ? entry.toString() : entry), 2);
+};
+
+task('torque:lz-config', 'Generate the LayerZero OApp config of the recorded chains and check it on-chain')
+  .addOptionalParam('networks', 'Comma-separated networks, defaults to every CHAINS network with a deployment record')
+  .addOptionalParam('out', 'Write the OApp graph as JSON to this file')
+  .addFlag('check', 'Compare the config with the libraries, DVNs and options set on each chain')
+  .addFlag('json', 'Print the check reports as JSON')
+  .setAction(async ({ networks, out, check, json }, hre) => {
+    const names: string[] = networks
+      ? (networks as string).split(',').map(entry => entry.trim()).filter(Boolean)
+      : Object.keys(CHAINS).filter(network => loadDeploymentRecord(network));
+    const pathways = generateOAppPathways(names);
+    console.log(`\n📡 ${pathways.length} OApp pathway(s) between ${names.join(', ') || 'no networks'}`);
+
+    if (out) {
+      writeFileSync(out, `${toJson(toOAppOmniGraph(pathways))}\n`);
+      console.log(`📝 OApp graph written to ${out}`);
+    }
+    if (!check) return pathways;
+
+    const reports: ChainInvariantReport[] = [];
+    try {
+      for (const network of names) {
+        console.log(`🔍 Checking ${network}...`);
+        const provider = network === hre.network.name ? hre.ethers.provider : getNetworkProvider(network);
+        reports.push(await checkMessagingConfig(network, provider, pathways));
+      }
+    } finally {
+      await closeNetworkProviders();
+    }
+
+    console.log(json ? toJson(reports) : `\n${formatInvariantMatrix(reports)}`);
+    if (reports.some(report => !report.passed)) {
+      process.exitCode = 1;
+    }
+    return reports;
+  });
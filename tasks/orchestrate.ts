@@ -0,0 +1,105 @@
+import { task, types } from 'hardhat/config';
+import { mkdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import { CHAINS } from '../config/chains';
+import {
+  ChainRun,
+  ORCHESTRATOR_PHASES,
+  OrchestratorPhase,
+  confirmPhase,
+  formatOrchestrationSummary,
+  getChainCommand,
+  getCrossChainCommand,
+  runCommand,
+  runInParallel,
+  toChainRun,
+} from '../scripts/utils/orchestrate';
+
+const PHASE_DESCRIPTIONS: Record<OrchestratorPhase, string> = {
+  deploy: 'deploy the contracts',
+  link: 'link the contracts to each other and to the other chains',
+  peers: 'set LayerZero peers',
+  check: 'check the on-chain wiring',
+};
+
+task('torque:orchestrate', 'Deploy and wire Torque on several chains in parallel')
+  .addOptionalParam('networks', 'Comma-separated networks, defaults to every testnet in CHAINS (every mainnet with --mainnet)')
+  .addOptionalParam('phases', 'Comma-separated phases to run, in order', ORCHESTRATOR_PHASES.join(','))
+  .addOptionalParam('concurrency', 'Chains run at the same time, defaults to all of them', undefined, types.int)
+  .addOptionalParam('logs', 'Directory for the per-chain logs and the run summary', 'logs/orchestrate')
+  .addFlag('mainnet', 'Default to the mainnets instead of the testnets')
+  .addFlag('yes', 'Run every phase without asking, mainnet runs ask for approval before each phase otherwise')
+  .setAction(async ({ networks, phases, concurrency, logs, mainnet, yes }, hre) => {
+    const names: string[] = networks
+      ? (networks as string).split(',').map(entry => entry.trim()).filter(Boolean)
+      : Object.keys(CHAINS).filter(network => CHAINS[network].testnet !== mainnet);
+    const unknown = names.filter(network => !CHAINS[network] || !hre.config.networks[network]);
+    if (unknown.length > 0) {
+      throw new Error(`Unknown network(s): ${unknown.join(', ')}`);
+    }
+
+    const selected = (phases as string).split(',').map(entry => entry.trim()).filter(Boolean);
+    const invalid = selected.filter(phase => !ORCHESTRATOR_PHASES.includes(phase as OrchestratorPhase));
+    if (invalid.length > 0) {
+      throw new Error(`Unknown phase(s): ${invalid.join(', ')}, expected ${ORCHESTRATOR_PHASES.join(', ')}`);
+    }
+    // Phases always run in deployment order, whatever order they were passed in
+    const order = ORCHESTRATOR_PHASES.filter(phase => selected.includes(phase));
+
+    const needsApproval = !yes && names.some(network => !CHAINS[network].testnet);
+    const dir = path.resolve(logs, new Date().toISOString().replace(/[:.]/g, '-'));
+    const runs: ChainRun[] = [];
+    const failed = (network: string) => runs.some(run => run.network === network && run.status === 'failed');
+
+    console.log(`🚀 Orchestrating ${order.join(' → ')} on ${names.join(', ')}`);
+    mkdirSync(dir, { recursive: true });
+    console.log(`📁 Logs in ${dir}`);
+    if (order.includes('deploy') || order.includes('link')) {
+      await hre.run('compile');
+    }
+
+    for (const [index, phase] of order.entries()) {
+      // A chain that failed a phase sits out the rest
+      const active = names.filter(network => !failed(network));
+      const skip = (network: string, message: string) => runs.push({ network, phase, status: 'skipped', message });
+
+      if (active.length === 0 || (phase === 'peers' && active.length < 2)) {
+        names.forEach(network => skip(network, active.length === 0 ? 'no chain left' : 'needs two chains'));
+        continue;
+      }
+
+      if (needsApproval) {
+        if (index > 0) {
+          console.log(`\n${formatOrchestrationSummary(runs, names, order)}`);
+        }
+        const approved = await confirmPhase(`\n➡️  ${phase}: ${PHASE_DESCRIPTIONS[phase]} on ${active.join(', ')}?`);
+        if (!approved) {
+          for (const remaining of order.slice(index)) {
+            names.forEach(network => runs.push({ network, phase: remaining, status: 'skipped', message: 'not approved' }));
+          }
+          break;
+        }
+      }
+
+      console.log(`\n=== ${phase} (${active.join(', ')}) ===`);
+      names.filter(network => !active.includes(network)).forEach(network => skip(network, 'failed an earlier phase'));
+
+      if (phase === 'deploy' || phase === 'link') {
+        const commands = active.map(network => getChainCommand(phase, network));
+        const results = await runInParallel(commands, command => path.join(dir, `${command.label}-${phase}.log`), concurrency);
+        results.forEach(result => runs.push(toChainRun(result.label, phase, result)));
+      } else {
+        const result = await runCommand(getCrossChainCommand(phase, active), path.join(dir, `${phase}.log`));
+        active.forEach(network => runs.push(toChainRun(network, phase, result)));
+      }
+    }
+
+    const summary = formatOrchestrationSummary(runs, names, order);
+    console.log(`\n=== Summary ===\n${summary}`);
+    writeFileSync(path.join(dir, 'summary.json'), JSON.stringify({ networks: names, phases: order, runs }, null, 2));
+
+    if (runs.some(run => run.status !== 'ok')) {
+      process.exitCode = 1;
+    }
+    return runs;
+  });
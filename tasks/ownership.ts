@@ -0,0 +1,82 @@
+import { task } from 'hardhat/config';
+import { getAddress } from 'ethers';
+import { getChainKey } from '../config/chains';
+import { getSafeAddress } from '../config/safes';
+import {
+  executeOwnershipSteps,
+  formatOwnershipReport,
+  isOwnershipHandedOver,
+  planOwnershipHandoff,
+  readOwnableStates,
+} from '../scripts/utils/ownership';
+import { buildSafeBatch, describeSafeTransaction, getAddressLabels, writeSafeBatch } from '../scripts/utils/safe';
+
+task('ownership:handoff', 'Transfer ownership of every recorded contract on --network to the Safe')
+  .addOptionalParam('safe', 'Safe address, defaults to the network entry in config/safes.ts or <NETWORK>_SAFE_ADDRESS')
+  .addOptionalParam('batchOut', 'Directory for the Safe Transaction Builder batch the Safe has to sign', 'safe-batches')
+  .addFlag('dryRun', 'Print the transfers and write the batch without sending anything')
+  .addFlag('verifyOnly', 'Only report who owns each contract, exit non-zero unless the Safe owns all of them')
+  .setAction(async ({ safe: safeParam, batchOut, dryRun, verifyOnly }, hre) => {
+    const { network } = hre;
+    const chainId = network.config.chainId ?? Number((await hre.ethers.provider.getNetwork()).chainId);
+    const chainKey = getChainKey(network.name, chainId);
+    const configuredSafe = safeParam ?? getSafeAddress(chainKey);
+    if (!configuredSafe) {
+      throw new Error(`No Safe configured for ${chainKey}, pass --safe or set it in config/safes.ts`);
+    }
+    const safe = getAddress(configuredSafe);
+    const { deployer } = await hre.getNamedAccounts();
+
+    console.log(`\n🌐 Network: ${network.name}`);
+    console.log(`🔐 Safe: ${safe}`);
+    const states = await readOwnableStates(network.name, hre.ethers.provider, { safe, signer: deployer });
+
+    if (verifyOnly) {
+      console.log(`\n${formatOwnershipReport(states, safe)}`);
+      if (!isOwnershipHandedOver(states, safe)) {
+        console.log('\n❌ Ownership handoff incomplete');
+        process.exitCode = 1;
+      }
+      return states;
+    }
+
+    const plan = planOwnershipHandoff(states, safe);
+    for (const blocked of plan.blocked) {
+      console.log(`⚠️  ${blocked.slot} is owned by ${blocked.owner}, neither the deployer nor the Safe`);
+    }
+
+    if (plan.steps.length === 0) {
+      console.log('\n⏭️  The deployer owns none of the recorded contracts');
+    } else if (dryRun) {
+      console.log(`\n📋 ${plan.steps.length} call(s) from ${deployer}:`);
+      plan.steps.forEach(step => console.log(`   ${step.description}`));
+    } else {
+      console.log(`\n🔄 Sending ${plan.steps.length} call(s) from ${deployer}...`);
+      await executeOwnershipSteps(network.name, chainId, await hre.ethers.getSigner(deployer), plan.steps);
+    }
+
+    if (plan.safeTransactions.length > 0) {
+      const labels = getAddressLabels(network.name, chainKey);
+      const batch = buildSafeBatch({
+        chainId,
+        safe,
+        name: `Torque ownership acceptance (${network.name})`,
+        description: plan.safeTransactions
+          .map((transaction, index) => `${index + 1}. ${describeSafeTransaction(transaction, labels)}`)
+          .join('\n'),
+        transactions: plan.safeTransactions,
+      });
+      const file = writeSafeBatch(batchOut, network.name, 'ownership', batch);
+      console.log(`\n📝 ${plan.safeTransactions.length} call(s) for the Safe to sign written to ${file}`);
+    }
+
+    if (dryRun) return plan;
+
+    const after = await readOwnableStates(network.name, hre.ethers.provider, { safe, signer: deployer });
+    console.log(`\n${formatOwnershipReport(after, safe)}`);
+    if (!isOwnershipHandedOver(after, safe) && plan.safeTransactions.length === 0) {
+      console.log('\n❌ Ownership handoff incomplete');
+      process.exitCode = 1;
+    }
+    return plan;
+  });
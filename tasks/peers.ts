@@ -0,0 +1,64 @@
+import { task } from 'hardhat/config';
+import { getAddress } from 'ethers';
+import { CHAINS } from '../config/chains';
+import { loadDeploymentRecord } from '../config/deployments';
+import { closeNetworkProviders, getNetworkProvider, getNetworkSigner } from '../config/providers';
+import { getSafeAddress } from '../config/safes';
+import { PeerChain, formatPeerMatrix, getPeerChain, readPeerMesh, wirePeers } from '../scripts/utils/peers';
+import { SafeBatchBuilder, getAddressLabels, writeSafeBatch } from '../scripts/utils/safe';
+
+task('torque:peers', 'Set LayerZero peers between the Torque OApps of every recorded chain')
+  .addOptionalParam('networks', 'Comma-separated networks to mesh, defaults to every CHAINS network with a deployment record')
+  .addOptionalParam('safeBatch', 'Write the setPeer calls to per-chain Safe batches in this directory instead of sending them')
+  .addFlag('dryRun', 'Only read the peers and list the calls that would be sent')
+  .setAction(async ({ networks, safeBatch, dryRun }, hre) => {
+    const names: string[] = networks
+      ? (networks as string).split(',').map(entry => entry.trim()).filter(Boolean)
+      : Object.keys(CHAINS).filter(network => loadDeploymentRecord(network));
+    if (names.length < 2) {
+      throw new Error(`Need deployments on at least two chains to wire peers, found ${names.join(', ') || 'none'}`);
+    }
+
+    try {
+      // The --network chain goes through Hardhat's provider and signer, the others through their RPCs
+      const chains: PeerChain[] = [];
+      for (const network of names) {
+        if (network === hre.network.name) {
+          const [signer] = await hre.ethers.getSigners();
+          chains.push(getPeerChain(network, hre.ethers.provider, signer));
+        } else {
+          chains.push(getPeerChain(network, getNetworkProvider(network), getNetworkSigner(network)));
+        }
+      }
+
+      const batches: Record<string, SafeBatchBuilder> = {};
+      if (safeBatch) {
+        for (const chain of chains) {
+          const safe = getSafeAddress(chain.network);
+          if (!safe) {
+            throw new Error(`No Safe configured for ${chain.network}, set it in config/safes.ts`);
+          }
+          batches[chain.network] = new SafeBatchBuilder(chain.network, chain.chainId, getAddress(safe), getAddressLabels(chain.network));
+        }
+      }
+
+      console.log(`\n🔍 Reading peers on ${names.join(', ')}...`);
+      const links = await wirePeers(chains, await readPeerMesh(chains), { safeBatches: batches, dryRun });
+      for (const chain of chains.filter(entry => !entry.signer && !batches[entry.network])) {
+        console.log(`⚠️  No signer for ${chain.network}, its peers were only read`);
+      }
+
+      for (const batch of Object.values(batches).filter(entry => entry.transactions.length > 0)) {
+        const file = writeSafeBatch(safeBatch, batch.network, 'peers', batch.build(`Torque LayerZero peers (${batch.network})`));
+        console.log(`📝 ${batch.transactions.length} call(s) for Safe ${batch.safe} written to ${file}`);
+      }
+
+      console.log(`\n${formatPeerMatrix(links, names)}`);
+      if (links.some(link => link.status === 'unset' || link.status === 'wrong')) {
+        process.exitCode = 1;
+      }
+      return links;
+    } finally {
+      await closeNetworkProviders();
+    }
+  });
@@ -0,0 +1,78 @@
+import { readFileSync } from 'fs';
+import { task } from 'hardhat/config';
+import { getAddress } from 'ethers';
+import { getChainKey } from '../config/chains';
+import { getSafeAddress } from '../config/safes';
+import { finishSafeBatch, startSafeBatch } from '../scripts/utils/deploy';
+import {
+  SafeBatch,
+  SafeBatchBuilder,
+  formatSafeSimulation,
+  getAddressLabels,
+  simulateSafeBatch,
+  writeSafeBatch,
+} from '../scripts/utils/safe';
+
+const LOCAL_NETWORKS = ['hardhat', 'localhost'];
+
+task('deploy')
+  .addOptionalParam('safeBatch', 'Write owner-only calls to a Safe Transaction Builder batch in this directory instead of sending them')
+  .addOptionalParam('safe', 'With --safe-batch, the Safe that signs, defaults to config/safes.ts or <NETWORK>_SAFE_ADDRESS')
+  .setAction(async (args, hre, runSuper) => {
+    const { safeBatch: dir, safe: safeParam, ...deployArgs } = args;
+    if (!dir) return runSuper(deployArgs);
+    if (deployArgs.plan) {
+      throw new Error('Pass only one of --plan or --safe-batch');
+    }
+
+    const { network } = hre;
+    const chainId = network.config.chainId!;
+    const chainKey = getChainKey(network.name, chainId);
+    const safe = safeParam ?? getSafeAddress(chainKey);
+    if (!safe) {
+      throw new Error(`No Safe configured for ${chainKey}, pass --safe or set it in config/safes.ts`);
+    }
+
+    const batch = new SafeBatchBuilder(network.name, chainId, getAddress(safe), getAddressLabels(network.name, chainKey));
+    startSafeBatch(batch);
+    let result: unknown;
+    try {
+      result = await runSuper(deployArgs);
+    } finally {
+      finishSafeBatch();
+    }
+
+    if (batch.transactions.length === 0) {
+      console.log('\n⏭️  No owner-only calls to batch');
+    } else {
+      const file = writeSafeBatch(dir, network.name, 'deploy', batch.build(`Torque deploy (${network.name})`));
+      console.log(`\n📝 ${batch.transactions.length} call(s) for Safe ${batch.safe} written to ${file}`);
+    }
+    return result;
+  });
+
+task('safe:simulate', 'Execute a Safe Transaction Builder batch on a local node, impersonating the Safe')
+  .addParam('batch', 'Batch file written by --safe-batch, SAFE_BATCH_OUT or ownership:handoff')
+  .addFlag('keep', 'Keep the resulting state instead of reverting the node afterwards')
+  .setAction(async ({ batch: file, keep }, hre) => {
+    const { network } = hre;
+    if (!LOCAL_NETWORKS.includes(network.name)) {
+      throw new Error(`Simulate against a local node, e.g. \`npx hardhat node --fork <rpc>\` and --network localhost, not ${network.name}`);
+    }
+
+    const batch: SafeBatch = JSON.parse(readFileSync(file, 'utf8'));
+    const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+    const batchNetwork = getChainKey(batch.chainId, Number(batch.chainId));
+    if (chainId !== Number(batch.chainId)) {
+      console.log(`⚠️  Batch is for ${batchNetwork} (${batch.chainId}), node reports chain ID ${chainId}; assuming a fork`);
+    }
+
+    console.log(`\n🧪 Simulating ${batch.transactions.length} transaction(s) from Safe ${batch.meta.createdFromSafeAddress}...`);
+    const results = await simulateSafeBatch(hre, batch, { labels: getAddressLabels(batchNetwork), keep });
+    console.log(`\n${formatSafeSimulation(results)}`);
+
+    if (results.some(result => result.status !== 'success')) {
+      process.exitCode = 1;
+    }
+    return results;
+  });
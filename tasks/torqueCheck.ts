@@ -0,0 +1,31 @@
+import { task } from 'hardhat/config';
+import { closeNetworkProviders, getNetworkProvider } from '../config/providers';
+import { ChainInvariantReport, checkDeploymentInvariants, formatInvariantMatrix } from '../config/invariants';
+
+task('torque:check', 'Check the on-chain wiring of recorded deployments against the config registries')
+  .addOptionalParam('networks', 'Comma-separated CHAINS networks to check over their RPCs, defaults to --network')
+  .addOptionalParam('admin', 'Expected owner of every contract, defaults to the recorded deployer')
+  .addFlag('json', 'Print the reports as JSON')
+  .setAction(async ({ networks, admin, json }, hre) => {
+    const reports: ChainInvariantReport[] = [];
+
+    if (networks) {
+      try {
+        for (const network of (networks as string).split(',').map(entry => entry.trim()).filter(Boolean)) {
+          console.log(`🔍 Checking ${network}...`);
+          reports.push(await checkDeploymentInvariants(network, getNetworkProvider(network), { admin }));
+        }
+      } finally {
+        await closeNetworkProviders();
+      }
+    } else {
+      console.log(`🔍 Checking ${hre.network.name}...`);
+      reports.push(await checkDeploymentInvariants(hre.network.name, hre.ethers.provider, { admin }));
+    }
+
+    console.log(json ? JSON.stringify(reports, null, 2) : `\n${formatInvariantMatrix(reports)}`);
+    if (reports.some(report => !report.passed)) {
+      process.exitCode = 1;
+    }
+    return reports;
+  });
@@ -0,0 +1,21 @@
+import { task } from 'hardhat/config';
+import { formatValidationReport, validateConfig } from '../config/validate';
+
+task('config:validate', 'Statically validate chain, collateral, deployment and script configuration')
+  .addFlag('json', 'Print the full result as JSON')
+  .addFlag('quiet', 'Hide warnings in the report')
+  .setAction(async ({ json, quiet }, hre) => {
+    const result = validateConfig({ hardhatNetworks: hre.config.networks });
+
+    if (json) {
+      console.log(JSON.stringify(result, null, 2));
+    } else {
+      console.log(formatValidationReport(result, { showWarnings: !quiet }));
+    }
+
+    if (!result.valid) {
+      throw new Error('Configuration validation failed');
+    }
+
+    return result;
+  });
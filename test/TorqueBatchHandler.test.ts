@@ -1,6 +1,7 @@
 import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract, Signer } from "ethers";
+import { getLegacyChainId } from "../config/layerzero";
 
 describe("TorqueBatchHandler", function () {
   let batchHandler: any;
@@ -15,14 +16,14 @@ describe("TorqueBatchHandler", function () {
   let deployerAddress: string;
 
   const CHAIN_IDS = {
-    ETHEREUM: 1,
-    ARBITRUM: 42161,
-    OPTIMISM: 10,
-    POLYGON: 137,
-    BASE: 8453,
-    SONIC: 146,
-    BSC: 56,
-    AVALANCHE: 43114,
+    ETHEREUM: getLegacyChainId("ethereum"),
+    ARBITRUM: getLegacyChainId("arbitrum"),
+    OPTIMISM: getLegacyChainId("optimism"),
+    POLYGON: getLegacyChainId("polygon"),
+    BASE: getLegacyChainId("base"),
+    SONIC: getLegacyChainId("sonic"),
+    BSC: getLegacyChainId("bsc"),
+    AVALANCHE: getLegacyChainId("avalanche"),
   };
 
   beforeEach(async function () {
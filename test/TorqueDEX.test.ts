@@ -2,8 +2,15 @@ import { expect } from "chai";
 import { ethers } from "hardhat";
 import { Contract } from "ethers";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import { getLegacyChainId } from "../config/layerzero";
 
 describe("TorqueDEX Cross-Chain", function () {
+  const CHAIN_IDS = {
+    ETHEREUM: getLegacyChainId("ethereum"),
+    ARBITRUM: getLegacyChainId("arbitrum"),
+    POLYGON: getLegacyChainId("polygon"),
+  };
+
   let mockToken0: any;
   let mockToken1: any;
   let torqueDEX: any;
@@ -47,9 +54,9 @@ describe("TorqueDEX Cross-Chain", function () {
 
     it("Should initialize supported chains", async function () {
       // Check that supported chains are initialized
-      expect(await torqueDEX.isSupportedChain(1)).to.equal(true); // Ethereum
-      expect(await torqueDEX.isSupportedChain(42161)).to.equal(true); // Arbitrum
-      expect(await torqueDEX.isSupportedChain(137)).to.equal(true); // Polygon
+      expect(await torqueDEX.isSupportedChain(CHAIN_IDS.ETHEREUM)).to.equal(true);
+      expect(await torqueDEX.isSupportedChain(CHAIN_IDS.ARBITRUM)).to.equal(true);
+      expect(await torqueDEX.isSupportedChain(CHAIN_IDS.POLYGON)).to.equal(true);
     });
   });
 
@@ -96,17 +103,17 @@ describe("TorqueDEX Cross-Chain", function () {
       const mockDexAddress = ethers.Wallet.createRandom().address;
       
       await expect(
-        torqueDEX.connect(owner).setDEXAddress(42161, mockDexAddress)
+        torqueDEX.connect(owner).setDEXAddress(CHAIN_IDS.ARBITRUM, mockDexAddress)
       ).to.not.be.reverted;
 
-      expect(await torqueDEX.dexAddresses(42161)).to.equal(mockDexAddress);
+      expect(await torqueDEX.dexAddresses(CHAIN_IDS.ARBITRUM)).to.equal(mockDexAddress);
     });
 
     it("Should not allow non-owner to set DEX addresses", async function () {
       const mockDexAddress = ethers.Wallet.createRandom().address;
       
       await expect(
-        torqueDEX.connect(user1).setDEXAddress(42161, mockDexAddress)
+        torqueDEX.connect(user1).setDEXAddress(CHAIN_IDS.ARBITRUM, mockDexAddress)
       ).to.be.revertedWithCustomError(torqueDEX, "OwnableUnauthorizedAccount");
     });
 
@@ -123,10 +130,10 @@ describe("TorqueDEX Cross-Chain", function () {
     it("Should track cross-chain liquidity correctly", async function () {
       // Set up a mock DEX address
       const mockDexAddress = ethers.Wallet.createRandom().address;
-      await torqueDEX.connect(owner).setDEXAddress(42161, mockDexAddress);
+      await torqueDEX.connect(owner).setDEXAddress(CHAIN_IDS.ARBITRUM, mockDexAddress);
 
       // Initially no cross-chain liquidity
-      expect(await torqueDEX.getCrossChainLiquidity(user1.address, 42161)).to.equal(0);
+      expect(await torqueDEX.getCrossChainLiquidity(user1.address, CHAIN_IDS.ARBITRUM)).to.equal(0);
       expect(await torqueDEX.getTotalCrossChainLiquidity(user1.address)).to.equal(0);
     });
 
@@ -135,8 +142,8 @@ describe("TorqueDEX Cross-Chain", function () {
       const mockDex1 = ethers.Wallet.createRandom().address;
       const mockDex2 = ethers.Wallet.createRandom().address;
       
-      await torqueDEX.connect(owner).setDEXAddress(42161, mockDex1);
-      await torqueDEX.connect(owner).setDEXAddress(137, mockDex2);
+      await torqueDEX.connect(owner).setDEXAddress(CHAIN_IDS.ARBITRUM, mockDex1);
+      await torqueDEX.connect(owner).setDEXAddress(CHAIN_IDS.POLYGON, mockDex2);
 
       // Initially zero
       expect(await torqueDEX.getTotalCrossChainLiquidity(user1.address)).to.equal(0);
@@ -145,7 +152,7 @@ describe("TorqueDEX Cross-Chain", function () {
 
   describe("Cross-Chain Liquidity Quote", function () {
     it("Should provide gas estimates for cross-chain operations", async function () {
-      const dstChainIds = [42161, 137];
+      const dstChainIds = [CHAIN_IDS.ARBITRUM, CHAIN_IDS.POLYGON];
       const adapterParams = [
         ethers.AbiCoder.defaultAbiCoder().encode(["uint16", "uint256"], [1, 200000]),
         ethers.AbiCoder.defaultAbiCoder().encode(["uint16", "uint256"], [1, 200000]),
@@ -156,7 +163,7 @@ describe("TorqueDEX Cross-Chain", function () {
     });
 
     it("Should reject mismatched array lengths", async function () {
-      const dstChainIds = [42161, 137];
+      const dstChainIds = [CHAIN_IDS.ARBITRUM, CHAIN_IDS.POLYGON];
       const adapterParams = [
         ethers.AbiCoder.defaultAbiCoder().encode(["uint16", "uint256"], [1, 200000]),
       ];
@@ -258,4 +265,55 @@ describe("TorqueDEX Cross-Chain", function () {
       ).to.be.revertedWith("Invalid base token");
     });
   });
-}); 
\ No newline at end of file
+}); 
+describe("TorqueDEX pools", function () {
+  let torqueDEX: any;
+  let mockLZEndpoint: any;
+  let baseToken: any;
+  let quoteToken: any;
+  let owner: SignerWithAddress;
+  let feeRecipient: SignerWithAddress;
+  let user1: SignerWithAddress;
+
+  beforeEach(async function () {
+    [owner, feeRecipient, user1] = await ethers.getSigners();
+
+    const MockLayerZeroEndpoint = await ethers.getContractFactory("MockLayerZeroEndpoint");
+    mockLZEndpoint = await MockLayerZeroEndpoint.deploy();
+    const MockERC20 = await ethers.getContractFactory("MockERC20");
+    baseToken = await MockERC20.deploy("Torque EUR", "TEUR", 18);
+    quoteToken = await MockERC20.deploy("Torque USD", "TUSD", 18);
+
+    const TorqueDEX = await ethers.getContractFactory("TorqueDEX");
+    torqueDEX = await TorqueDEX.deploy(await mockLZEndpoint.getAddress(), owner.address);
+    await torqueDEX.setDefaultQuoteAsset(await quoteToken.getAddress());
+    await torqueDEX.setDefaultFeeRecipient(feeRecipient.address);
+  });
+
+  it("Should create a pool with the default quote asset, its LP minted by the DEX and owned and delegated by the DEX owner", async function () {
+    const baseAddress = await baseToken.getAddress();
+    const quoteAddress = await quoteToken.getAddress();
+
+    await expect(
+      torqueDEX.createPoolWithDefaultQuote(baseAddress, "TEUR/TUSD", "TEURTUSD")
+    ).to.emit(torqueDEX, "PoolCreated");
+
+    const lpToken = await ethers.getContractAt("TorqueLP", await torqueDEX.getPoolAddress(baseAddress, quoteAddress));
+    expect(await lpToken.dex()).to.equal(await torqueDEX.getAddress());
+    expect(await lpToken.owner()).to.equal(owner.address);
+    expect(await mockLZEndpoint.delegates(await lpToken.getAddress())).to.equal(owner.address);
+
+    const pool = await torqueDEX.getPool(baseAddress, quoteAddress);
+    expect(pool.feeRecipient_).to.equal(feeRecipient.address);
+    expect(pool.active_).to.equal(true);
+  });
+
+  it("Should only let the owner create pools", async function () {
+    await expect(
+      torqueDEX.connect(user1).createPool(await baseToken.getAddress(), await quoteToken.getAddress(), "TEUR/TUSD", "TEURTUSD", feeRecipient.address, false, 30)
+    ).to.be.revertedWithCustomError(torqueDEX, "OwnableUnauthorizedAccount");
+    await expect(
+      torqueDEX.connect(user1).createPoolWithDefaultQuote(await baseToken.getAddress(), "TEUR/TUSD", "TEURTUSD")
+    ).to.be.revertedWithCustomError(torqueDEX, "OwnableUnauthorizedAccount");
+  });
+});
@@ -0,0 +1,41 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { COLLATERALS, getEngineCollaterals, isCollateralAllowed } from "../config/collaterals";
+import { diffEngineCollateral, formatCollateralDiff } from "../scripts/utils/collaterals";
+
+describe("Collateral reconciliation", function () {
+  const usdc = COLLATERALS.USDC.addresses.arbitrum;
+  const weth = COLLATERALS.WETH.addresses.arbitrum;
+  const stray = ethers.getAddress(`0x${"1".padStart(40, "0")}`);
+
+  it("Should apply engine allow and deny lists and keep volatile collateral off XAU", async function () {
+    expect(getEngineCollaterals("arbitrum", "XAU").every(collateral => !collateral.isVolatile)).to.equal(true);
+    expect(getEngineCollaterals("arbitrum", "EUR").some(collateral => collateral.isVolatile)).to.equal(true);
+
+    const policies = { EUR: { allow: ["usdc", "WETH"], deny: ["WETH"] } };
+    expect(isCollateralAllowed("EUR", COLLATERALS.USDC, policies)).to.equal(true);
+    expect(isCollateralAllowed("EUR", COLLATERALS.WETH, policies)).to.equal(false);
+    expect(isCollateralAllowed("EUR", COLLATERALS.USDT, policies)).to.equal(false);
+    expect(isCollateralAllowed("GBP", COLLATERALS.USDT, policies)).to.equal(true);
+  });
+
+  it("Should add missing registry collateral, keep what is there and remove the rest", async function () {
+    const changes = diffEngineCollateral("arbitrum", "XAU", [usdc.toLowerCase(), weth, stray]);
+    const byToken = Object.fromEntries(changes.map(change => [change.token.toLowerCase(), change]));
+
+    expect(byToken[usdc.toLowerCase()]).to.include({ action: "keep", symbol: "USDC" });
+    expect(byToken[weth.toLowerCase()]).to.include({ action: "remove", symbol: "WETH" });
+    expect(byToken[stray.toLowerCase()]).to.include({ action: "remove", symbol: undefined });
+
+    const usdt = byToken[COLLATERALS.USDT.addresses.arbitrum.toLowerCase()];
+    expect(usdt.action).to.equal("add");
+    expect(usdt.args).to.deep.equal([COLLATERALS.USDT.addresses.arbitrum, 6, COLLATERALS.USDT.priceFeeds.arbitrum, false, false]);
+    expect(changes.filter(change => change.action === "add").every(change => !change.args![3])).to.equal(true);
+
+    const preview = formatCollateralDiff(changes);
+    const adds = changes.filter(change => change.action === "add").length;
+    expect(preview.split("\n")[0]).to.equal(`TorqueXAUEngine: ${adds} to add, 2 to remove, 1 unchanged`);
+    expect(preview).to.contain(`  - unknown (${stray})`);
+    expect(preview).to.contain(`${adds + 2} change(s) across 1 engine(s)`);
+  });
+});
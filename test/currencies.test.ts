@@ -0,0 +1,53 @@
+import { expect } from "chai";
+import { artifacts } from "hardhat";
+import { getDeploymentSlots, getSlotContractName } from "../config/contracts";
+import {
+  CURRENCY_CODES,
+  CURRENCY_LIST,
+  QUOTE_CURRENCY,
+  getCurrenciesByKind,
+  getCurrency,
+  getCurrencyBySymbol,
+  getPoolCurrencies,
+  isCurrencyCode,
+} from "../config/currencies";
+import { getPriceFeedsForPair } from "../config/priceFeeds";
+
+describe("Currency catalog", function () {
+  it("Should pair every currency with its own token, engine and price feed", async function () {
+    for (const currency of CURRENCY_LIST) {
+      expect(await artifacts.artifactExists(currency.tokenContract), currency.tokenContract).to.equal(true);
+      expect(await artifacts.artifactExists(currency.engineContract), currency.engineContract).to.equal(true);
+      expect(currency).to.include({ tokenName: `Torque ${currency.code}`, tokenSymbol: `T${currency.code}` });
+      expect(Object.keys(getPriceFeedsForPair(currency.feedPair)), currency.feedPair).to.not.be.empty;
+    }
+  });
+
+  it("Should look currencies up by code, symbol and kind", async function () {
+    expect(getCurrency("eur")?.engineContract).to.equal("TorqueEUREngine");
+    expect(getCurrency("SGD")).to.equal(undefined);
+    expect(getCurrencyBySymbol("TXAU")?.code).to.equal("XAU");
+    expect(getCurrencyBySymbol("EUR")).to.equal(undefined);
+    expect(isCurrencyCode("JPY")).to.equal(true);
+    expect(isCurrencyCode("jpy")).to.equal(false);
+    expect(getCurrenciesByKind("metal").map(currency => currency.code)).to.deep.equal(["XAU", "XAG"]);
+  });
+
+  it("Should trade every currency but the quote currency in a pool", async function () {
+    const pools = getPoolCurrencies().map(currency => currency.code);
+
+    expect(pools).to.not.include(QUOTE_CURRENCY);
+    expect(pools).to.have.length(CURRENCY_CODES.length - 1);
+  });
+
+  it("Should give every currency an engine and a token slot", async function () {
+    const slots = getDeploymentSlots();
+
+    for (const code of CURRENCY_CODES) {
+      expect(slots).to.include.members([`engines.${code}`, `currencies.${code}`]);
+      expect(getSlotContractName(`engines.${code}`)).to.equal(`Torque${code}Engine`);
+      expect(getSlotContractName(`currencies.${code}`)).to.equal(`Torque${code}`);
+    }
+    expect(getSlotContractName("engines.SGD")).to.equal(undefined);
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { COLLATERALS } from "../config/collaterals";
+import { CURRENCIES, CURRENCY_LIST, QUOTE_CURRENCY } from "../config/currencies";
+import { getLayerZeroConfig } from "../config/layerzero";
+import { getPriceFeedAddress } from "../config/priceFeeds";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+import { useLocalChain } from "./helpers/localChain";
+
+describe("Deploy modules", function () {
+  useTempDeploymentsDir();
+  useLocalChain("arbitrum");
+
+  it("Should construct every contract with the arguments it takes", async function () {
+    const { deployments } = hre;
+    const [deployer] = await ethers.getSigners();
+    await deployments.fixture(["Deploy"]);
+    const addressOf = async (name: string) => (await deployments.get(name)).address;
+    const endpoint = getLayerZeroConfig("arbitrum")!.endpoint;
+    const torqueUSD = await addressOf(CURRENCIES[QUOTE_CURRENCY].tokenContract);
+
+    for (const currency of CURRENCY_LIST) {
+      const token = await ethers.getContractAt(currency.tokenContract, await addressOf(currency.tokenContract));
+      expect(await token.name()).to.equal(currency.tokenName);
+      expect(await token.symbol()).to.equal(currency.tokenSymbol);
+      expect(await token.endpoint()).to.equal(endpoint);
+      expect(await token.owner()).to.equal(deployer.address);
+    }
+
+    const torque = await ethers.getContractAt("Torque", await addressOf("Torque"));
+    expect([await torque.name(), await torque.symbol(), await torque.owner()]).to.deep.equal(["Torque", "TORQ", deployer.address]);
+
+    const torqueStake = await ethers.getContractAt("TorqueStake", await addressOf("TorqueStake"));
+    expect(await torqueStake.lpToken()).to.equal(await addressOf("TorqueLP"));
+    expect(await torqueStake.torqToken()).to.equal(await torque.getAddress());
+    expect(await torqueStake.rewardToken()).to.equal(await torque.getAddress());
+    expect(await torqueStake.treasuryFeeRecipient()).to.equal(deployer.address);
+
+    const torqueFX = await ethers.getContractAt("TorqueFX", await addressOf("TorqueFX"));
+    expect(await torqueFX.usdc()).to.equal(torqueUSD);
+    expect(await torqueFX.dexContract()).to.equal(await addressOf("TorqueDEX"));
+
+    const torqueRewards = await ethers.getContractAt("TorqueRewards", await addressOf("TorqueRewards"));
+    expect(await torqueRewards.rewardToken()).to.equal(torqueUSD);
+    expect(await torqueRewards.torqueFX()).to.equal(await torqueFX.getAddress());
+    expect(await deployments.getOrNull("TorqueRouter")).to.exist;
+  });
+
+  it("Should back engines with the registry's USDC and skip the ones without a feed", async function () {
+    const { deployments } = hre;
+    await deployments.fixture(["Engines"]);
+
+    for (const currency of CURRENCY_LIST) {
+      const feed = getPriceFeedAddress("arbitrum", currency.feedPair);
+      const deployed = await deployments.getOrNull(currency.engineContract);
+      if (!feed) {
+        expect(deployed, currency.engineContract).to.not.exist;
+        continue;
+      }
+
+      const engine = await ethers.getContractAt(currency.engineContract, deployed!.address);
+      expect(await engine.getCollateralToken()).to.equal(COLLATERALS.USDC.addresses.arbitrum);
+      expect(await engine.getPriceFeed()).to.equal(feed);
+      expect(await engine.getTorqueToken()).to.equal((await deployments.get(currency.tokenContract)).address);
+    }
+    // NZD/USD has no arbitrum feed
+    expect(await deployments.getOrNull("TorqueNZDEngine")).to.not.exist;
+  });
+
+  it("Should refuse to deploy engines on a network without a USDC address", async function () {
+    const usdc = COLLATERALS.USDC.addresses.arbitrum;
+    delete COLLATERALS.USDC.addresses.arbitrum;
+    try {
+      // Run rather than fixture, which would revert to the snapshot of the previous test's deployment
+      await expect(hre.deployments.run("Engines", { writeDeploymentsToFiles: false })).to.be.rejectedWith(
+        "No USDC address configured for arbitrum in config/collaterals.ts, engines need it as collateral"
+      );
+    } finally {
+      COLLATERALS.USDC.addresses.arbitrum = usdc;
+    }
+  });
+});
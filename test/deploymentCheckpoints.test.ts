@@ -0,0 +1,156 @@
+import { expect } from "chai";
+import { getCreateAddress } from "ethers";
+import hre, { ethers } from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  getCheckpoint,
+  getPendingCheckpoints,
+  loadDeploymentRecord,
+  recordCheckpoint,
+  recordContracts,
+} from "../config/deployments";
+import { getDeployContext, setDeployLogger } from "../scripts/utils/deploy";
+import { QUIET_LOGGER } from "../scripts/utils/logger";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+
+describe("Deployment checkpoints", function () {
+  const network = "arbitrum";
+  const chainId = 42161;
+  const address = "0x0000000000000000000000000000000000000001";
+  useTempDeploymentsDir();
+
+  it("Should persist a pending step before any contract is recorded", async function () {
+    recordCheckpoint(network, chainId, "deploy:engines.EUR", { status: "pending", contract: "engines.EUR", address });
+
+    const record = loadDeploymentRecord(network)!;
+    expect(record.version).to.equal(0);
+    expect(record.contracts).to.deep.equal({});
+    expect(getPendingCheckpoints(network).map(([step]) => step)).to.deep.equal(["deploy:engines.EUR"]);
+    expect(getCheckpoint(network, "deploy:engines.EUR")?.address).to.equal(address);
+  });
+
+  it("Should clear a pending step once it is done", async function () {
+    recordCheckpoint(network, chainId, "torqueDEX.setDefaultQuoteAsset", { status: "pending", transactionHash: "0xabc" });
+    recordCheckpoint(network, chainId, "torqueDEX.setDefaultQuoteAsset", { status: "done", transactionHash: "0xabc" });
+
+    expect(getPendingCheckpoints(network)).to.deep.equal([]);
+    expect(getCheckpoint(network, "torqueDEX.setDefaultQuoteAsset")?.status).to.equal("done");
+  });
+
+  it("Should keep checkpoints and contracts side by side without bumping the version", async function () {
+    recordContracts(network, chainId, [{ contract: "torqueDEX", address }]);
+    recordCheckpoint(network, chainId, "deploy:torqueDEX", { status: "done", contract: "torqueDEX", address });
+
+    const record = loadDeploymentRecord(network)!;
+    expect(record.version).to.equal(1);
+    expect(record.contracts.torqueDEX.address).to.equal(address);
+    expect(record.checkpoints?.["deploy:torqueDEX"]?.status).to.equal("done");
+  });
+
+  describe("Rerunning the deploy modules", function () {
+    // The deploy modules run against a configured network, arbitrum's registry here
+    const arbitrum = {
+      ...hre,
+      network: { ...hre.network, name: network, config: { ...hre.network.config, chainId } },
+    } as HardhatRuntimeEnvironment;
+    let args: string[];
+
+    beforeEach(async function () {
+      setDeployLogger(QUIET_LOGGER);
+      const [deployer] = await ethers.getSigners();
+      const endpoint = await (await ethers.getContractFactory("MockLayerZeroEndpoint")).deploy();
+      args = [await endpoint.getAddress(), deployer.address];
+    });
+
+    afterEach(async function () {
+      setDeployLogger();
+      await hre.deployments.delete("TorqueBatchHandler");
+    });
+
+    it("Should refuse to adopt a recorded contract deployed with other code or constructor arguments", async function () {
+      const [deployer, other] = await ethers.getSigners();
+      const handler = await (await ethers.getContractFactory("TorqueBatchHandler")).deploy(args[0], args[1]);
+      const token = await (await ethers.getContractFactory("MockERC20")).deploy("Token", "TKN", 18);
+      const { deployContract } = await getDeployContext(arbitrum);
+      const transactionHash = handler.deploymentTransaction()!.hash;
+
+      recordContracts(network, chainId, [{ contract: "torqueBatchHandler", address: await handler.getAddress(), args, transactionHash }]);
+      const changed = [args[0], other.address];
+      await expect(deployContract("torqueBatchHandler", "TorqueBatchHandler", changed)).to.be.rejectedWith(
+        `torqueBatchHandler is recorded at ${await handler.getAddress()} with constructor arguments ${args.join(", ")}, ` +
+        `this run deploys it with ${changed.join(", ")}`
+      );
+
+      recordContracts(network, chainId, [{ contract: "torqueBatchHandler", address: await token.getAddress(), args }]);
+      await expect(deployContract("torqueBatchHandler", "TorqueBatchHandler", args)).to.be.rejectedWith(
+        `torqueBatchHandler is recorded at ${await token.getAddress()} with other code than TorqueBatchHandler compiles to`
+      );
+
+      recordContracts(network, chainId, [{ contract: "torqueBatchHandler", address: await handler.getAddress(), args, transactionHash }]);
+      const nonce = await ethers.provider.getTransactionCount(deployer.address);
+      const adopted = await deployContract("torqueBatchHandler", "TorqueBatchHandler", args);
+      expect(adopted).to.include({ address: await handler.getAddress(), newlyDeployed: false });
+      expect(await ethers.provider.getTransactionCount(deployer.address)).to.equal(nonce);
+    });
+
+    it("Should adopt a contract an interrupted run deployed instead of deploying it again", async function () {
+      const [deployer] = await ethers.getSigners();
+      const nonce = await ethers.provider.getTransactionCount(deployer.address);
+      // The run stopped after sending the deployment, before recording it
+      recordCheckpoint(network, chainId, "deploy:torqueBatchHandler", {
+        status: "pending",
+        contract: "torqueBatchHandler",
+        address: getCreateAddress({ from: deployer.address, nonce }),
+        args,
+      });
+      const handler = await (await ethers.getContractFactory("TorqueBatchHandler")).deploy(args[0], args[1]);
+      const { deployContract } = await getDeployContext(arbitrum);
+
+      const result = await deployContract("torqueBatchHandler", "TorqueBatchHandler", args);
+      expect(result).to.include({ address: await handler.getAddress(), newlyDeployed: false });
+      expect(await ethers.provider.getTransactionCount(deployer.address)).to.equal(nonce + 1);
+      expect(loadDeploymentRecord(network)!.contracts.torqueBatchHandler.address).to.equal(await handler.getAddress());
+      expect(getPendingCheckpoints(network)).to.deep.equal([]);
+    });
+
+    it("Should wait for a setter call an interrupted run sent instead of sending it again", async function () {
+      const [deployer] = await ethers.getSigners();
+      const handler = await (await ethers.getContractFactory("TorqueBatchHandler")).deploy(args[0], args[1]);
+      const messages: string[] = [];
+      setDeployLogger({ ...QUIET_LOGGER, info: message => messages.push(message) });
+      const { applySetting } = await getDeployContext(arbitrum);
+      const setting = {
+        contract: "torqueBatchHandler",
+        target: handler,
+        method: "setMaxBatchSize",
+        args: [20],
+        isApplied: async () => (await handler.maxBatchSize()) === 20n,
+      };
+
+      // The run stopped with the call still in the mempool
+      await ethers.provider.send("evm_setAutomine", [false]);
+      try {
+        const tx = await handler.setMaxBatchSize(20);
+        recordCheckpoint(network, chainId, "link:maxBatchSize", {
+          status: "pending",
+          contract: "torqueBatchHandler",
+          transactionHash: tx.hash,
+        });
+        const nonce = await ethers.provider.getTransactionCount(deployer.address, "pending");
+
+        const resumed = applySetting("link:maxBatchSize", setting);
+        // Mine the call only once the run waits for it
+        while (!messages.some(message => message.startsWith("⏳ Waiting for setMaxBatchSize"))) {
+          await new Promise(resolve => setTimeout(resolve, 10));
+        }
+        await ethers.provider.send("evm_mine", []);
+        expect(await resumed).to.equal(null);
+        expect(await ethers.provider.getTransactionCount(deployer.address, "pending")).to.equal(nonce);
+      } finally {
+        await ethers.provider.send("evm_setAutomine", [true]);
+      }
+      expect(await handler.maxBatchSize()).to.equal(20n);
+      expect(getCheckpoint(network, "link:maxBatchSize")).to.include({ status: "done" });
+    });
+  });
+});
@@ -0,0 +1,125 @@
+import { expect } from "chai";
+import { existsSync, readdirSync } from "fs";
+import path from "path";
+import hre, { ethers } from "hardhat";
+import { HardhatNetworkConfig } from "hardhat/types";
+import { CURRENCY_LIST } from "../config/currencies";
+import { getDeploymentRecordPath } from "../config/deployments";
+import { MAX_CONTRACT_SIZE } from "../scripts/utils/deploy";
+import { DeploymentPlan, DeploymentPlanBuilder, formatPlanMarkdown } from "../scripts/utils/plan";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+import { useLocalChain } from "./helpers/localChain";
+
+describe("Deployment plan", function () {
+  const network = "arbitrum";
+  const chainId = 42161;
+  const abi = ["function setDefaultQuoteAsset(address asset)"];
+  const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, "0")}`);
+  let deployer: string;
+
+  beforeEach(async function () {
+    [deployer] = (await ethers.getSigners()).map(signer => signer.address);
+  });
+
+  it("Should predict deployment addresses from the deployer nonce", async function () {
+    const plan = new DeploymentPlanBuilder(network, chainId, deployer, 5, 1n);
+
+    plan.addDeployment({ slot: "torqueDEX", contract: "TorqueDEX", action: "reuse", address: address(1), args: [] });
+    expect(plan.nextAddress()).to.equal(ethers.getCreateAddress({ from: deployer, nonce: 5 }));
+
+    plan.addDeployment({ slot: "torqueFX", contract: "TorqueFX", action: "deploy", address: plan.nextAddress(), args: [1n], gas: "100" });
+    expect(plan.nextAddress()).to.equal(ethers.getCreateAddress({ from: deployer, nonce: 6 }));
+    expect(plan.isPlannedDeployment("torqueFX")).to.be.true;
+    expect(plan.isPlannedDeployment("torqueDEX")).to.be.false;
+    expect(plan.build().deployments[1].args).to.deep.equal(["1"]);
+  });
+
+  it("Should decode call arguments and skip calls already applied", async function () {
+    const target = new ethers.Contract(address(2), abi, ethers.provider);
+    const plan = new DeploymentPlanBuilder(network, chainId, deployer, 0, 10n);
+
+    await plan.addCall("calls", "torqueDEX.setDefaultQuoteAsset", "torqueDEX", target, "setDefaultQuoteAsset", [address(3)], true);
+    await plan.addCall("calls", "torqueDEX.setDefaultQuoteAsset", "torqueDEX", target, "setDefaultQuoteAsset", [address(3)], undefined);
+
+    const { calls, totals } = plan.build();
+    expect(calls[0].signature).to.equal("setDefaultQuoteAsset(address)");
+    expect(calls[0].args).to.deep.equal([{ name: "asset", type: "address", value: address(3) }]);
+    expect(calls[0].action).to.equal("skip");
+    expect(calls[1].action).to.equal("call");
+    expect(calls[1].gas).to.be.undefined;
+    expect(totals).to.deep.equal({ transactions: 1, unestimated: 1, gas: "0", cost: "0" });
+  });
+
+  it("Should estimate gas and total the cost", async function () {
+    const target = new ethers.Contract(address(2), abi, await ethers.getSigner(deployer));
+    const plan = new DeploymentPlanBuilder(network, chainId, deployer, 0, 10n);
+
+    plan.addDeployment({ slot: "torqueFX", contract: "TorqueFX", action: "deploy", address: plan.nextAddress(), args: [], gas: "1000" });
+    await plan.addCall("collaterals", "engines.EUR.addCollateralToken.USDC", "engines.EUR", target, "setDefaultQuoteAsset", [address(3)], false);
+
+    const built = plan.build();
+    const callGas = BigInt(built.collaterals[0].gas!);
+    expect(callGas > 0n).to.be.true;
+    expect(built.totals.gas).to.equal((1000n + callGas).toString());
+    expect(built.totals.cost).to.equal(((1000n + callGas) * 10n).toString());
+
+    const markdown = formatPlanMarkdown(built);
+    expect(markdown).to.contain("# Deployment plan: arbitrum (42161)");
+    expect(markdown).to.contain("`setDefaultQuoteAsset(asset=");
+    expect(markdown).to.contain("## Collateral");
+  });
+
+  describe("deploy --plan", function () {
+    useTempDeploymentsDir();
+    useLocalChain("arbitrum");
+    // hardhat-deploy saves the deployments it makes here as it would on a live network
+    const deploymentFiles = () => {
+      const dir = path.join(hre.config.paths.deployments, hre.network.name);
+      return existsSync(dir) ? readdirSync(dir) : [];
+    };
+
+    it("Should plan the Link tag on a fresh chain without sending or recording anything", async function () {
+      const nonce = await ethers.provider.getTransactionCount(deployer);
+      const files = deploymentFiles();
+
+      const plan: DeploymentPlan = await hre.run("deploy", { plan: true, tags: "Link", noCompile: true });
+
+      expect(await ethers.provider.getTransactionCount(deployer)).to.equal(nonce);
+      expect(existsSync(getDeploymentRecordPath("hardhat"))).to.be.false;
+      expect(deploymentFiles()).to.deep.equal(files);
+
+      expect(plan).to.include({ network: "hardhat", chainId: 42161, deployer });
+      expect(plan.deployments.every(deployment => deployment.action === "deploy" && !deployment.error)).to.be.true;
+      // Every currency token, then TorqueDEX and its two setter calls before the engines
+      const addressOf = (slot: string) => plan.deployments.find(deployment => deployment.slot === slot)?.address;
+      expect(addressOf("currencies.USD")).to.equal(ethers.getCreateAddress({ from: deployer, nonce }));
+      expect(addressOf("torqueDEX")).to.equal(ethers.getCreateAddress({ from: deployer, nonce: nonce + CURRENCY_LIST.length }));
+      expect(addressOf("engines.USD")).to.equal(ethers.getCreateAddress({ from: deployer, nonce: nonce + CURRENCY_LIST.length + 3 }));
+      const slots = plan.deployments.map(deployment => deployment.slot);
+      expect(slots).to.include.members(["currencies.USD", "torqueDEX", "engines.EUR", "torqueFX", "torqueBatchHandler"]);
+
+      const createPool = plan.calls.find(call => call.step === "torqueDEX.createPool.EUR")!;
+      expect(createPool).to.include({ target: addressOf("torqueDEX"), signature: "createPoolWithDefaultQuote(address,string,string)", action: "call" });
+      // Calls on planned contracts cannot be estimated
+      expect(createPool.gas).to.be.undefined;
+      expect(plan.calls.map(call => call.step)).to.include("torqueFX.setPriceFeed.EUR");
+      expect(plan.collaterals.filter(call => call.step.startsWith("engines.EUR.addCollateralToken."))).to.not.be.empty;
+    });
+
+    it("Should flag a contract over the EIP-170 limit on a network that enforces it", async function () {
+      const config = hre.network.config as HardhatNetworkConfig;
+      config.allowUnlimitedContractSize = false;
+      let plan: DeploymentPlan;
+      try {
+        plan = await hre.run("deploy", { plan: true, tags: "DEX", noCompile: true });
+      } finally {
+        config.allowUnlimitedContractSize = true;
+      }
+
+      const torqueDEX = plan.deployments.find(deployment => deployment.slot === "torqueDEX")!;
+      expect(torqueDEX.error).to.match(new RegExp(`^TorqueDEX is \\d+ bytes, over the ${MAX_CONTRACT_SIZE}-byte EIP-170 limit`));
+      expect(torqueDEX.gas).to.be.undefined;
+      expect(plan.deployments.find(deployment => deployment.slot === "currencies.USD")!.error).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,91 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { existsSync, readdirSync, readFileSync, writeFileSync } from "fs";
+import { getContractAddress, getEngineAddress, reloadDeployment, updateDeployment } from "../config/contracts";
+import {
+  DEPLOYMENT_RECORD_SCHEMA_VERSION,
+  getContractHistory,
+  getDeploymentRecordPath,
+  loadDeploymentRecord,
+  recordContracts,
+  recordDeploymentAction,
+  saveDeploymentRecord,
+} from "../config/deployments";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+
+describe("Deployment registry", function () {
+  const deploymentsDir = useTempDeploymentsDir();
+  const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, "0")}`);
+  const deployer = address(9);
+
+  it("Should bump the version once per changing write and keep every address in the history", async function () {
+    recordContracts("arbitrum", 42161, [
+      { contract: "torqueDEX", address: address(1), args: [address(7)], transactionHash: "0x01" },
+      { contract: "engines.EUR", address: address(2) },
+    ], { deployer, gitCommit: "abc" });
+    // Unchanged addresses, in any case, are not a new version
+    const unchanged = recordContracts("arbitrum", 42161, [{ contract: "torqueDEX", address: address(1).toLowerCase() }]);
+    expect(unchanged.version).to.equal(1);
+
+    recordContracts("arbitrum", 42161, [{ contract: "torqueDEX", address: address(3) }], { deployer, gitCommit: "def" });
+    recordDeploymentAction("arbitrum", 42161, { action: "link", contract: "torqueDEX", description: "setDefaultQuoteAsset" });
+
+    const record = loadDeploymentRecord("arbitrum")!;
+    expect(record).to.include({ schemaVersion: DEPLOYMENT_RECORD_SCHEMA_VERSION, chainId: 42161, version: 3, deployer });
+    expect(record.contracts.torqueDEX).to.include({ address: address(3), deployer, gitCommit: "def" });
+    expect(record.contracts["engines.EUR"]).to.include({ address: address(2), gitCommit: "abc" });
+    expect(getContractHistory("arbitrum", "torqueDEX").map(entry => [entry.version, entry.action, entry.address, entry.previousAddress]))
+      .to.deep.equal([
+        [1, "deploy", address(1), undefined],
+        [2, "deploy", address(3), address(1)],
+        [3, "link", undefined, undefined],
+      ]);
+    expect(getContractHistory("base", "torqueDEX")).to.deep.equal([]);
+  });
+
+  it("Should replace the record file whole and leave no temporary file behind", async function () {
+    recordContracts("arbitrum", 42161, [{ contract: "torqueDEX", address: address(1) }]);
+    const file = getDeploymentRecordPath("arbitrum");
+    const saved = readFileSync(file, "utf8");
+
+    // A run interrupted mid-write leaves its partial output next to the record, not in it
+    writeFileSync(`${file}.tmp`, saved.slice(0, 40));
+    expect(loadDeploymentRecord("arbitrum")!.contracts.torqueDEX.address).to.equal(address(1));
+
+    const record = loadDeploymentRecord("arbitrum")!;
+    saveDeploymentRecord({ ...record, version: 2 });
+    expect(readdirSync(deploymentsDir())).to.deep.equal(["arbitrum.json"]);
+    expect(JSON.parse(readFileSync(file, "utf8"))).to.deep.equal({ ...record, version: 2 });
+  });
+
+  it("Should refuse a record for another chain or a newer schema", async function () {
+    recordContracts("arbitrum", 42161, [{ contract: "torqueDEX", address: address(1) }]);
+    expect(() => recordContracts("arbitrum", 8453, [{ contract: "torqueDEX", address: address(2) }])).to.throw(
+      "Deployment record for arbitrum is for chain 42161, not 8453"
+    );
+
+    saveDeploymentRecord({ ...loadDeploymentRecord("arbitrum")!, schemaVersion: DEPLOYMENT_RECORD_SCHEMA_VERSION + 1 });
+    expect(() => loadDeploymentRecord("arbitrum")).to.throw(`uses schema v${DEPLOYMENT_RECORD_SCHEMA_VERSION + 1}`);
+  });
+
+  describe("Contract getters", function () {
+    after(function () {
+      // Runs once the temporary directory is gone: drop what the getters cached from it
+      reloadDeployment("arbitrum");
+    });
+
+    it("Should read the addresses the scripts record and throw for the rest", async function () {
+      expect(() => getContractAddress("arbitrum", "torqueDEX")).to.throw("Contract torqueDEX not deployed on network: arbitrum");
+      expect(() => getContractAddress("hardhat", "torqueDEX")).to.throw("No deployment found for network: hardhat");
+
+      const deployment = updateDeployment("arbitrum", { torqueDEX: address(1), engines: { EUR: address(2) } }, deployer);
+      expect(deployment).to.include({ deployed: true, version: 1, deployer });
+      expect(existsSync(getDeploymentRecordPath("arbitrum"))).to.equal(true);
+
+      expect(getContractAddress("arbitrum", "torqueDEX")).to.equal(address(1));
+      expect(getEngineAddress("arbitrum", "EUR")).to.equal(address(2));
+      expect(() => getContractAddress("arbitrum", "torqueFX")).to.throw("Contract torqueFX not deployed on network: arbitrum");
+      expect(() => getEngineAddress("arbitrum", "GBP")).to.throw("Engine for GBP not deployed on network: arbitrum");
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { DeploymentRecord } from "../config/deployments";
+import {
+  DEPLOYMENT_SNAPSHOT_KIND,
+  DeploymentSnapshot,
+  diffSnapshots,
+  formatDeploymentDiff,
+  parseSnapshotFile,
+  readLiveSnapshot,
+  snapshotFromRecord,
+} from "../config/snapshots";
+
+describe("Deployment snapshots", function () {
+  const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, "0")}`);
+
+  const snapshot = (contracts: DeploymentSnapshot["contracts"], source = "test"): DeploymentSnapshot => ({
+    kind: DEPLOYMENT_SNAPSHOT_KIND,
+    source,
+    network: "arbitrum",
+    chainId: 42161,
+    takenAt: new Date(0).toISOString(),
+    contracts,
+  });
+
+  const record: DeploymentRecord = {
+    schemaVersion: 1,
+    network: "arbitrum",
+    chainId: 42161,
+    version: 2,
+    updatedAt: "2026-01-02T00:00:00.000Z",
+    contracts: {
+      torqueDEX: { address: address(2), updatedAt: "2026-01-02T00:00:00.000Z" },
+      "engines.EUR": { address: address(3), updatedAt: "2026-01-01T00:00:00.000Z" },
+    },
+    history: [
+      { version: 1, action: "deploy", contract: "torqueDEX", address: address(1), timestamp: "2026-01-01T00:00:00.000Z" },
+      { version: 1, action: "deploy", contract: "engines.EUR", address: address(3), timestamp: "2026-01-01T00:00:00.000Z" },
+      { version: 2, action: "deploy", contract: "torqueDEX", address: address(2), previousAddress: address(1), timestamp: "2026-01-02T00:00:00.000Z" },
+    ],
+  };
+
+  describe("Loading", function () {
+    it("Should replay registry history up to an older version", async function () {
+      const before = snapshotFromRecord(record, 1);
+      const after = snapshotFromRecord(record);
+
+      expect(before.source).to.equal("registry:arbitrum@1");
+      expect(before.contracts.torqueDEX.address).to.equal(address(1));
+      expect(after.contracts.torqueDEX.address).to.equal(address(2));
+      expect(after.version).to.equal(2);
+    });
+
+    it("Should map a legacy deployment file to slots", async function () {
+      const parsed = parseSnapshotFile(
+        {
+          network: "arbitrum",
+          deployer: address(9),
+          contracts: {
+            torqueUSD: address(4),
+            torqueDEX: address(5),
+            currencies: [{ name: "Torque EUR", symbol: "TEUR", address: address(6), contract: "TorqueEUR" }],
+            engines: [{ name: "Torque EUR Engine", address: address(7), contract: "TorqueEUREngine", currency: "TEUR" }],
+          },
+        },
+        "deployment-arbitrum-42161.json"
+      );
+
+      expect(parsed.chainId).to.equal(42161);
+      expect(parsed.contracts).to.deep.equal({
+        torqueDEX: { address: address(5) },
+        "currencies.USD": { address: address(4) },
+        "currencies.EUR": { address: address(6) },
+        "engines.EUR": { address: address(7) },
+      });
+    });
+
+    it("Should reject unknown files", async function () {
+      expect(() => parseSnapshotFile({ foo: 1 }, "other.json")).to.throw("is not a deployment snapshot");
+    });
+  });
+
+  describe("Diff", function () {
+    it("Should report address, owner and parameter changes", async function () {
+      const diff = diffSnapshots(
+        snapshot({
+          torqueDEX: { address: address(1), hasCode: true, owner: address(8), params: { defaultFeeBps: "4" } },
+          torqueFX: { address: address(2) },
+        }),
+        snapshot({
+          torqueDEX: { address: address(1), hasCode: true, owner: address(9), params: { defaultFeeBps: "10" } },
+          torqueFX: { address: address(3) },
+        })
+      );
+
+      expect(diff.identical).to.be.false;
+      expect(diff.changes).to.deep.equal([
+        { kind: "owner", slot: "torqueDEX", from: address(8), to: address(9) },
+        { kind: "param", slot: "torqueDEX", field: "defaultFeeBps", from: "4", to: "10" },
+        { kind: "address", slot: "torqueFX", from: address(2), to: address(3) },
+      ]);
+    });
+
+    it("Should report engines added, removed and skipped and missing currencies", async function () {
+      const diff = diffSnapshots(
+        snapshot({ "engines.GBP": { address: address(1) }, "currencies.USD": { address: address(2) } }),
+        snapshot({ "engines.EUR": { address: address(3) }, "currencies.USD": { address: address(2) } })
+      );
+
+      expect(diff.changes.map(change => `${change.kind}:${change.slot}`)).to.deep.equal([
+        "added:engines.EUR",
+        "removed:engines.GBP",
+      ]);
+      expect(diff.enginesAdded).to.deep.equal(["EUR"]);
+      expect(diff.enginesRemoved).to.deep.equal(["GBP"]);
+      expect(diff.enginesSkipped).to.include("GBP").and.not.include("EUR");
+      expect(diff.currenciesMissing).to.include("EUR").and.not.include("USD");
+    });
+
+    it("Should ignore address case and unknown owners", async function () {
+      const diff = diffSnapshots(
+        snapshot({ torqueDEX: { address: address(10).toLowerCase() } }),
+        snapshot({ torqueDEX: { address: address(10), owner: address(8) } })
+      );
+
+      expect(diff.identical).to.be.true;
+      expect(formatDeploymentDiff(diff)).to.contain("No changes");
+    });
+  });
+
+  describe("Live reads", function () {
+    it("Should flag recorded addresses without code", async function () {
+      const live = await readLiveSnapshot(snapshot({ torqueDEX: { address: address(11) } }), ethers.provider, "hardhat");
+
+      expect(live.source).to.equal("live:hardhat");
+      expect(live.chainId).to.equal(31337);
+      expect(live.contracts.torqueDEX).to.deep.equal({ address: address(11), hasCode: false });
+
+      const diff = diffSnapshots(snapshot({ torqueDEX: { address: address(11), hasCode: true } }), live);
+      expect(diff.changes).to.deep.equal([{ kind: "code", slot: "torqueDEX", from: "true", to: "false" }]);
+    });
+  });
+});
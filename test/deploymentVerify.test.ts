@@ -0,0 +1,161 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { createServer, IncomingMessage, Server, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import { Etherscan } from "@nomicfoundation/hardhat-verify/etherscan";
+import { recordContracts } from "../config/deployments";
+import { QUIET_LOGGER } from "../scripts/utils/logger";
+import {
+  formatVerificationReport,
+  getVerificationTargets,
+  VerificationSource,
+  verifyContract,
+  verifyContracts,
+} from "../scripts/utils/verify";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+
+// Etherscan-compatible explorer API backed by in-memory state
+class MockExplorer {
+  verified = new Set<string>();
+  // verifysourcecode calls answered with "Unable to locate ContractCode" before the bytecode is indexed
+  unindexedCalls = 0;
+  // Status returned by checkverifystatus
+  verifyResult = "Pass - Verified";
+  submissions: URLSearchParams[] = [];
+  private server?: Server;
+
+  async start(): Promise<string> {
+    this.server = createServer((request, response) => this.handle(request, response));
+    await new Promise<void>(resolve => this.server!.listen(0, "127.0.0.1", resolve));
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}/api`;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise(resolve => this.server?.close(resolve));
+  }
+
+  private handle(request: IncomingMessage, response: ServerResponse) {
+    let body = "";
+    request.on("data", chunk => (body += chunk));
+    request.on("end", () => {
+      const query = new URL(request.url!, "http://localhost").searchParams;
+      const params = request.method === "POST" ? new URLSearchParams(body) : query;
+      const reply = (status: string, message: string, result: unknown) => {
+        response.setHeader("Content-Type", "application/json");
+        response.end(JSON.stringify({ status, message, result }));
+      };
+
+      switch (params.get("action")) {
+        case "getsourcecode": {
+          const source = this.verified.has(params.get("address")!.toLowerCase()) ? "contract Verified {}" : "";
+          return reply("1", "OK", [{ SourceCode: source }]);
+        }
+        case "verifysourcecode": {
+          this.submissions.push(params);
+          if (this.unindexedCalls > 0) {
+            this.unindexedCalls--;
+            return reply("0", "NOTOK", `Unable to locate ContractCode at ${params.get("contractaddress")}`);
+          }
+          if (this.verifyResult === "Pass - Verified") this.verified.add(params.get("contractaddress")!.toLowerCase());
+          return reply("1", "OK", "guid-1");
+        }
+        case "checkverifystatus":
+          return reply(this.verifyResult.startsWith("Pass") ? "1" : "0", "OK", this.verifyResult);
+        default:
+          return reply("0", "NOTOK", "Unknown action");
+      }
+    });
+  }
+}
+
+describe("Deployment verification", function () {
+  const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, "0")}`);
+  const source: VerificationSource = {
+    contractName: "contracts/TorqueDEX.sol:TorqueDEX",
+    sourceCode: JSON.stringify({ language: "Solidity", sources: {} }),
+    compilerVersion: "v0.8.28+commit.7893614a",
+    abi: ["constructor(address lzEndpoint, address owner)"],
+  };
+  const getSource = async () => source;
+  const target = { slot: "torqueDEX", contract: "TorqueDEX", address: address(1), args: [address(2), address(3)] };
+  let explorer: MockExplorer;
+  let etherscan: Etherscan;
+
+  beforeEach(async function () {
+    explorer = new MockExplorer();
+    etherscan = new Etherscan("test-key", await explorer.start(), "https://explorer.test", undefined);
+  });
+
+  afterEach(async function () {
+    await explorer.stop();
+  });
+
+  it("Should submit the source with the encoded constructor arguments", async function () {
+    const result = await verifyContract(etherscan, target, getSource, { link: addr => `https://explorer.test/address/${addr}#code` });
+
+    expect(result).to.include({ status: "verified", attempts: 1 });
+    expect(result.url).to.equal(`https://explorer.test/address/${address(1)}#code`);
+    expect(explorer.submissions).to.have.length(1);
+    expect(explorer.submissions[0].get("contractname")).to.equal(source.contractName);
+    expect(explorer.submissions[0].get("constructorArguements")).to.equal(
+      ethers.AbiCoder.defaultAbiCoder().encode(["address", "address"], target.args).slice(2)
+    );
+  });
+
+  it("Should detect contracts that are already verified without submitting", async function () {
+    explorer.verified.add(address(1).toLowerCase());
+
+    const result = await verifyContract(etherscan, target, getSource);
+
+    expect(result.status).to.equal("already-verified");
+    expect(explorer.submissions).to.have.length(0);
+  });
+
+  it("Should retry until the explorer has indexed the bytecode", async function () {
+    explorer.unindexedCalls = 2;
+
+    const result = await verifyContract(etherscan, target, getSource, { retryDelayMs: 0 });
+
+    expect(result).to.include({ status: "verified", attempts: 3 });
+  });
+
+  it("Should report rejected, skipped and exhausted contracts", async function () {
+    explorer.verifyResult = "Fail - Unable to verify";
+    const results = await verifyContracts(
+      etherscan,
+      [target, { ...target, slot: "engines.EUR", contract: "TorqueEUREngine", args: undefined }],
+      getSource,
+      { retryDelayMs: 0, logger: QUIET_LOGGER }
+    );
+
+    expect(results.map(result => [result.slot, result.status, result.message])).to.deep.equal([
+      ["torqueDEX", "failed", "Fail - Unable to verify"],
+      ["engines.EUR", "skipped", "constructor arguments unknown"],
+    ]);
+    expect(results[0].attempts).to.equal(1);
+    expect(formatVerificationReport(results)).to.contain("2 contract(s): 1 failed, 1 skipped");
+
+    explorer.unindexedCalls = 5;
+    const exhausted = await verifyContract(etherscan, target, getSource, { attempts: 2, retryDelayMs: 0 });
+    expect(exhausted).to.include({ status: "failed", attempts: 2 });
+    expect(exhausted.message).to.contain("does not have bytecode");
+  });
+
+  describe("Targets", function () {
+    useTempDeploymentsDir();
+
+    it("Should walk the registry with the recorded constructor arguments", async function () {
+      recordContracts(hre.network.name, 31337, [
+        { contract: "torqueDEX", address: address(1), args: [address(2), address(3)] },
+        { contract: "currencies.EUR", address: address(4), args: ["Torque EUR", "TEUR", address(2)] },
+        { contract: "torqueBatchHandler", address: address(5) },
+      ]);
+
+      expect(await getVerificationTargets(hre)).to.deep.equal([
+        { slot: "torqueDEX", contract: "TorqueDEX", address: address(1), args: [address(2), address(3)] },
+        { slot: "currencies.EUR", contract: "TorqueEUR", address: address(4), args: ["Torque EUR", "TEUR", address(2)] },
+        { slot: "torqueBatchHandler", contract: "TorqueBatchHandler", address: address(5), args: undefined },
+      ]);
+    });
+  });
+});
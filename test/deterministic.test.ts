@@ -0,0 +1,114 @@
+import { expect } from "chai";
+import hre, { ethers, ignition } from "hardhat";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import EndpointV2Artifact from "@layerzerolabs/lz-evm-protocol-v2/artifacts/contracts/EndpointV2.sol/EndpointV2.json";
+import { loadDeploymentRecord } from "../config/deployments";
+import {
+  CREATEX_FACTORY,
+  DETERMINISTIC_DEPLOYMENT,
+  getFactorySalt,
+  predictDeterministicAddress,
+} from "../config/deterministic";
+import { validateConfig } from "../config/validate";
+import { getDeployContext, setDeployLogger } from "../scripts/utils/deploy";
+import { QUIET_LOGGER } from "../scripts/utils/logger";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+
+describe("Deterministic deployment", function () {
+  const deployer = ethers.getAddress(`0x${"1".padStart(40, "0")}`);
+  const other = ethers.getAddress(`0x${"2".padStart(40, "0")}`);
+
+  it("Should guard salts by the deployer and keep CREATE3 addresses independent of the init code", async function () {
+    const salt = getFactorySalt(deployer, "torqueDEX:v1");
+    expect(ethers.dataSlice(salt, 0, 20)).to.equal(deployer.toLowerCase());
+    expect(ethers.dataSlice(salt, 20, 21)).to.equal("0x00");
+
+    const predicted = predictDeterministicAddress("create3", CREATEX_FACTORY, deployer, "torqueDEX:v1");
+    expect(predictDeterministicAddress("create3", CREATEX_FACTORY, deployer, "torqueDEX:v1", "0x6000")).to.equal(predicted);
+    expect(predictDeterministicAddress("create3", CREATEX_FACTORY, other, "torqueDEX:v1")).to.not.equal(predicted);
+    expect(predictDeterministicAddress("create3", CREATEX_FACTORY, deployer, "torqueDEX:v2")).to.not.equal(predicted);
+    expect(predictDeterministicAddress("create2", CREATEX_FACTORY, deployer, "torqueDEX:v1", "0x6000")).to.not.equal(
+      predictDeterministicAddress("create2", CREATEX_FACTORY, deployer, "torqueDEX:v1", "0x6001")
+    );
+    expect(() => predictDeterministicAddress("create2", CREATEX_FACTORY, deployer, "torqueDEX:v1")).to.throw(
+      "CREATE2 addresses depend on the init code"
+    );
+  });
+
+  it("Should deploy from the CREATE3 proxy at its first nonce", async function () {
+    const [signer] = await ethers.getSigners();
+    // The proxy CreateX deploys for every CREATE3 deployment, then a contract returning 42
+    const proxyTx = await signer.sendTransaction({ data: "0x67363d3d37363d34f03d5260086018f3" });
+    const proxy = (await proxyTx.wait())!.contractAddress!;
+    await (await signer.sendTransaction({ to: proxy, data: "0x600a600c600039600a6000f3602a60005260206000f3" })).wait();
+
+    const deployed = ethers.getCreateAddress({ from: proxy, nonce: 1 });
+    expect(await ethers.provider.call({ to: deployed })).to.equal(ethers.toBeHex(42, 32));
+  });
+
+  it("Should reject salts for unknown slots, shared salts and contracts owned by msg.sender", async function () {
+    const result = validateConfig({
+      scriptsDir: false,
+      deterministic: {
+        ...DETERMINISTIC_DEPLOYMENT,
+        salts: { torqueDEX: "shared", torqueStake: "shared", torqueFX: "fx", "engines.EUR": "eur", torqueVault: "vault" },
+      },
+    });
+    const messages = Object.fromEntries(
+      result.issues.filter(issue => issue.source.startsWith("deterministic.")).map(issue => [issue.source, issue.message])
+    );
+
+    expect(messages).to.deep.equal({
+      "deterministic.salts.torqueStake": 'salt "shared" is also used by torqueDEX',
+      "deterministic.salts.torqueFX": "TorqueFX makes msg.sender its owner, deployed through the factory it would be owned by the factory",
+      "deterministic.salts.engines.EUR": "TorqueEngine makes msg.sender its owner, deployed through the factory it would be owned by the factory",
+      "deterministic.salts.torqueVault": 'unknown contract slot "torqueVault"',
+    });
+    expect(validateConfig({ scriptsDir: false }).issues.filter(issue => issue.source.startsWith("deterministic."))).to.deep.equal([]);
+  });
+
+  describe("Through CreateX", function () {
+    useTempDeploymentsDir();
+
+    beforeEach(async function () {
+      // Ignition's create2 strategy installs CreateX on the hardhat network with its keyless
+      // transaction, so it sits at the address it has on every chain
+      if ((await ethers.provider.getCode(CREATEX_FACTORY)) === "0x") {
+        const module = buildModule("CreateX", m => ({ token: m.contract("MockERC20", ["CreateX", "CX", 18]) }));
+        await ignition.deploy(module, { strategy: "create2", strategyConfig: { salt: ethers.ZeroHash } });
+      }
+      DETERMINISTIC_DEPLOYMENT.enabled = true;
+      setDeployLogger(QUIET_LOGGER);
+    });
+
+    afterEach(async function () {
+      DETERMINISTIC_DEPLOYMENT.enabled = false;
+      setDeployLogger();
+      await hre.deployments.delete("TorqueBatchHandler");
+    });
+
+    it("Should deploy a salted slot at its predicted address and reuse it on the next run", async function () {
+      const [deployer] = await ethers.getSigners();
+      const endpoint = await new ethers.ContractFactory(EndpointV2Artifact.abi, EndpointV2Artifact.bytecode, deployer)
+        .deploy(30110, deployer.address);
+      const args = [await endpoint.getAddress(), deployer.address];
+      // The deploy modules run against a configured network, arbitrum's registry here
+      const arbitrum = {
+        ...hre,
+        network: { ...hre.network, name: "arbitrum", config: { ...hre.network.config, chainId: 42161 } },
+      } as HardhatRuntimeEnvironment;
+      const { deployContract } = await getDeployContext(arbitrum);
+
+      const predicted = predictDeterministicAddress("create3", CREATEX_FACTORY, deployer.address, DETERMINISTIC_DEPLOYMENT.salts.torqueBatchHandler);
+      const deployed = await deployContract("torqueBatchHandler", "TorqueBatchHandler", args);
+
+      expect(deployed).to.include({ address: predicted, newlyDeployed: true });
+      expect(await (await ethers.getContractAt("TorqueBatchHandler", predicted)).owner()).to.equal(deployer.address);
+      expect(loadDeploymentRecord("arbitrum")!.contracts.torqueBatchHandler.address).to.equal(predicted);
+
+      const reused = await deployContract("torqueBatchHandler", "TorqueBatchHandler", args);
+      expect(reused).to.include({ address: predicted, newlyDeployed: false });
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { Contract, ContractFactory, zeroPadValue } from "ethers";
+import OmniCounterArtifact from "@layerzerolabs/lz-evm-oapp-v2/artifacts/contracts/oapp/examples/OmniCounter.sol/OmniCounter.json";
+import { applyDevnetNetworks, DEVNET, getDeploymentsPath, getDevnetEnv, getEndpointEid } from "../config/devnet";
+import { installLayerZero } from "../scripts/utils/devnet";
+import { LayerZeroRelayer, RelayerOptions } from "../scripts/utils/relayer";
+
+// Two LayerZero chains on the hardhat network, told apart by their endpoints
+const ARBITRUM = { network: "arbitrum", eid: 30110, endpoint: `0x${"a1".repeat(20)}` };
+const BASE = { network: "base", eid: 30184, endpoint: `0x${"b1".repeat(20)}` };
+const FEE = 10n ** 14n;
+const VANILLA = 1;
+
+describe("Local devnet", function () {
+  let arbitrumCounter: Contract;
+  let baseCounter: Contract;
+  let chains: ConstructorParameters<typeof LayerZeroRelayer>[0];
+
+  beforeEach(async function () {
+    const [signer] = await ethers.getSigners();
+    chains = [];
+    const counters: Contract[] = [];
+    for (const [chain, remote] of [[ARBITRUM, BASE], [BASE, ARBITRUM]]) {
+      const { messageLib } = await installLayerZero(ethers.provider, signer, { eid: chain.eid, endpoint: chain.endpoint, remoteEids: [remote.eid], nativeFee: FEE });
+      chains.push({ ...chain, provider: ethers.provider, signer, messageLib: await messageLib.getAddress() });
+
+      const counter = await new ContractFactory(OmniCounterArtifact.abi, OmniCounterArtifact.bytecode, signer).deploy(chain.endpoint, signer.address);
+      counters.push((await counter.waitForDeployment()) as Contract);
+    }
+    [arbitrumCounter, baseCounter] = counters;
+    await arbitrumCounter.setPeer(BASE.eid, zeroPadValue(await baseCounter.getAddress(), 32));
+    await baseCounter.setPeer(ARBITRUM.eid, zeroPadValue(await arbitrumCounter.getAddress(), 32));
+  });
+
+  const relay = async (options: RelayerOptions, messages: number) => {
+    // Polled by hand, from the blocks after the start
+    const relayer = new LayerZeroRelayer(chains, { latencyMs: 0, retryDelayMs: 0, pollIntervalMs: 60_000, ...options });
+    await relayer.start();
+    for (let index = 0; index < messages; index++) {
+      await arbitrumCounter.increment(BASE.eid, VANILLA, "0x", { value: FEE });
+    }
+    await relayer.poll();
+    await relayer.flush();
+    relayer.stop();
+    return relayer;
+  };
+
+  it("Should deliver messages to the peer on the destination chain at the configured fee", async function () {
+    const [quoted] = await arbitrumCounter.quote(BASE.eid, VANILLA, "0x");
+    expect(quoted).to.equal(FEE);
+
+    const relayer = await relay({}, 2);
+
+    expect(relayer.packets.map(packet => [packet.srcEid, packet.dstEid, packet.nonce, packet.status])).to.deep.equal([
+      [ARBITRUM.eid, BASE.eid, 1n, "delivered"],
+      [ARBITRUM.eid, BASE.eid, 2n, "delivered"],
+    ]);
+    expect(await baseCounter.count()).to.equal(2n);
+    expect(await baseCounter.inboundCount(ARBITRUM.eid)).to.equal(2n);
+  });
+
+  it("Should retry injected failures, and leave dropped messages and the ones behind them undelivered", async function () {
+    const draws = (...values: number[]) => () => values.shift() ?? 0.9;
+    // Kept, then the first attempt fails
+    const retried = await relay({ failureRate: 0.5, random: draws(0.9, 0.1) }, 1);
+    expect(retried.packets.map(packet => [packet.status, packet.attempts, packet.error])).to.deep.equal([["delivered", 2, undefined]]);
+    expect(await baseCounter.count()).to.equal(1n);
+
+    // The first is dropped, the second cannot execute before it
+    const dropped = await relay({ dropRate: 0.5, maxAttempts: 2, random: draws(0.1, 0.9) }, 2);
+    expect(dropped.packets.map(packet => [packet.status, packet.attempts])).to.deep.equal([
+      ["dropped", 0],
+      ["failed", 2],
+    ]);
+    expect(await baseCounter.count()).to.equal(1n);
+  });
+
+  it("Should point the devnet networks at their nodes and keep their records apart", function () {
+    const env = getDevnetEnv(["arbitrum", "base"]);
+    expect(env.ARBITRUM_RPC_URL).to.equal(`http://127.0.0.1:${DEVNET.basePort}`);
+    expect(env.BASE_RPC_URL).to.equal(`http://127.0.0.1:${DEVNET.basePort + 1}`);
+    expect(getDeploymentsPath(env)).to.equal(`${DEVNET.dir}/hardhat-deploy`);
+    expect(getDeploymentsPath({})).to.equal("deployments");
+
+    const networks = applyDevnetNetworks({ hardhat: {}, arbitrum: { url: "https://arb1.arbitrum.io/rpc" } }, { ...env, TORQUE_DEVNET_NODE: "arbitrum" });
+    expect(networks.hardhat).to.deep.equal({ chainId: 42161, allowUnlimitedContractSize: true });
+    expect(networks.arbitrum).to.deep.include({ live: false });
+  });
+
+  it("Should run the devnet endpoints at the legacy chain IDs", function () {
+    const env = getDevnetEnv(["arbitrum", "base"]);
+    expect(getEndpointEid("arbitrum", env)).to.equal(42161);
+    expect(getEndpointEid("base", env)).to.equal(8453);
+    expect(getEndpointEid("optimism", env)).to.equal(30111);
+    expect(getEndpointEid("arbitrum", {})).to.equal(30110);
+  });
+});
+
+describe("Local devnet Torque flows", function () {
+  // Endpoints at the eids torque:devnet gives them, the legacy chain IDs
+  const env = getDevnetEnv(["arbitrum", "base"]);
+  const ARBITRUM_DEVNET = { network: "arbitrum", eid: getEndpointEid("arbitrum", env)!, endpoint: `0x${"a2".repeat(20)}` };
+  const BASE_DEVNET = { network: "base", eid: getEndpointEid("base", env)!, endpoint: `0x${"b2".repeat(20)}` };
+
+  it("Should relay a stakeCrossChain from TorqueStake to its peer on the destination chain", async function () {
+    const [owner, user] = await ethers.getSigners();
+    const torq = await (await ethers.getContractFactory("MockERC20")).deploy("Torque", "TORQ", 18);
+    const chains: ConstructorParameters<typeof LayerZeroRelayer>[0] = [];
+    const stakes = [];
+    for (const [chain, remote] of [[ARBITRUM_DEVNET, BASE_DEVNET], [BASE_DEVNET, ARBITRUM_DEVNET]]) {
+      const { messageLib } = await installLayerZero(ethers.provider, owner, { eid: chain.eid, endpoint: chain.endpoint, remoteEids: [remote.eid], nativeFee: DEVNET.relayer.nativeFee });
+      chains.push({ ...chain, provider: ethers.provider, signer: owner, messageLib: await messageLib.getAddress() });
+      stakes.push(await (await ethers.getContractFactory("TorqueStake")).deploy(torq, torq, torq, owner.address, chain.endpoint, owner.address));
+    }
+    const [arbitrumStake, baseStake] = stakes;
+    await arbitrumStake.setStakeAddress(BASE_DEVNET.eid, baseStake);
+    await arbitrumStake.setPeer(BASE_DEVNET.eid, zeroPadValue(await baseStake.getAddress(), 32));
+    await baseStake.setStakeAddress(ARBITRUM_DEVNET.eid, arbitrumStake);
+    await baseStake.setPeer(ARBITRUM_DEVNET.eid, zeroPadValue(await arbitrumStake.getAddress(), 32));
+
+    const amount = ethers.parseEther("100");
+    const lockDuration = 30n * 24n * 60n * 60n;
+    await torq.mint(user.address, amount);
+    await torq.connect(user).approve(arbitrumStake, amount);
+
+    const relayer = new LayerZeroRelayer(chains, { latencyMs: 0, retryDelayMs: 0, pollIntervalMs: 60_000 });
+    await relayer.start();
+    await arbitrumStake.connect(user).stakeCrossChain([BASE_DEVNET.eid], [amount], [lockDuration], [false], ["0x"]);
+    await relayer.poll();
+    await relayer.flush();
+    relayer.stop();
+
+    expect(relayer.packets.map(packet => [packet.srcEid, packet.dstEid, packet.status])).to.deep.equal([
+      [42161, 8453, "delivered"],
+    ]);
+    expect(await torq.balanceOf(arbitrumStake)).to.equal(amount);
+    const staked = await baseStake.torqStakes(user.address);
+    expect(staked.amount).to.equal(amount);
+    expect(staked.lockDuration).to.equal(lockDuration);
+  });
+});
@@ -0,0 +1,55 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { CHAINS } from "../config/chains";
+import {
+  formatAddress,
+  formatTx,
+  getAddressUrl,
+  getBlockUrl,
+  getLayerZeroScanGuidUrl,
+  getLayerZeroScanTxUrl,
+  getTokenUrl,
+  getTxUrl,
+  getVerificationUrl,
+} from "../config/explorers";
+
+describe("Explorer links", function () {
+  const address = ethers.getAddress(`0x${"1".padStart(40, "0")}`);
+  const hash = `0x${"ab".repeat(32)}`;
+
+  it("Should build Etherscan-style links from the chain's explorer", async function () {
+    expect(getTxUrl("arbitrum", hash)).to.equal(`https://arbiscan.io/tx/${hash}`);
+    expect(getAddressUrl("base", address)).to.equal(`https://basescan.org/address/${address}`);
+    expect(getTokenUrl("ethereum", address)).to.equal(`https://etherscan.io/token/${address}`);
+    expect(getBlockUrl("sepolia", 123n)).to.equal("https://sepolia.etherscan.io/block/123");
+    expect(getVerificationUrl("optimism", address)).to.equal(`https://optimistic.etherscan.io/address/${address}#code`);
+  });
+
+  it("Should apply a chain's path overrides and ignore a trailing slash", async function () {
+    const explorer = CHAINS.sonic.blockExplorers;
+    const previous = { ...explorer };
+    explorer.url = "https://explorer.sonic.game/";
+    explorer.paths = { tx: "/transactions/{value}" };
+    try {
+      expect(getTxUrl("sonic", hash)).to.equal(`https://explorer.sonic.game/transactions/${hash}`);
+      expect(getAddressUrl("sonic", address)).to.equal(`https://explorer.sonic.game/address/${address}`);
+    } finally {
+      Object.assign(explorer, previous);
+      delete explorer.paths;
+    }
+  });
+
+  it("Should fall back to the bare value on networks without an explorer", async function () {
+    expect(getTxUrl("hardhat", hash)).to.equal(undefined);
+    expect(formatAddress("hardhat", address)).to.equal(address);
+    expect(formatAddress("arbitrum", address)).to.equal(`${address} (https://arbiscan.io/address/${address})`);
+    expect(formatTx("hardhat", hash)).to.equal(hash);
+    expect(formatTx("arbitrum", undefined)).to.equal("n/a");
+  });
+
+  it("Should send testnet messages to the testnet LayerZeroScan", async function () {
+    expect(getLayerZeroScanTxUrl("arbitrum", hash)).to.equal(`https://layerzeroscan.com/tx/${hash}`);
+    expect(getLayerZeroScanTxUrl("baseSepolia", hash)).to.equal(`https://testnet.layerzeroscan.com/tx/${hash}`);
+    expect(getLayerZeroScanGuidUrl("sepolia", hash)).to.equal(`https://scan-testnet.layerzero-api.com/v1/messages/guid/${hash}`);
+  });
+});
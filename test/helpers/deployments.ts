@@ -0,0 +1,29 @@
+import { mkdtempSync, rmSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+
+/**
+ * Point TORQUE_DEPLOYMENTS_DIR at a fresh temporary directory for every test of the calling
+ * suite, restoring it and removing the directory afterwards. Returns the current directory.
+ */
+export const useTempDeploymentsDir = (prefix = "torque-deployments-"): (() => string) => {
+  let dir: string;
+  let previousDir: string | undefined;
+
+  beforeEach(function () {
+    previousDir = process.env.TORQUE_DEPLOYMENTS_DIR;
+    dir = mkdtempSync(path.join(tmpdir(), prefix));
+    process.env.TORQUE_DEPLOYMENTS_DIR = dir;
+  });
+
+  afterEach(function () {
+    if (previousDir === undefined) {
+      delete process.env.TORQUE_DEPLOYMENTS_DIR;
+    } else {
+      process.env.TORQUE_DEPLOYMENTS_DIR = previousDir;
+    }
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  return () => dir;
+};
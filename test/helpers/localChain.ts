@@ -0,0 +1,38 @@
+import hre from "hardhat";
+import { CHAINS } from "../../config/chains";
+import { getLayerZeroConfig } from "../../config/layerzero";
+import { setDeployLogger } from "../../scripts/utils/deploy";
+import { installCollaterals, installLayerZero, installPriceFeeds } from "../../scripts/utils/devnet";
+import { QUIET_LOGGER } from "../../scripts/utils/logger";
+
+/**
+ * Run the deploy modules of the calling suite on the hardhat network as `chainKey`: the
+ * network reports the chain's ID to them, and its LayerZero endpoint, price feeds and
+ * collaterals are installed at the configured addresses, as `torque:devnet` does. The
+ * modules' output is dropped, and the contracts they save are deleted afterwards.
+ */
+export const useLocalChain = (chainKey = "arbitrum"): void => {
+  let previousChainId: number | undefined;
+
+  beforeEach(async function () {
+    const { artifacts, ethers, network } = hre;
+    const [signer] = await ethers.getSigners();
+    const layerZero = getLayerZeroConfig(chainKey)!;
+    previousChainId = network.config.chainId;
+    network.config.chainId = CHAINS[chainKey].id;
+    setDeployLogger(QUIET_LOGGER);
+
+    await installLayerZero(ethers.provider, signer, { eid: layerZero.eid, endpoint: layerZero.endpoint, remoteEids: [], nativeFee: 0n });
+    await installPriceFeeds(ethers.provider, signer, chainKey, await artifacts.readArtifact("MockPriceFeed"));
+    await installCollaterals(ethers.provider, chainKey, await artifacts.readArtifact("MockERC20"));
+  });
+
+  afterEach(async function () {
+    const { deployments, network } = hre;
+    network.config.chainId = previousChainId;
+    setDeployLogger();
+    for (const name of Object.keys(await deployments.all())) {
+      await deployments.delete(name);
+    }
+  });
+};
@@ -0,0 +1,111 @@
+import { expect } from "chai";
+import hre, { ethers, ignition } from "hardhat";
+import { Contract } from "ethers";
+import { HardhatNetworkConfig } from "hardhat/types";
+import EndpointV2Artifact from "@layerzerolabs/lz-evm-protocol-v2/artifacts/contracts/EndpointV2.sol/EndpointV2.json";
+import { getCollateralAddress } from "../config/collaterals";
+import { CURRENCIES } from "../config/currencies";
+import { loadDeploymentRecord } from "../config/deployments";
+import { buildIgnitionParameters, getEngineModuleId, getIgnitionEngines } from "../config/ignition";
+import { getLayerZeroConfig } from "../config/layerzero";
+import { getPriceFeedAddress } from "../config/priceFeeds";
+import { buildTorqueModule } from "../ignition/modules/Torque";
+import { MAX_CONTRACT_SIZE } from "../scripts/utils/deploy";
+import { getVerificationTargets } from "../scripts/utils/verify";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+import { useLocalChain } from "./helpers/localChain";
+
+describe("Ignition modules", function () {
+  describe("Parameters", function () {
+    it("Should take the endpoint, collateral and engine feeds from the config registries", async function () {
+      const parameters = buildIgnitionParameters("arbitrum");
+      const engines = getIgnitionEngines("arbitrum");
+
+      expect(parameters.$global.lzEndpoint).to.equal(getLayerZeroConfig("arbitrum")!.endpoint);
+      expect(parameters.$global.collateralToken).to.equal("0xaf88d065e77c8cC2239327C5EDb3A432268e5831");
+      expect(Object.keys(parameters).filter(key => key !== "$global")).to.deep.equal(engines.map(getEngineModuleId));
+      expect(engines).to.not.include("NZD");
+    });
+
+    it("Should leave engines without a feed out of the module", async function () {
+      const module = buildTorqueModule(["USD", "EUR"]);
+
+      expect(module.results).to.have.property(CURRENCIES.EUR.engineContract);
+      expect(module.results).to.not.have.property(CURRENCIES.GBP.engineContract);
+      expect(module.results).to.have.property(CURRENCIES.GBP.tokenContract);
+      expect(buildTorqueModule(["EUR", "USD"])).to.equal(module);
+    });
+
+    it("Should reject networks without a LayerZero endpoint", async function () {
+      expect(() => buildIgnitionParameters("hardhat")).to.throw("No LayerZero endpoint configured for hardhat");
+    });
+  });
+
+  describe("Deployment", function () {
+    it("Should deploy the production graph in-process", async function () {
+      const [owner] = await ethers.getSigners();
+      const endpoint = await new ethers.ContractFactory(EndpointV2Artifact.abi, EndpointV2Artifact.bytecode, owner)
+        .deploy(30110, owner.address);
+      const usdc = await (await ethers.getContractFactory("MockERC20")).deploy("USD Coin", "USDC", 6);
+      const feed = await (await ethers.getContractFactory("MockPriceFeed")).deploy();
+
+      const priceFeed = await feed.getAddress();
+      const deployed = await ignition.deploy(buildTorqueModule(["USD", "EUR"]), {
+        parameters: {
+          $global: { lzEndpoint: await endpoint.getAddress(), collateralToken: await usdc.getAddress() },
+          [getEngineModuleId("USD")]: { priceFeed },
+          [getEngineModuleId("EUR")]: { priceFeed },
+        },
+      });
+      // Currency tokens and engines are keyed by contract name
+      const byContract = deployed as unknown as Record<string, Contract>;
+      const { torqueDEX, torqueFX, torqueStake } = deployed;
+
+      expect(await torqueDEX.defaultQuoteAsset()).to.equal(await byContract.TorqueUSD.getAddress());
+      expect(await byContract.TorqueEUREngine.owner()).to.equal(owner.address);
+      expect(await torqueFX.owner()).to.equal(owner.address);
+      expect(await torqueStake.owner()).to.equal(owner.address);
+    });
+  });
+
+  describe("torque:ignition", function () {
+    useTempDeploymentsDir();
+    useLocalChain("arbitrum");
+
+    it("Should record the contracts with the constructor arguments they were deployed with", async function () {
+      const [owner] = await ethers.getSigners();
+      const endpoint = getLayerZeroConfig("arbitrum")!.endpoint;
+      await hre.run("torque:ignition");
+      const { contracts } = loadDeploymentRecord("hardhat")!;
+
+      expect(contracts.torqueDEX.args).to.deep.equal([endpoint, owner.address]);
+      expect(contracts.torqueFX.args).to.deep.equal([contracts.torqueDEX.address, contracts["currencies.USD"].address]);
+      expect(contracts["engines.EUR"].args).to.deep.equal([
+        getCollateralAddress("USDC", "arbitrum"),
+        getPriceFeedAddress("arbitrum", CURRENCIES.EUR.feedPair),
+        contracts["currencies.EUR"].address,
+        endpoint,
+      ]);
+      expect(contracts.torqueRouter.args).to.deep.equal([]);
+
+      const targets = await getVerificationTargets(hre);
+      expect(targets.find(target => target.slot === "torqueFX")!.args).to.deep.equal(contracts.torqueFX.args);
+    });
+
+    it("Should stop before deploying a contract over the EIP-170 limit on a network that enforces it", async function () {
+      const [owner] = await ethers.getSigners();
+      const config = hre.network.config as HardhatNetworkConfig;
+      const nonce = await ethers.provider.getTransactionCount(owner.address);
+      config.allowUnlimitedContractSize = false;
+      try {
+        await expect(hre.run("torque:ignition")).to.be.rejectedWith(
+          new RegExp(`^TorqueDEX is \\d+ bytes, over the ${MAX_CONTRACT_SIZE}-byte EIP-170 limit hardhat enforces`)
+        );
+      } finally {
+        config.allowUnlimitedContractSize = true;
+      }
+      expect(await ethers.provider.getTransactionCount(owner.address)).to.equal(nonce);
+      expect(loadDeploymentRecord("hardhat")).to.be.undefined;
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { CHAINS } from "../config/chains";
+import { CURRENCIES, CURRENCY_LIST, QUOTE_CURRENCY, getPoolCurrencies } from "../config/currencies";
+import { recordContracts } from "../config/deployments";
+import {
+  ChainInvariantReport,
+  checkDeploymentInvariants,
+  formatInvariantMatrix,
+  getFxPairId,
+} from "../config/invariants";
+import { getLayerZeroConfig } from "../config/layerzero";
+import { getPriceFeedAddress } from "../config/priceFeeds";
+import { diffEngineCollateral } from "../scripts/utils/collaterals";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+import { useLocalChain } from "./helpers/localChain";
+
+describe("Deployment invariants", function () {
+  const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, "0")}`);
+  useTempDeploymentsDir();
+
+  it("Should match the pair ID TorqueFX computes", async function () {
+    expect(getFxPairId(address(1), address(2))).to.equal(
+      ethers.keccak256(ethers.concat([address(1), address(2)]))
+    );
+    expect(getFxPairId(address(1), address(2))).to.not.equal(getFxPairId(address(2), address(1)));
+  });
+
+  it("Should fail checks for missing and unreadable contracts", async function () {
+    recordContracts("arbitrum", 42161, [
+      { contract: "torqueDEX", address: address(1) },
+      { contract: "currencies.USD", address: address(2) },
+    ], { deployer: address(3) });
+
+    const report = await checkDeploymentInvariants("arbitrum", ethers.provider);
+    const byId = Object.fromEntries(report.checks.map(check => [check.id, check]));
+
+    expect(report.passed).to.equal(false);
+    expect(byId["dex.defaultQuoteAsset"].status).to.equal("fail");
+    expect(byId["dex.defaultQuoteAsset"].message).to.match(/^read failed/);
+    expect(byId["dex.pool.EUR"].message).to.equal("currencies.EUR not recorded");
+    expect(byId["engine.EUR.priceFeed"]).to.include({ status: "skip", message: "engine not deployed" });
+    expect(byId["owner.torqueDEX"].status).to.equal("fail");
+    expect(byId["owner.currencies.USD"].message).to.match(/^read failed/);
+  });
+
+  describe("Linked by the deploy modules", function () {
+    useLocalChain("arbitrum");
+
+    it("Should pass a deployment the Link tag wired", async function () {
+      const { deployments } = hre;
+      await deployments.fixture(["Link"]);
+      const addressOf = async (name: string) => (await deployments.get(name)).address;
+      const torqueUSD = await addressOf(CURRENCIES[QUOTE_CURRENCY].tokenContract);
+      const torqueDEX = await ethers.getContractAt("TorqueDEX", await addressOf("TorqueDEX"));
+      const torqueBatchHandler = await ethers.getContractAt("TorqueBatchHandler", await addressOf("TorqueBatchHandler"));
+      const torqueFX = await ethers.getContractAt("TorqueFX", await addressOf("TorqueFX"));
+      const torqueLP = await ethers.getContractAt("TorqueLP", await addressOf("TorqueLP"));
+
+      expect(await torqueLP.dex()).to.equal(await torqueDEX.getAddress());
+      for (const currency of getPoolCurrencies()) {
+        const token = await addressOf(currency.tokenContract);
+        const pairId = getFxPairId(token, torqueUSD);
+        expect(await torqueDEX.hasPool(token, torqueUSD)).to.equal(true);
+        expect(await torqueBatchHandler.supportedCurrencies(token)).to.equal(true);
+        expect(await torqueFX.dexPools(pairId)).to.equal(await torqueDEX.getAddress());
+        // Feeds are looked up for arbitrum, not the hardhat network the modules ran on
+        expect(await torqueFX.priceFeeds(pairId)).to.equal(getPriceFeedAddress("arbitrum", currency.feedPair) ?? ethers.ZeroAddress);
+
+      }
+      for (const currency of CURRENCY_LIST) {
+        const engine = await deployments.getOrNull(currency.engineContract);
+        if (!engine) continue;
+        const token = await addressOf(currency.tokenContract);
+        expect(await torqueBatchHandler.engineAddresses(token, getLayerZeroConfig("arbitrum")!.legacyChainId!)).to.equal(engine.address);
+        // Collateral is added by scripts/03_add_collateral_tokens.ts, not a deploy module
+        const engineContract = await ethers.getContractAt(currency.engineContract, engine.address);
+        for (const change of diffEngineCollateral("arbitrum", currency.code, [])) {
+          await engineContract.addCollateralToken(...change.args!);
+        }
+      }
+
+      const report = await checkDeploymentInvariants("hardhat", ethers.provider);
+      const byId = Object.fromEntries(report.checks.map(check => [check.id, check]));
+
+      expect(report.checks.filter(check => check.status === "fail")).to.deep.equal([]);
+      expect(report.passed).to.equal(true);
+      expect(byId["batchHandler.engine.USD"].status).to.equal("pass");
+      expect(byId["batchHandler.engine.EUR"].status).to.equal("pass");
+      expect(byId["engine.EUR.collateral"].status).to.equal("pass");
+      expect(byId["fx.priceFeed.EUR"].status).to.equal("pass");
+      expect(byId["owner.engines.EUR"].status).to.equal("pass");
+    });
+  });
+
+  it("Should skip the TorqueBatchHandler engine check on networks without a legacy chain ID", async function () {
+    recordContracts("sepolia", CHAINS.sepolia.id, [
+      { contract: "torqueBatchHandler", address: address(1) },
+      { contract: "currencies.EUR", address: address(2) },
+      { contract: "engines.EUR", address: address(3) },
+    ]);
+
+    const report = await checkDeploymentInvariants("sepolia", ethers.provider);
+    const engineCheck = report.checks.find(check => check.id === "batchHandler.engine.EUR");
+
+    expect(engineCheck).to.deep.equal({
+      id: "batchHandler.engine.EUR",
+      status: "skip",
+      message: "no legacy chain ID, TorqueBatchHandler does not map engines on sepolia",
+    });
+  });
+
+  it("Should reject networks without a recorded deployment", async function () {
+    await checkDeploymentInvariants("arbitrum", ethers.provider).then(
+      () => expect.fail("expected a rejection"),
+      error => expect(error.message).to.equal("No deployment recorded for arbitrum")
+    );
+  });
+
+  it("Should format a matrix with one column per chain and the failures", async function () {
+    const reports: ChainInvariantReport[] = [
+      {
+        network: "arbitrum",
+        chainId: 42161,
+        passed: true,
+        checks: [
+          { id: "dex.defaultQuoteAsset", status: "pass" },
+          { id: "fx.priceFeed.NZD", status: "skip", message: "no NZD/USD price feed" },
+        ],
+      },
+      {
+        network: "base",
+        chainId: 8453,
+        passed: false,
+        checks: [{ id: "dex.defaultQuoteAsset", status: "fail", expected: address(1), actual: address(2) }],
+      },
+    ];
+
+    const matrix = formatInvariantMatrix(reports);
+    const lines = matrix.split("\n");
+
+    expect(lines[0]).to.match(/^Check\s+arbitrum\s+base$/);
+    expect(lines[1]).to.match(/^dex\.defaultQuoteAsset\s+✅\s+❌$/);
+    expect(lines[2]).to.match(/^fx\.priceFeed\.NZD\s+➖$/);
+    expect(matrix).to.contain("❌ base: 0 of 1 checks passed or skipped");
+    expect(matrix).to.contain(`base dex.defaultQuoteAsset: expected ${address(1)}, got ${address(2)}`);
+  });
+});
@@ -0,0 +1,48 @@
+import { expect } from "chai";
+import { CHAINS } from "../config/chains";
+import {
+  LAYERZERO,
+  getEidForChainId,
+  getEndpointForChainId,
+  getLegacyChainId,
+  getNetworkByEndpointId,
+  getNetworkByLegacyChainId,
+} from "../config/layerzero";
+
+describe("LayerZero endpoints", function () {
+  it("Should keep one entry per chain, shared with CHAINS", async function () {
+    expect(Object.keys(LAYERZERO)).to.have.members(Object.keys(CHAINS));
+    for (const [network, config] of Object.entries(LAYERZERO)) {
+      expect(config.chainId, network).to.equal(CHAINS[network].id);
+      expect(CHAINS[network].layerZero, network).to.equal(config);
+    }
+  });
+
+  it("Should address peers by EID and the legacy contracts by their uint16 chain ID", async function () {
+    expect(getEidForChainId(42161)).to.equal(30110);
+    expect(getLegacyChainId("arbitrum")).to.equal(42161);
+    expect(getNetworkByEndpointId(30110)).to.equal("arbitrum");
+    // v1 endpoint IDs still resolve for older tooling
+    expect(getNetworkByEndpointId(110)).to.equal("arbitrum");
+    expect(getNetworkByLegacyChainId(42161)).to.equal("arbitrum");
+    expect(getNetworkByLegacyChainId(30110)).to.equal(undefined);
+
+    for (const [network, config] of Object.entries(LAYERZERO)) {
+      if (config.legacyChainId === undefined) continue;
+      expect(config.legacyChainId, network).to.be.below(2 ** 16).and.not.equal(config.eid);
+    }
+  });
+
+  it("Should leave testnets without a legacy chain ID, as theirs do not fit in uint16", async function () {
+    expect(getEidForChainId(11155111)).to.equal(40161);
+    expect(() => getLegacyChainId("sepolia")).to.throw("No legacy uint16 chain ID configured for sepolia");
+    expect(() => getLegacyChainId("hardhat")).to.throw("No legacy uint16 chain ID configured for hardhat");
+  });
+
+  it("Should resolve the EndpointV2 of each chain, including the ones off the shared address", async function () {
+    expect(getEndpointForChainId(42161)).to.equal(getEndpointForChainId(8453));
+    expect(getEndpointForChainId(146)).to.equal("0x6F475642a6e85809B1c36Fa62763669b1b48DD5B");
+    expect(getEndpointForChainId(11155111)).to.not.equal(getEndpointForChainId(42161));
+    expect(() => getEndpointForChainId(31337)).to.throw("LayerZero endpoint not found for chain ID 31337");
+  });
+});
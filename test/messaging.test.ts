@@ -0,0 +1,78 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import EndpointV2Artifact from "@layerzerolabs/lz-evm-protocol-v2/artifacts/contracts/EndpointV2.sol/EndpointV2.json";
+import { recordContracts } from "../config/deployments";
+import {
+  LAYERZERO_PROTOCOL,
+  checkMessagingConfig,
+  encodeLzReceiveOption,
+  generateOAppPathways,
+  getMessageOptions,
+  toOAppOmniGraph,
+} from "../config/messaging";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+
+describe("LayerZero messaging config", function () {
+  const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, "0")}`);
+  useTempDeploymentsDir();
+
+  it("Should encode options as the LayerZero Options builder does", async function () {
+    // Options.newOptions().addExecutorLzReceiveOption(200000, 0).toHex()
+    expect(encodeLzReceiveOption(200000)).to.equal("0x00030100110100000000000000000000000000030d40");
+    expect(getMessageOptions("torqueDEX", "liquidityAdd")).to.equal(encodeLzReceiveOption(400000));
+    expect(() => getMessageOptions("torqueDEX", "stake")).to.throw("No stake message configured for torqueDEX");
+  });
+
+  it("Should generate both directions of every recorded OApp with the source chain's confirmations", async function () {
+    recordContracts("arbitrum", 42161, [
+      { contract: "torqueDEX", address: address(1) },
+      { contract: "currencies.EUR", address: address(2) },
+    ]);
+    recordContracts("polygon", 137, [
+      { contract: "torqueDEX", address: address(3) },
+      { contract: "currencies.EUR", address: address(4) },
+      { contract: "torqueStake", address: address(5) },
+    ]);
+
+    const pathways = generateOAppPathways(["arbitrum", "polygon"]);
+    expect(pathways.map(pathway => `${pathway.slot} ${pathway.from}->${pathway.to}`)).to.deep.equal([
+      "torqueDEX arbitrum->polygon",
+      "torqueDEX polygon->arbitrum",
+      "currencies.EUR arbitrum->polygon",
+      "currencies.EUR polygon->arbitrum",
+    ]);
+
+    const [dex, , eur] = pathways;
+    const arbitrumDVNs = Object.values(LAYERZERO_PROTOCOL.arbitrum.dvns).sort((a, b) => (BigInt(a) < BigInt(b) ? -1 : 1));
+    expect(dex).to.include({ fromEid: 30110, toEid: 30109, address: address(1), peer: address(3) });
+    expect(dex.config.sendLibrary).to.equal(LAYERZERO_PROTOCOL.arbitrum.sendLibrary);
+    expect(dex.config.sendConfig?.ulnConfig).to.deep.include({ confirmations: 20n, requiredDVNs: arbitrumDVNs });
+    expect(dex.config.receiveConfig?.ulnConfig).to.deep.include({ confirmations: 512n, requiredDVNs: arbitrumDVNs });
+    expect(dex.config.enforcedOptions).to.equal(undefined);
+    expect(eur.config.enforcedOptions?.map(option => option.msgType)).to.deep.equal([1, 2]);
+
+    const graph = toOAppOmniGraph(pathways);
+    expect(graph.contracts).to.have.length(4);
+    expect(graph.connections[0].vector).to.deep.equal({
+      from: { eid: 30110, address: address(1) },
+      to: { eid: 30109, address: address(3) },
+    });
+  });
+
+  it("Should fail the checks an endpoint without libraries cannot answer", async function () {
+    const [deployer] = await ethers.getSigners();
+    const endpoint = await new ethers.ContractFactory(EndpointV2Artifact.abi, EndpointV2Artifact.bytecode, deployer)
+      .deploy(30110, deployer.address);
+    recordContracts("arbitrum", 42161, [{ contract: "torqueDEX", address: address(1) }]);
+    recordContracts("base", 8453, [{ contract: "torqueDEX", address: address(2) }]);
+
+    const pathways = generateOAppPathways(["arbitrum", "base"]);
+    const report = await checkMessagingConfig("arbitrum", ethers.provider, pathways, { endpoint: await endpoint.getAddress() });
+    const byId = Object.fromEntries(report.checks.map(check => [check.id, check]));
+
+    expect(report.passed).to.equal(false);
+    expect(byId["torqueDEX.base.sendLibrary"].message).to.match(/^read failed/);
+    expect(byId["torqueDEX.base.options.liquidityAdd"]).to.include({ status: "skip" });
+    expect(Object.keys(byId)).to.not.include("torqueDEX.arbitrum.sendLibrary");
+  });
+});
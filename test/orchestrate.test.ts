@@ -0,0 +1,46 @@
+import { expect } from "chai";
+import { readFileSync } from "fs";
+import path from "path";
+import { recordContracts } from "../config/deployments";
+import { QUIET_LOGGER } from "../scripts/utils/logger";
+import { ChainCommand, formatOrchestrationSummary, getChainCommand, runInParallel, toChainRun } from "../scripts/utils/orchestrate";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+
+describe("Multi-chain orchestration", function () {
+  const deploymentsDir = useTempDeploymentsDir("torque-orchestrate-");
+
+  it("Should run every chain to completion when one fails and log each separately", async function () {
+    const node = (label: string, script: string): ChainCommand => ({ label, command: process.execPath, args: ["-e", script] });
+    const results = await runInParallel(
+      [
+        node("sepolia", "console.log('deployed sepolia')"),
+        node("baseSepolia", "console.error('out of gas'); process.exit(3)"),
+        node("arbitrumSepolia", "setTimeout(() => console.log('deployed arbitrumSepolia'), 200)"),
+      ],
+      command => path.join(deploymentsDir(), "logs", `${command.label}-deploy.log`),
+      2,
+      QUIET_LOGGER
+    );
+
+    expect(results.map(result => [result.label, result.exitCode])).to.deep.equal([
+      ["sepolia", 0],
+      ["baseSepolia", 3],
+      ["arbitrumSepolia", 0],
+    ]);
+    expect(readFileSync(results[1].log, "utf8")).to.equal("out of gas\n");
+    expect(readFileSync(results[2].log, "utf8")).to.equal("deployed arbitrumSepolia\n");
+    expect(getChainCommand("link", "sepolia").args).to.deep.equal(["hardhat", "deploy", "--tags", "Link", "--no-compile", "--network", "sepolia"]);
+
+    recordContracts("sepolia", 11155111, [{ contract: "torqueDEX", address: `0x${"1".padStart(40, "0")}` }]);
+    const runs = [
+      ...results.map(result => toChainRun(result.label, "deploy", result)),
+      { network: "baseSepolia", phase: "peers" as const, status: "skipped" as const, message: "failed an earlier phase" },
+    ];
+    const summary = formatOrchestrationSummary(runs, ["sepolia", "baseSepolia", "arbitrumSepolia"], ["deploy", "peers"]);
+
+    expect(summary.split("\n")[1]).to.match(/^sepolia\s+✅\s+v\d+, 1 contract\(s\)$/);
+    expect(summary).to.contain("2/3 chain(s) succeeded: sepolia, arbitrumSepolia");
+    expect(summary).to.contain(`❌ baseSepolia deploy: exit 3, see ${results[1].log}`);
+    expect(summary).to.contain("➖ baseSepolia peers: failed an earlier phase");
+  });
+});
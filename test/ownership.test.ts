@@ -0,0 +1,96 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import EndpointV2Artifact from "@layerzerolabs/lz-evm-protocol-v2/artifacts/contracts/EndpointV2.sol/EndpointV2.json";
+import { getContractHistory, recordContracts } from "../config/deployments";
+import {
+  OWNABLE_ABI,
+  OwnableState,
+  executeOwnershipSteps,
+  formatOwnershipReport,
+  isOwnershipHandedOver,
+  planOwnershipHandoff,
+  readOwnableStates,
+} from "../scripts/utils/ownership";
+import { QUIET_LOGGER } from "../scripts/utils/logger";
+import { buildSafeBatch } from "../scripts/utils/safe";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+
+describe("Ownership handoff", function () {
+  const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, "0")}`);
+  const safe = address(0x5afe);
+  useTempDeploymentsDir();
+
+  it("Should transfer the contracts the deployer owns and verify the result", async function () {
+    const [deployer, other] = await ethers.getSigners();
+    // EndpointV2 is a plain Ownable with a prebuilt artifact
+    const factory = new ethers.ContractFactory(EndpointV2Artifact.abi, EndpointV2Artifact.bytecode, deployer);
+    const owned = await factory.deploy(30110, deployer.address);
+    const foreign = await factory.deploy(30111, other.address);
+    recordContracts(hre.network.name, 31337, [
+      { contract: "torqueRouter", address: await owned.getAddress() },
+      { contract: "torqueFX", address: await foreign.getAddress() },
+      { contract: "torqueDEX", address: address(1) },
+    ]);
+
+    const states = await readOwnableStates(hre.network.name, ethers.provider, { safe, signer: deployer.address });
+    const bySlot = Object.fromEntries(states.map(state => [state.slot, state]));
+    expect(states.map(state => state.slot)).to.include.members(["torque", "engines.EUR", "currencies.USD"]);
+    expect(bySlot.torqueRouter).to.include({ status: "transferable", twoStep: false, endpoint: undefined });
+    expect(bySlot.torqueFX.status).to.equal("foreign");
+    expect(bySlot.torqueDEX).to.include({ status: "missing", message: "no code at address" });
+    expect(bySlot["engines.EUR"]).to.include({ status: "missing", message: "not recorded" });
+
+    const plan = planOwnershipHandoff(states, safe);
+    expect(plan.steps.map(step => [step.slot, step.method])).to.deep.equal([["torqueRouter", "transferOwnership"]]);
+    expect(plan.blocked.map(state => state.slot)).to.deep.equal(["torqueFX"]);
+    expect(plan.safeTransactions).to.have.length(0);
+
+    await executeOwnershipSteps(hre.network.name, 31337, deployer, plan.steps, QUIET_LOGGER);
+
+    const after = await readOwnableStates(hre.network.name, ethers.provider, { safe, signer: deployer.address });
+    expect(await owned.getFunction("owner")()).to.equal(safe);
+    expect(after.find(state => state.slot === "torqueRouter")!.status).to.equal("handed-over");
+    expect(getContractHistory(hre.network.name, "torqueRouter").map(entry => entry.action)).to.deep.equal(["deploy", "ownership"]);
+    expect(isOwnershipHandedOver(after, safe)).to.equal(false);
+    expect(formatOwnershipReport(after, safe)).to.contain(`Safe ${safe}: 1 handed-over, 1 foreign`);
+  });
+
+  it("Should hand two-step contracts and LayerZero delegates to the Safe batch", async function () {
+    const deployer = address(0xde);
+    const state = (slot: string, n: number, fields: Partial<OwnableState>): OwnableState => ({
+      slot,
+      contract: slot,
+      address: address(n),
+      status: "transferable",
+      owner: deployer,
+      twoStep: false,
+      ...fields,
+    });
+    const states = [
+      state("torqueDEX", 1, { endpoint: address(0xe), delegate: deployer }),
+      state("torqueStake", 2, { twoStep: true, pendingOwner: ethers.ZeroAddress }),
+      state("torqueBatchHandler", 3, { status: "handed-over", owner: safe, endpoint: address(0xe), delegate: deployer }),
+      state("torqueLP", 4, { status: "awaiting-acceptance", twoStep: true, pendingOwner: safe }),
+    ];
+
+    const plan = planOwnershipHandoff(states, safe);
+    const ownable = new ethers.Interface(OWNABLE_ABI);
+
+    expect(plan.steps.map(step => `${step.slot}.${step.method}`)).to.deep.equal([
+      "torqueDEX.setDelegate",
+      "torqueDEX.transferOwnership",
+      "torqueStake.transferOwnership",
+    ]);
+    expect(plan.safeTransactions.map(tx => [tx.to, tx.contractMethod.name])).to.deep.equal([
+      [address(2), "acceptOwnership"],
+      [address(3), "setDelegate"],
+      [address(4), "acceptOwnership"],
+    ]);
+    expect(plan.safeTransactions[1].data).to.equal(ownable.encodeFunctionData("setDelegate", [safe]));
+    expect(plan.safeTransactions[1].contractInputsValues).to.deep.equal({ delegate: safe });
+
+    const batch = buildSafeBatch({ chainId: 42161, safe, name: "Ownership", transactions: plan.safeTransactions });
+    expect(batch).to.include({ version: "1.0", chainId: "42161" });
+    expect(batch.meta.createdFromSafeAddress).to.equal(safe);
+  });
+});
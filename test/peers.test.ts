@@ -0,0 +1,102 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { recordContracts } from "../config/deployments";
+import { QUIET_LOGGER } from "../scripts/utils/logger";
+import { formatPeerMatrix, getPeerChain, PeerLink, readPeerMesh, toPeer, wirePeers } from "../scripts/utils/peers";
+import { useTempDeploymentsDir } from "./helpers/deployments";
+
+describe("LayerZero peers", function () {
+  useTempDeploymentsDir();
+
+  // One chain's OApps against its own MockLayerZeroEndpoint, recorded under `network`
+  const deployChain = async (network: string) => {
+    const [deployer] = await ethers.getSigners();
+    const endpoint = await (await ethers.getContractFactory("MockLayerZeroEndpoint")).deploy();
+    const endpointAddress = await endpoint.getAddress();
+    const dex = await (await ethers.getContractFactory("TorqueDEX")).deploy(endpointAddress, deployer.address);
+    const batchHandler = await (await ethers.getContractFactory("TorqueBatchHandler")).deploy(endpointAddress, deployer.address);
+    const eur = await (await ethers.getContractFactory("TorqueEUR")).deploy("Torque EUR", "TEUR", endpointAddress);
+
+    recordContracts(network, 31337, [
+      { contract: "torqueDEX", address: await dex.getAddress() },
+      { contract: "torqueBatchHandler", address: await batchHandler.getAddress() },
+      { contract: "currencies.EUR", address: await eur.getAddress() },
+    ]);
+    return { dex, batchHandler, eur };
+  };
+
+  it("Should wire two local deployments both ways and skip peers already set", async function () {
+    const [deployer] = await ethers.getSigners();
+    const arbitrum = await deployChain("arbitrum");
+    const base = await deployChain("base");
+    // Endpoints using the legacy chain IDs as eids, as on the devnet, route every OApp
+    const chains = [
+      getPeerChain("arbitrum", ethers.provider, deployer, 42161),
+      getPeerChain("base", ethers.provider, deployer, 8453),
+    ];
+
+    const before = await readPeerMesh(chains);
+    expect(before.filter(link => link.status === "unset")).to.have.length(6);
+    expect(before.find(link => link.slot === "currencies.USD")).to.include({ status: "missing" });
+
+    const sentCalls: string[] = [];
+    const logger = { ...QUIET_LOGGER, info: (message: string) => sentCalls.push(message) };
+    await wirePeers(chains, before, { logger });
+    expect(sentCalls).to.have.length(6);
+    expect(sentCalls).to.include(`✅ arbitrum: torqueDEX.setPeer(base 8453, ${await base.dex.getAddress()})`);
+
+    expect(await arbitrum.dex.peers(8453)).to.equal(toPeer(await base.dex.getAddress()));
+    expect(await base.eur.peers(42161)).to.equal(toPeer(await arbitrum.eur.getAddress()));
+    expect(await base.batchHandler.peers(42161)).to.equal(toPeer(await arbitrum.batchHandler.getAddress()));
+
+    const after = await readPeerMesh(chains);
+    const wired = after.filter(link => link.status !== "missing");
+    expect(wired.map(link => link.status)).to.deep.equal(Array(6).fill("ok"));
+
+    const sent = await ethers.provider.getBlockNumber();
+    await wirePeers(chains, after, { logger });
+    expect(await ethers.provider.getBlockNumber()).to.equal(sent);
+    expect(sentCalls).to.have.length(6);
+  });
+
+  it("Should report the legacy chain ID contracts as unsupported between v2 eids", async function () {
+    const [deployer] = await ethers.getSigners();
+    const arbitrum = await deployChain("arbitrum");
+    await deployChain("base");
+    const chains = [
+      getPeerChain("arbitrum", ethers.provider, deployer, 30110),
+      getPeerChain("base", ethers.provider, deployer, 30184),
+    ];
+
+    const links = await wirePeers(chains, await readPeerMesh(chains), { logger: QUIET_LOGGER });
+    const statuses = (slot: string) => links.filter(link => link.slot === slot).map(link => link.status);
+
+    expect(statuses("torqueDEX")).to.deep.equal(["unsupported", "unsupported"]);
+    expect(statuses("torqueBatchHandler")).to.deep.equal(["unsupported", "unsupported"]);
+    expect(statuses("currencies.EUR")).to.deep.equal(["set", "set"]);
+    expect(links.find(link => link.slot === "torqueDEX")!.message).to.equal("sends to legacy chain ID 8453, the endpoint routes eid 30184");
+    expect(BigInt(await arbitrum.dex.peers(30184))).to.equal(0n);
+
+    const matrix = formatPeerMatrix(links, ["arbitrum", "base"]);
+    expect(matrix.split("\n")[1]).to.match(/^arbitrum\s+·\s+🔗$/);
+    expect(matrix).to.contain("🚫 Not wired, they address chains by legacy chain IDs the endpoints do not route: torqueDEX, torqueBatchHandler");
+  });
+
+  it("Should render the mesh as a network by network matrix", async function () {
+    const link = (slot: string, from: string, to: string, status: PeerLink["status"]): PeerLink => ({ slot, from, to, status });
+    const matrix = formatPeerMatrix([
+      link("torqueDEX", "arbitrum", "base", "ok"),
+      link("torqueDEX", "base", "arbitrum", "unset"),
+      link("currencies.EUR", "arbitrum", "base", "set"),
+      link("currencies.EUR", "base", "arbitrum", "wrong"),
+      link("torqueStake", "arbitrum", "base", "missing"),
+    ], ["arbitrum", "base"]);
+    const lines = matrix.split("\n");
+
+    expect(lines[0]).to.match(/^from \\ to\s+arbitrum\s+base$/);
+    expect(lines[1]).to.match(/^arbitrum\s+·\s+🔗$/);
+    expect(lines[2]).to.match(/^base\s+❌ 2\s+·$/);
+    expect(matrix).to.contain("5 peer link(s): 1 ok, 1 set, 1 unset, 1 wrong, 1 missing");
+    expect(matrix).to.contain("torqueDEX base -> arbitrum: unset");
+  });
+});
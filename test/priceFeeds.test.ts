@@ -0,0 +1,77 @@
+import { expect } from "chai";
+import {
+  COLLATERALS,
+  LIQUIDATION_THRESHOLD_STABLECOIN,
+  LIQUIDATION_THRESHOLD_VOLATILE,
+  getCollateralPriceFeed,
+} from "../config/collaterals";
+import {
+  ORACLE_LIB_TIMEOUT,
+  PRICE_FEEDS,
+  getPriceFeed,
+  getPriceFeedByChainId,
+  getPriceFeedsForPair,
+  getStalenessTimeout,
+  isOracleLibCompatible,
+  isPriceStale,
+  normalizePair,
+} from "../config/priceFeeds";
+
+describe("Price feed registry", function () {
+  const eur = PRICE_FEEDS.arbitrum.EUR_USD;
+  const eth = PRICE_FEEDS.arbitrum.ETH_USD;
+
+  it("Should look feeds up by network or chain ID under any spelling of the pair", async function () {
+    expect(normalizePair(" eur/usd ")).to.equal("EUR_USD");
+    expect(normalizePair("cbEth-eth")).to.equal("CBETH_ETH");
+    expect(getPriceFeed("arbitrum", "EUR/USD")).to.equal(eur);
+    expect(getPriceFeedByChainId(42161, "eur_usd")).to.equal(eur);
+    expect(getPriceFeedByChainId(1, "EUR_USD")?.network).to.equal("ethereum");
+    expect(getPriceFeedByChainId(31337, "EUR_USD")).to.equal(undefined);
+    expect(eur).to.include({ network: "arbitrum", pair: "EUR_USD", base: "EUR", quote: "USD", decimals: 8 });
+    expect(Object.keys(getPriceFeedsForPair("XAU/USD"))).to.include.members(["ethereum", "arbitrum", "sepolia"]);
+  });
+
+  it("Should give collaterals the feeds of the networks they have a token on", async function () {
+    for (const collateral of Object.values(COLLATERALS)) {
+      const expected = Object.fromEntries(
+        Object.entries(getPriceFeedsForPair(collateral.feedPair))
+          .filter(([network]) => collateral.addresses[network])
+          .map(([network, feed]) => [network, feed.address])
+      );
+      expect(collateral.priceFeeds, collateral.symbol).to.deep.equal(expected);
+    }
+
+    // USDC has a sepolia token but no USDC/USD feed there
+    expect(COLLATERALS.USDC.addresses.sepolia).to.not.equal(undefined);
+    expect(getCollateralPriceFeed("usdc", "sepolia")).to.equal(undefined);
+    expect(getCollateralPriceFeed("usdc", "arbitrum")).to.equal(PRICE_FEEDS.arbitrum.USDC_USD.address);
+  });
+
+  it("Should convert ETH-quoted feeds and price stablecoins at the stablecoin threshold", async function () {
+    for (const collateral of Object.values(COLLATERALS)) {
+      const stable = collateral.category === "stable";
+      expect(collateral, collateral.symbol).to.include({
+        needsEthConversion: collateral.feedPair.endsWith("_ETH"),
+        isVolatile: !stable,
+        liquidationThreshold: stable ? LIQUIDATION_THRESHOLD_STABLECOIN : LIQUIDATION_THRESHOLD_VOLATILE,
+      });
+    }
+  });
+
+  it("Should treat answers as stale after the heartbeat or the OracleLib timeout, whichever is sooner", async function () {
+    const now = 1_000_000;
+
+    expect(getStalenessTimeout(eth)).to.equal(eth.heartbeat);
+    expect(getStalenessTimeout(eur)).to.equal(ORACLE_LIB_TIMEOUT);
+    expect(isOracleLibCompatible(eth)).to.equal(true);
+    expect(isOracleLibCompatible(eur)).to.equal(false);
+
+    expect(isPriceStale(eth, now - eth.heartbeat, now)).to.equal(false);
+    expect(isPriceStale(eth, now - eth.heartbeat - 1, now)).to.equal(true);
+    expect(isPriceStale(eur, now - ORACLE_LIB_TIMEOUT, now)).to.equal(false);
+    expect(isPriceStale(eur, now - ORACLE_LIB_TIMEOUT - 1, now)).to.equal(true);
+    // A round that never completed
+    expect(isPriceStale(eur, 0, now)).to.equal(true);
+  });
+});
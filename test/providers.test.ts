@@ -0,0 +1,191 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { createServer, Server } from "http";
+import { AddressInfo } from "net";
+import { TASK_NODE_CREATE_SERVER } from "hardhat/builtin-tasks/task-names";
+import { FallbackProvider } from "ethers";
+import { CHAINS, ChainConfig } from "../config/chains";
+import { closeNetworkProviders, createChainProvider, getNetworkProvider, getNetworkRpcUrls, getRpcHealth } from "../config/providers";
+
+interface LocalNode {
+  url: string;
+  close: () => Promise<void>;
+}
+
+describe("RPC providers", function () {
+  let nodes: LocalNode[];
+  let chain: ChainConfig;
+  let provider: FallbackProvider | undefined;
+
+  // A JSON-RPC server in front of the in-process hardhat network, as `hardhat node` runs it
+  const startNode = async (): Promise<LocalNode> => {
+    const server = await hre.run(TASK_NODE_CREATE_SERVER, {
+      hostname: "127.0.0.1",
+      port: 0,
+      provider: hre.network.provider,
+    });
+    const { port } = await server.listen();
+    let closed = false;
+    return {
+      url: `http://127.0.0.1:${port}`,
+      close: async () => {
+        if (closed) return;
+        closed = true;
+        await server.close();
+      },
+    };
+  };
+
+  // An endpoint that accepts requests and never answers
+  const startHangingNode = async (): Promise<LocalNode> => {
+    const server: Server = createServer(() => {});
+    await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+    const { port } = server.address() as AddressInfo;
+    return {
+      url: `http://127.0.0.1:${port}`,
+      close: async () => {
+        server.closeAllConnections();
+        await new Promise(resolve => server.close(resolve));
+      },
+    };
+  };
+
+  const chainFor = (urls: string[], webSocket?: string[]): ChainConfig => ({
+    ...CHAINS.ethereum,
+    id: hre.network.config.chainId!,
+    rpcUrls: { http: urls, webSocket },
+  });
+
+  beforeEach(async function () {
+    nodes = [await startNode(), await startNode(), await startNode()];
+    chain = chainFor(nodes.map(node => node.url));
+  });
+
+  afterEach(async function () {
+    await provider?.destroy();
+    provider = undefined;
+    await Promise.all(nodes.map(node => node.close()));
+  });
+
+  describe("Factory", function () {
+    it("Should create one endpoint per URL in priority order", async function () {
+      provider = createChainProvider(chain);
+
+      const health = getRpcHealth(provider);
+      expect(health.map(endpoint => endpoint.url)).to.deep.equal(nodes.map(node => node.url));
+      expect(health.map(endpoint => endpoint.priority)).to.deep.equal([1, 2, 3]);
+    });
+
+    it("Should add WebSocket endpoints after HTTP endpoints", async function () {
+      const webSocketUrl = nodes[0].url.replace("http://", "ws://");
+      provider = createChainProvider(chainFor([nodes[1].url], [webSocketUrl]));
+
+      expect(getRpcHealth(provider).map(endpoint => endpoint.url)).to.deep.equal([nodes[1].url, webSocketUrl]);
+      expect(await provider.getBlockNumber()).to.equal(await ethers.provider.getBlockNumber());
+    });
+
+    it("Should reject a chain without RPC URLs", async function () {
+      expect(() => createChainProvider(chainFor([]))).to.throw("No RPC URLs configured");
+    });
+
+    it("Should reject a quorum larger than the endpoint count", async function () {
+      expect(() => createChainProvider(chain, { quorum: 4 })).to.throw("exceeds the 3 RPC endpoint(s)");
+    });
+
+    it("Should put env URLs before the configured ones", async function () {
+      const urls = getNetworkRpcUrls("arbitrumSepolia", chain, {
+        ARBITRUM_SEPOLIA_RPC_URL: `http://env-rpc,${nodes[0].url}`,
+        ARBITRUM_SEPOLIA_WS_URL: "ws://env-ws",
+      });
+
+      expect(urls.http).to.deep.equal(["http://env-rpc", ...nodes.map(node => node.url)]);
+      expect(urls.webSocket).to.deep.equal(["ws://env-ws"]);
+    });
+
+    it("Should share a network provider only between callers resolving the same URLs", async function () {
+      try {
+        const first = getNetworkProvider("arbitrumSepolia", { ARBITRUM_SEPOLIA_RPC_URL: nodes[0].url });
+        const other = getNetworkProvider("arbitrumSepolia", { ARBITRUM_SEPOLIA_RPC_URL: nodes[1].url });
+
+        expect(getNetworkProvider("arbitrumSepolia", { ARBITRUM_SEPOLIA_RPC_URL: nodes[0].url })).to.equal(first);
+        expect(other).to.not.equal(first);
+        expect(getRpcHealth(first)[0].url).to.equal(nodes[0].url);
+        expect(getRpcHealth(other)[0].url).to.equal(nodes[1].url);
+      } finally {
+        await closeNetworkProviders();
+      }
+    });
+  });
+
+  describe("Reads", function () {
+    it("Should read chain state with a quorum across nodes", async function () {
+      const [signer] = await ethers.getSigners();
+      provider = createChainProvider(chain, { quorum: 2 });
+
+      expect((await provider.getNetwork()).chainId).to.equal(BigInt(chain.id));
+      expect(await provider.getBalance(signer.address)).to.equal(await ethers.provider.getBalance(signer.address));
+    });
+
+    it("Should batch concurrent calls", async function () {
+      const signers = await ethers.getSigners();
+      provider = createChainProvider(chain, { batchMaxCount: 5 });
+
+      const balances = await Promise.all(signers.map(signer => provider!.getBalance(signer.address)));
+      const expected = await Promise.all(signers.map(signer => ethers.provider.getBalance(signer.address)));
+      expect(balances).to.deep.equal(expected);
+    });
+  });
+
+  describe("Failure injection", function () {
+    it("Should keep serving when the primary node goes down", async function () {
+      const [signer] = await ethers.getSigners();
+      provider = createChainProvider(chain, { timeout: 1000, stallTimeout: 200 });
+      await provider.getBlockNumber();
+
+      await nodes[0].close();
+
+      for (let i = 0; i < 3; i++) {
+        expect(await provider.getBalance(signer.address)).to.equal(await ethers.provider.getBalance(signer.address));
+      }
+
+      const [primary, ...others] = getRpcHealth(provider);
+      expect(primary.failures).to.be.greaterThan(0);
+      expect(primary.healthy).to.be.false;
+      expect(primary.score).to.be.lessThan(1);
+      expect(others.some(endpoint => endpoint.requests > 0 && endpoint.healthy)).to.be.true;
+    });
+
+    it("Should keep the quorum when one of three nodes goes down", async function () {
+      const [signer] = await ethers.getSigners();
+      provider = createChainProvider(chain, { quorum: 2, timeout: 1000, stallTimeout: 200 });
+      await provider.getBlockNumber();
+
+      await nodes[1].close();
+
+      expect(await provider.getBalance(signer.address)).to.equal(await ethers.provider.getBalance(signer.address));
+    });
+
+    it("Should time out a hanging node and fall back", async function () {
+      const hanging = await startHangingNode();
+      nodes.push(hanging);
+      provider = createChainProvider(chainFor([hanging.url, nodes[0].url]), { timeout: 500, stallTimeout: 100 });
+
+      expect(await provider.getBlockNumber()).to.equal(await ethers.provider.getBlockNumber());
+
+      const [stalled, fallback] = getRpcHealth(provider);
+      expect(stalled.healthy).to.be.false;
+      expect(fallback.healthy).to.be.true;
+    });
+
+    it("Should fail once every node is down", async function () {
+      const [signer] = await ethers.getSigners();
+      provider = createChainProvider(chain, { timeout: 300, stallTimeout: 100 });
+      await provider.getBlockNumber();
+
+      await Promise.all(nodes.map(node => node.close()));
+
+      await expect(provider.getBalance(signer.address)).to.be.rejected;
+      expect(getRpcHealth(provider).every(endpoint => !endpoint.healthy)).to.be.true;
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import EndpointV2Artifact from "@layerzerolabs/lz-evm-protocol-v2/artifacts/contracts/EndpointV2.sol/EndpointV2.json";
+import { OWNABLE_ABI } from "../scripts/utils/ownership";
+import { SafeBatchBuilder, formatSafeSimulation, simulateSafeBatch } from "../scripts/utils/safe";
+
+describe("Safe batches", function () {
+  const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, "0")}`);
+  const safe = address(0x5afe);
+  const engineAbi = ["function addCollateralToken(address token, uint8 decimals, address priceFeed, bool isVolatile, bool needsEthConversion)"];
+
+  it("Should encode calls in the Transaction Builder format with decoded descriptions", async function () {
+    const usdc = "0xaf88d065e77c8cC2239327C5EDb3A432268e5831";
+    const batch = new SafeBatchBuilder("arbitrum", 42161, safe, {
+      [address(1).toLowerCase()]: "engines.EUR",
+      [usdc.toLowerCase()]: "USDC",
+    });
+
+    const description = batch.add(address(1), engineAbi, "addCollateralToken", [usdc, 6, address(2), false, false]);
+    const json = batch.build("Collaterals");
+
+    expect(description).to.equal(
+      `engines.EUR.addCollateralToken(token=USDC (${usdc}), decimals=6, priceFeed=${address(2)}, isVolatile=false, needsEthConversion=false)`
+    );
+    expect(json).to.include({ version: "1.0", chainId: "42161" });
+    expect(json.meta).to.include({ name: "Collaterals", createdFromSafeAddress: safe, description: `1. ${description}` });
+    expect(json.transactions[0]).to.deep.include({
+      to: address(1),
+      value: "0",
+      data: new ethers.Interface(engineAbi).encodeFunctionData("addCollateralToken", [usdc, 6, address(2), false, false]),
+      contractInputsValues: { token: usdc, decimals: "6", priceFeed: address(2), isVolatile: "false", needsEthConversion: "false" },
+    });
+    expect(json.transactions[0].contractMethod.inputs.map(input => input.type)).to.deep.equal(["address", "uint8", "address", "bool", "bool"]);
+  });
+
+  it("Should execute the batch as the Safe and restore the node", async function () {
+    const [deployer] = await ethers.getSigners();
+    const endpoint = await new ethers.ContractFactory(EndpointV2Artifact.abi, EndpointV2Artifact.bytecode, deployer)
+      .deploy(30110, safe);
+    const target = await endpoint.getAddress();
+
+    const batch = new SafeBatchBuilder("hardhat", 31337, safe);
+    batch.add(target, OWNABLE_ABI, "transferOwnership", [address(3)]);
+    const results = await simulateSafeBatch(hre, batch.build("Handoff"));
+
+    expect(results.map(result => result.status)).to.deep.equal(["success"]);
+    expect(await endpoint.getFunction("owner")()).to.equal(safe);
+  });
+
+  it("Should stop at the first revert", async function () {
+    const [deployer] = await ethers.getSigners();
+    const endpoint = await new ethers.ContractFactory(EndpointV2Artifact.abi, EndpointV2Artifact.bytecode, deployer)
+      .deploy(30110, deployer.address);
+    const target = await endpoint.getAddress();
+
+    const batch = new SafeBatchBuilder("hardhat", 31337, safe);
+    batch.add(target, OWNABLE_ABI, "transferOwnership", [safe]);
+    batch.add(target, OWNABLE_ABI, "transferOwnership", [address(3)]);
+    const results = await simulateSafeBatch(hre, batch.build("Not the owner"));
+
+    expect(results.map(result => result.status)).to.deep.equal(["reverted", "not-run"]);
+    expect(results[0].error).to.contain("reverted");
+    expect(formatSafeSimulation(results)).to.contain("0 of 2 transaction(s) succeeded");
+  });
+});
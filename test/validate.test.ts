@@ -0,0 +1,134 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { CHAINS } from "../config/chains";
+import { COLLATERALS, CollateralConfig } from "../config/collaterals";
+import { ALL_DEPLOYMENTS } from "../config/contracts";
+import { LAYERZERO } from "../config/layerzero";
+import { LAYERZERO_PROTOCOL } from "../config/messaging";
+import { PRICE_FEEDS } from "../config/priceFeeds";
+import { checkAddress, ConfigValidationSources, formatValidationReport, validateConfig } from "../config/validate";
+
+describe("Config validation", function () {
+  const address = (n: number) => ethers.getAddress(`0x${n.toString(16).padStart(40, "a")}`);
+  // Same address with the case of its first letter flipped
+  const badChecksum = (value: string) => value.replace(/[a-fA-F]/, letter =>
+    letter === letter.toUpperCase() ? letter.toLowerCase() : letter.toUpperCase()
+  );
+
+  // A collateral's arbitrum token and feed only
+  const onArbitrum = (collateral: CollateralConfig, token = collateral.addresses.arbitrum): CollateralConfig => ({
+    ...collateral,
+    addresses: { arbitrum: token },
+    priceFeeds: { arbitrum: collateral.priceFeeds.arbitrum },
+  });
+
+  // Arbitrum alone, without the script and contract scans
+  const validate = (overrides: ConfigValidationSources = {}) => validateConfig({
+    chains: { arbitrum: CHAINS.arbitrum },
+    collaterals: { USDC: onArbitrum(COLLATERALS.USDC) },
+    collateralPolicies: {},
+    priceFeeds: { arbitrum: PRICE_FEEDS.arbitrum },
+    layerZero: { arbitrum: LAYERZERO.arbitrum },
+    layerZeroProtocol: { arbitrum: LAYERZERO_PROTOCOL.arbitrum },
+    deployments: {},
+    safes: {},
+    scriptsDir: false,
+    contractsDir: false,
+    ...overrides,
+  });
+  const errors = (result: ReturnType<typeof validateConfig>) => result.issues
+    .filter(issue => issue.severity === "error")
+    .map(issue => `${issue.source}: ${issue.message}`);
+
+  it("Should accept the repository configuration", async function () {
+    const result = validateConfig();
+
+    expect(errors(result)).to.deep.equal([]);
+    expect(result.valid).to.equal(true);
+    expect(errors(validate())).to.deep.equal([]);
+  });
+
+  it("Should reject bad checksums and placeholder addresses and warn on lower-case ones", async function () {
+    const valid = address(1);
+
+    expect(checkAddress(valid)).to.equal(undefined);
+    expect(checkAddress(badChecksum(valid))).to.deep.equal({ severity: "error", message: `bad checksum for ${badChecksum(valid)} (expected ${valid})` });
+    expect(checkAddress(valid.toLowerCase())).to.deep.include({ severity: "warning" });
+    expect(checkAddress("0x...")).to.deep.equal({ severity: "error", message: 'placeholder or malformed address "0x..."' });
+    expect(checkAddress(ethers.ZeroAddress)).to.deep.equal({ severity: "error", message: "zero address" });
+    expect(checkAddress(ethers.ZeroAddress, { allowZero: true })).to.equal(undefined);
+
+    const result = validate({
+      collaterals: {
+        USDC: onArbitrum(COLLATERALS.USDC, badChecksum(COLLATERALS.USDC.addresses.arbitrum)),
+      },
+      safes: { arbitrum: "0xYourSafeAddress" },
+    });
+
+    expect(result.valid).to.equal(false);
+    expect(result.networks.arbitrum.errors.map(issue => issue.source)).to.deep.equal([
+      "collaterals.USDC.addresses.arbitrum",
+      "safes.arbitrum",
+    ]);
+    expect(formatValidationReport(result)).to.contain('❌ safes.arbitrum: placeholder or malformed address "0xYourSafeAddress"');
+  });
+
+  it("Should reject an address used twice within a table or for different assets", async function () {
+    const [first, second] = Object.keys(PRICE_FEEDS.arbitrum);
+    const deployment = structuredClone(ALL_DEPLOYMENTS.arbitrum);
+    deployment.addresses.torqueDEX = address(2);
+    deployment.addresses.torqueFX = address(2);
+
+    const result = validate({
+      priceFeeds: {
+        arbitrum: { ...PRICE_FEEDS.arbitrum, [second]: { ...PRICE_FEEDS.arbitrum[second], address: PRICE_FEEDS.arbitrum[first].address } },
+      },
+      collaterals: {
+        USDC: onArbitrum(COLLATERALS.USDC),
+        USDT: onArbitrum(COLLATERALS.USDT, COLLATERALS.USDC.addresses.arbitrum),
+      },
+      deployments: { arbitrum: deployment },
+    });
+
+    expect(errors(result)).to.deep.equal([
+      `priceFeeds.arbitrum.${second}: same feed address as ${first}`,
+      `collaterals: ${COLLATERALS.USDC.addresses.arbitrum.toLowerCase()} is used for different assets: USDC token, USDT token`,
+      "deployments.arbitrum.addresses.torqueDEX: same address as torqueFX",
+    ]);
+  });
+
+  it("Should reject feeds filed under another pair and warn on heartbeats OracleLib rejects", async function () {
+    const { EUR_USD, ETH_USD } = PRICE_FEEDS.arbitrum;
+    const result = validate({
+      priceFeeds: { arbitrum: { EUR_USD, ETH_USD, GBP_USD: { ...EUR_USD, address: address(3) } } },
+    });
+
+    expect(errors(result)).to.deep.equal(["priceFeeds.arbitrum.GBP_USD: pair key does not match base/quote EUR/USD"]);
+    expect(result.networks.arbitrum.warnings.map(issue => `${issue.source}: ${issue.message}`)).to.include(
+      "priceFeeds.arbitrum: heartbeat exceeds OracleLib timeout (3h), engines revert in quiet markets: EUR_USD, GBP_USD"
+    );
+  });
+
+  it("Should reject chain IDs and EIDs that disagree between the tables", async function () {
+    const result = validate({
+      chains: { arbitrum: CHAINS.arbitrum, base: CHAINS.base },
+      layerZero: {
+        arbitrum: { ...LAYERZERO.arbitrum, chainId: CHAINS.base.id },
+        base: { ...LAYERZERO.base, eid: LAYERZERO.arbitrum.eid },
+      },
+      layerZeroProtocol: { arbitrum: LAYERZERO_PROTOCOL.arbitrum, base: LAYERZERO_PROTOCOL.base },
+      hardhatNetworks: { arbitrum: { chainId: CHAINS.arbitrum.id }, base: { chainId: CHAINS.arbitrum.id } },
+    });
+
+    expect(errors(result)).to.include.members([
+      `layerZero.arbitrum.chainId: chain ID ${CHAINS.base.id} does not match CHAINS (${CHAINS.arbitrum.id})`,
+      "chains.base.layerZero: differs from config/layerzero.ts",
+      `layerZero.base.eid: EID ${LAYERZERO.arbitrum.eid} is also used by arbitrum`,
+      `layerZero.base: EID ${LAYERZERO.arbitrum.eid} and v1 ID ${LAYERZERO.base.v1EndpointId} belong to different chains`,
+      `hardhat.networks.base.chainId: chain ID ${CHAINS.arbitrum.id} does not match CHAINS (${CHAINS.base.id})`,
+    ]);
+    expect(result.global.map(issue => issue.message)).to.include(
+      "legacy uint16 chain IDs differ from the v2 EIDs, inbound messages to TorqueBatchHandler/TorqueDEX/TorqueStake will not resolve their source: arbitrum, base"
+    );
+  });
+});